@@ -0,0 +1,19 @@
+-- Migration number: 0002 	 2026-10-19T09:12:44.118Z
+-- Ledger of every Stripe webhook delivery. The webhook claims a row before
+-- running side effects so Stripe retries of an already-processed event are
+-- acknowledged and skipped. `actions` holds a JSON array describing what the
+-- worker did for the event (audit log).
+CREATE TABLE IF NOT EXISTS stripe_events (
+    id TEXT PRIMARY KEY NOT NULL,
+    type TEXT NOT NULL,
+    received_at TEXT NOT NULL,
+    last_attempt_at TEXT NOT NULL,
+    processed_at TEXT,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    error TEXT,
+    actions TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_events_status ON stripe_events (status, received_at);
+CREATE INDEX IF NOT EXISTS idx_stripe_events_type ON stripe_events (type, received_at);
@@ -0,0 +1,18 @@
+-- Migration number: 0003 	 2026-10-19T10:03:27.540Z
+-- Server-side price catalog keyed by the selector tool's partNumber.
+-- Checkout endpoints price line items from here, never from the browser.
+-- kind: 'subscription' | 'one_time'; interval only applies to subscriptions.
+-- Prices can be changed without a redeploy, e.g.:
+--   npx wrangler d1 execute DB --remote --command \
+--     "UPDATE catalog_items SET amount_cents = 4900, updated_at = datetime('now') WHERE part_number = 'R4-PLAN-BASIC'"
+CREATE TABLE IF NOT EXISTS catalog_items (
+    part_number TEXT PRIMARY KEY NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('subscription', 'one_time')),
+    name TEXT NOT NULL,
+    description TEXT NOT NULL DEFAULT '',
+    amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+    currency TEXT NOT NULL DEFAULT 'usd',
+    interval TEXT CHECK (interval IN ('day', 'week', 'month', 'year')),
+    active INTEGER NOT NULL DEFAULT 1,
+    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
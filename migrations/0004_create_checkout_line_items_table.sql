@@ -0,0 +1,17 @@
+-- Migration number: 0004 	 2026-10-19T11:20:05.912Z
+-- What was bought in each completed Checkout Session, one row per Stripe line
+-- item. Written by checkout.session.completed from the line_<i> session
+-- metadata; add_on_to holds the parent partNumber for add-on lines.
+CREATE TABLE IF NOT EXISTS checkout_line_items (
+    session_id TEXT NOT NULL,
+    line_index INTEGER NOT NULL,
+    purchase_type TEXT NOT NULL,
+    part_number TEXT NOT NULL,
+    quantity INTEGER NOT NULL,
+    unit_amount_cents INTEGER NOT NULL,
+    add_on_to TEXT,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (session_id, line_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_checkout_line_items_part ON checkout_line_items (part_number, created_at);
@@ -0,0 +1,52 @@
+-- Migration number: 0005 	 2026-10-19T12:41:50.276Z
+-- Local, queryable mirror of Stripe state, upserted from webhook events and
+-- keyed by Stripe ids (cus_..., sub_..., in_...). Timestamps are ISO strings.
+CREATE TABLE IF NOT EXISTS customers (
+    id TEXT PRIMARY KEY NOT NULL,
+    email TEXT,
+    name TEXT,
+    phone TEXT,
+    sms_opt_in TEXT,
+    last_purchase_type TEXT,
+    last_checkout_session TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_customers_email ON customers (email);
+CREATE INDEX IF NOT EXISTS idx_customers_phone ON customers (phone);
+
+CREATE TABLE IF NOT EXISTS subscriptions (
+    id TEXT PRIMARY KEY NOT NULL,
+    customer_id TEXT,
+    status TEXT,
+    part_number TEXT,
+    service_summary TEXT,
+    amount_cents INTEGER,
+    interval TEXT,
+    cancel_at_period_end INTEGER,
+    current_period_end TEXT,
+    canceled_at TEXT,
+    -- Stripe event.created of the last applied event (out-of-order guard)
+    last_event_created INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_customer ON subscriptions (customer_id);
+CREATE INDEX IF NOT EXISTS idx_subscriptions_status ON subscriptions (status, cancel_at_period_end);
+
+CREATE TABLE IF NOT EXISTS invoices (
+    id TEXT PRIMARY KEY NOT NULL,
+    customer_id TEXT,
+    subscription_id TEXT,
+    status TEXT,
+    amount_paid_cents INTEGER,
+    currency TEXT,
+    paid_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_customer ON invoices (customer_id, paid_at);
+CREATE INDEX IF NOT EXISTS idx_invoices_subscription ON invoices (subscription_id, paid_at);
@@ -0,0 +1,22 @@
+-- Migration number: 0006 	 2026-10-19T13:58:12.604Z
+-- One row per completed Checkout Session (subscription or one-time), so the
+-- admin API can list purchases without paging through Stripe.
+CREATE TABLE IF NOT EXISTS purchases (
+    session_id TEXT PRIMARY KEY NOT NULL,
+    purchase_type TEXT NOT NULL,
+    customer_id TEXT,
+    subscription_id TEXT,
+    part_number TEXT,
+    service_summary TEXT,
+    amount_cents INTEGER,
+    currency TEXT,
+    payment_status TEXT,
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchases_type ON purchases (purchase_type, created_at);
+CREATE INDEX IF NOT EXISTS idx_purchases_customer ON purchases (customer_id, created_at);
+
+-- Outcome of the last GoHighLevel upsert for the customer ('ok' | 'failed' | 'skipped').
+ALTER TABLE customers ADD COLUMN ghl_sync_status TEXT;
+ALTER TABLE customers ADD COLUMN ghl_synced_at TEXT;
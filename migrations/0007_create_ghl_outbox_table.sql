@@ -0,0 +1,21 @@
+-- Migration number: 0007 	 2026-10-19T15:06:39.381Z
+-- Durable retry queue for GoHighLevel contact upserts that failed inline.
+-- Drained by the cron trigger with exponential backoff; rows that run out of
+-- attempts (or fail with a non-retryable 4xx) are left as 'dead' for replay.
+CREATE TABLE IF NOT EXISTS ghl_outbox (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    customer_id TEXT,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('pending', 'succeeded', 'dead')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TEXT NOT NULL,
+    last_error TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ghl_outbox_due ON ghl_outbox (status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_ghl_outbox_customer ON ghl_outbox (customer_id);
+
+-- customers.ghl_sync_status gains 'queued' (retry pending in this outbox);
+-- 'failed' now means the outbox row was dead-lettered.
@@ -0,0 +1,24 @@
+-- Migration number: 0008 	 2026-10-19T16:47:21.058Z
+-- Payment failures, pauses, refunds and disputes recorded from webhooks so
+-- staff can follow up before the next scheduled visit.
+-- kind: 'payment_failed' | 'subscription_paused' | 'refund' | 'dispute'
+-- object_id is the Stripe object the event is about (in_..., sub_..., ch_..., dp_...).
+CREATE TABLE IF NOT EXISTS billing_issues (
+    kind TEXT NOT NULL,
+    object_id TEXT NOT NULL,
+    customer_id TEXT,
+    subscription_id TEXT,
+    amount_cents INTEGER,
+    currency TEXT,
+    status TEXT,
+    reason TEXT,
+    attempt_count INTEGER,
+    next_attempt_at TEXT,
+    occurred_at TEXT NOT NULL,
+    resolved_at TEXT,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (kind, object_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_billing_issues_open ON billing_issues (resolved_at, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_billing_issues_customer ON billing_issues (customer_id, occurred_at);
@@ -0,0 +1,20 @@
+-- Migration number: 0009 	 2026-10-19T17:32:08.417Z
+-- One-time codes that prove control of a customer's email / phone before a
+-- Stripe billing portal session is issued.
+-- Only a hash of the code is stored. A row is usable once, until expires_at,
+-- and for a limited number of wrong guesses.
+-- channel: 'email' | 'sms'
+CREATE TABLE IF NOT EXISTS portal_verifications (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL,
+    customer_id TEXT NOT NULL,
+    channel TEXT NOT NULL,
+    code_hash TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    expires_at TEXT NOT NULL,
+    consumed_at TEXT,
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_portal_verifications_email ON portal_verifications (email, created_at);
+CREATE INDEX IF NOT EXISTS idx_portal_verifications_expires ON portal_verifications (expires_at);
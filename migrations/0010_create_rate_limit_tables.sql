@@ -0,0 +1,29 @@
+-- Migration number: 0010 	 2026-10-19T18:05:44.912Z
+-- Fixed-window request counters for the public /api/* routes, plus a log of
+-- every throttled request for review.
+-- bucket: "<rule>:<key>", e.g. "checkout.ip:203.0.113.7" or "portal.identifier:jane@example.com"
+-- window_start / expires_at are unix seconds; expired windows are purged by the cron.
+CREATE TABLE IF NOT EXISTS rate_limit_counters (
+    bucket TEXT NOT NULL,
+    window_start INTEGER NOT NULL,
+    count INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    PRIMARY KEY (bucket, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_counters_expires ON rate_limit_counters (expires_at);
+
+CREATE TABLE IF NOT EXISTS rate_limit_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    route TEXT NOT NULL,
+    rule TEXT NOT NULL,
+    ip TEXT,
+    identifier TEXT,
+    count INTEGER NOT NULL,
+    limit_count INTEGER NOT NULL,
+    window_seconds INTEGER NOT NULL,
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_events_created ON rate_limit_events (created_at);
+CREATE INDEX IF NOT EXISTS idx_rate_limit_events_ip ON rate_limit_events (ip, created_at);
@@ -0,0 +1,34 @@
+-- Migration number: 0011 	 2026-10-19T18:41:27.305Z
+-- Append-only record of SMS consent (TCPA): every opt-in captured at checkout
+-- and every opt-out (STOP), with the consent language version shown and where
+-- / from whom it came. The current state for a phone is its latest row.
+-- action: 'opt_in' | 'opt_out'
+-- source: page URL for web opt-ins, or e.g. 'sms-stop' / 'web-unsubscribe'
+-- Rows are never updated or deleted; the triggers enforce that.
+CREATE TABLE IF NOT EXISTS sms_consent_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    phone TEXT NOT NULL,
+    channel TEXT NOT NULL DEFAULT 'sms',
+    action TEXT NOT NULL,
+    consent_version TEXT,
+    source TEXT,
+    ip TEXT,
+    user_agent TEXT,
+    email TEXT,
+    checkout_session_id TEXT,
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_consent_log_phone ON sms_consent_log (phone, id);
+
+CREATE TRIGGER IF NOT EXISTS sms_consent_log_no_update
+BEFORE UPDATE ON sms_consent_log
+BEGIN
+    SELECT RAISE(ABORT, 'sms_consent_log is append-only');
+END;
+
+CREATE TRIGGER IF NOT EXISTS sms_consent_log_no_delete
+BEFORE DELETE ON sms_consent_log
+BEGIN
+    SELECT RAISE(ABORT, 'sms_consent_log is append-only');
+END;
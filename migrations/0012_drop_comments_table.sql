@@ -0,0 +1,6 @@
+-- Migration number: 0012 	 2026-10-19T21:07:36.402Z
+-- Drops the `comments` table (and its sample rows) left over from the D1
+-- template's 0001 migration; nothing in the worker reads or writes it.
+-- 0001 itself stays as-is: migrations are forward-only, and databases that
+-- already applied it are tracked by file name in d1_migrations.
+DROP TABLE IF EXISTS comments;
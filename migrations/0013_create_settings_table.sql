@@ -0,0 +1,16 @@
+-- Migration number: 0013 	 2026-10-19T23:12:48.915Z
+-- Per-environment settings read by src/config.ts (checkout / portal return
+-- URLs, brand name, currency). A row here overrides the env var of the same
+-- name, so a value can be changed without a redeploy:
+--   INSERT OR REPLACE INTO settings (key, value, updated_at)
+--   VALUES ('PORTAL_RETURN_URL', 'https://staging.r4homeservice.com/manage', datetime('now'));
+CREATE TABLE IF NOT EXISTS settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+-- Catalog names carry the brand as a {brand} placeholder, filled in from
+-- BRAND_NAME at checkout. Production's brand is the default, so the names
+-- customers see don't change.
+UPDATE catalog_items SET name = REPLACE(name, 'R4 Home Service', '{brand}') WHERE name LIKE '%R4 Home Service%';
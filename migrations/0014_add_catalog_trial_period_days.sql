@@ -0,0 +1,7 @@
+-- Migration number: 0014 	 2026-10-20T00:05:31.672Z
+-- Free trial for a subscription catalog item, passed to Stripe Checkout as
+-- subscription_data.trial_period_days (NULL / 0 = no trial). A cart gets the
+-- longest trial among its lines: Stripe allows one trial per subscription,
+-- of at most 730 days.
+ALTER TABLE catalog_items ADD COLUMN trial_period_days INTEGER
+    CHECK (trial_period_days IS NULL OR trial_period_days BETWEEN 0 AND 730);
@@ -0,0 +1,8 @@
+-- Migration number: 0015 	 2026-10-20T01:18:09.244Z
+-- Multi-interval plans: a quarterly membership is interval 'month' with
+-- interval_count 3, an annual one 'year' / 1 (Stripe's recurring[interval_count]).
+-- Existing plans bill every single interval, so they default to 1.
+ALTER TABLE catalog_items ADD COLUMN interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count >= 1);
+
+-- Mirror of the subscription's cadence; NULL until an event reports it.
+ALTER TABLE subscriptions ADD COLUMN interval_count INTEGER;
@@ -0,0 +1,37 @@
+-- Migration number: 0016 	 2026-10-20T03:41:27.530Z
+-- Self-service plan changes for members (src/member.ts, src/memberAuth.ts).
+--
+-- member_sessions: short-lived bearer tokens handed out for a verified
+-- portal code (portal_verifications), so a member can preview and make
+-- several changes without a new code for each. Only a hash of the token is
+-- stored; revoked_at ends a session early.
+CREATE TABLE IF NOT EXISTS member_sessions (
+    id TEXT PRIMARY KEY,
+    token_hash TEXT NOT NULL UNIQUE,
+    customer_id TEXT NOT NULL,
+    email TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    revoked_at TEXT,
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_member_sessions_expires ON member_sessions (expires_at);
+
+-- What members changed themselves, and why (cancellation reasons are kept
+-- here as well as on the Stripe subscription).
+-- action: 'change' | 'pause' | 'cancel'
+CREATE TABLE IF NOT EXISTS subscription_changes (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    subscription_id TEXT NOT NULL,
+    customer_id TEXT NOT NULL,
+    action TEXT NOT NULL,
+    from_part_number TEXT,
+    to_part_number TEXT,
+    amount_cents INTEGER,
+    paused_until TEXT,
+    reason TEXT,
+    comment TEXT,
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_changes_subscription ON subscription_changes (subscription_id, created_at);
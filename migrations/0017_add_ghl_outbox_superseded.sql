@@ -0,0 +1,25 @@
+-- Migration number: 0017 	 2026-10-20T09:12:44.108Z
+-- ghl_outbox gains status 'superseded': a newer sync for the same customer was
+-- queued or delivered, so this row must never be sent (it would put back old
+-- tags and fields). SQLite can't change a CHECK constraint in place, so the
+-- table is rebuilt with the same columns and indexes.
+CREATE TABLE ghl_outbox_new (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    customer_id TEXT,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('pending', 'succeeded', 'dead', 'superseded')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TEXT NOT NULL,
+    last_error TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+INSERT INTO ghl_outbox_new (id, customer_id, payload, status, attempts, next_attempt_at, last_error, created_at, updated_at)
+SELECT id, customer_id, payload, status, attempts, next_attempt_at, last_error, created_at, updated_at FROM ghl_outbox;
+
+DROP TABLE ghl_outbox;
+ALTER TABLE ghl_outbox_new RENAME TO ghl_outbox;
+
+CREATE INDEX IF NOT EXISTS idx_ghl_outbox_due ON ghl_outbox (status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_ghl_outbox_customer ON ghl_outbox (customer_id);
@@ -0,0 +1,18 @@
+-- Migration number: 0018 	 2026-10-20T10:02:17.654Z
+-- Checkout opt-ins waiting for their Checkout Session to complete. The row is
+-- written when the session is created and moved into sms_consent_log (keeping
+-- its created_at, the moment consent was given) on checkout.session.completed.
+-- Abandoned checkouts never reach the append-only log; the cron purges their
+-- rows once the session can no longer complete.
+CREATE TABLE IF NOT EXISTS sms_consent_pending (
+    checkout_session_id TEXT PRIMARY KEY,
+    phone TEXT NOT NULL,
+    consent_version TEXT,
+    source TEXT,
+    ip TEXT,
+    user_agent TEXT,
+    email TEXT,
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_consent_pending_created ON sms_consent_pending (created_at);
@@ -0,0 +1,6 @@
+-- Migration number: 0019 	 2026-10-20T12:26:51.903Z
+-- When the change behind a queued GHL sync happened: the Stripe event.created
+-- for webhook syncs, else the time it was queued (unix seconds). Rows for the
+-- same customer are merged and delivered in this order rather than by arrival,
+-- so a late Stripe event can't win over a newer one. NULL on older rows.
+ALTER TABLE ghl_outbox ADD COLUMN event_created INTEGER;
@@ -0,0 +1,66 @@
+-- Local development fixtures. Loaded by `npm run seedLocalD1` after the
+-- migrations; never run this against the remote database.
+-- Every insert is OR IGNORE with fixed keys, so re-running is harmless.
+-- Stripe ids use a *_dev_ prefix and don't exist in any Stripe account.
+
+-- Catalog (what the selector tool can sell)
+INSERT OR IGNORE INTO catalog_items (part_number, kind, name, description, amount_cents, currency, interval)
+VALUES
+    ('R4-PLAN-BASIC', 'subscription', '{brand} Plan - Basic', 'Two HVAC tune-ups a year', 2900, 'usd', 'month'),
+    ('R4-PLAN-PLUS', 'subscription', '{brand} Plan - Plus', 'HVAC + plumbing inspections, priority scheduling', 4900, 'usd', 'month'),
+    ('R4-ADDON-FILTER', 'subscription', 'Filter delivery add-on', 'Replacement filters every quarter', 900, 'usd', 'month'),
+    ('R4-TUNEUP', 'one_time', 'One-time HVAC tune-up', 'Single visit, no membership', 14900, 'usd', NULL);
+
+-- Prepaid memberships (quarterly, annual)
+INSERT OR IGNORE INTO catalog_items (part_number, kind, name, description, amount_cents, currency, interval, interval_count)
+VALUES
+    ('R4-PLAN-PLUS-Q', 'subscription', '{brand} Plan - Plus (quarterly)', 'Plus plan, billed every 3 months', 13900, 'usd', 'month', 3),
+    ('R4-PLAN-PLUS-Y', 'subscription', '{brand} Plan - Plus (annual)', 'Plus plan, billed once a year', 49000, 'usd', 'year', 1);
+
+-- A member with an active plan, synced to GHL
+INSERT OR IGNORE INTO customers (id, email, name, phone, sms_opt_in, last_purchase_type, last_checkout_session, ghl_sync_status, ghl_synced_at, created_at, updated_at)
+VALUES
+    ('cus_dev_pat', 'pat@example.com', 'Pat Doe', '+15552345678', 'yes', 'subscription', 'cs_dev_pat', 'ok', '2026-10-01T15:00:05.000Z', '2026-10-01T15:00:00.000Z', '2026-10-01T15:00:05.000Z'),
+    ('cus_dev_sam', 'sam@example.com', 'Sam Roe', '+15553456789', 'no', 'one_time', 'cs_dev_sam', 'failed', NULL, '2026-10-05T18:30:00.000Z', '2026-10-05T18:30:00.000Z');
+
+INSERT OR IGNORE INTO subscriptions (id, customer_id, status, part_number, service_summary, amount_cents, interval, cancel_at_period_end, current_period_end, canceled_at, last_event_created, created_at, updated_at)
+VALUES
+    ('sub_dev_pat', 'cus_dev_pat', 'active', 'R4-PLAN-PLUS,R4-ADDON-FILTER', 'Plus plan + filter delivery', 5800, 'month', 0, '2026-11-01T15:00:00.000Z', NULL, 1759330800, '2026-10-01T15:00:00.000Z', '2026-10-01T15:00:00.000Z');
+
+INSERT OR IGNORE INTO invoices (id, customer_id, subscription_id, status, amount_paid_cents, currency, paid_at, created_at, updated_at)
+VALUES
+    ('in_dev_pat_1', 'cus_dev_pat', 'sub_dev_pat', 'paid', 5800, 'usd', '2026-10-01T15:00:02.000Z', '2026-10-01T15:00:02.000Z', '2026-10-01T15:00:02.000Z');
+
+INSERT OR IGNORE INTO purchases (session_id, purchase_type, customer_id, subscription_id, part_number, service_summary, amount_cents, currency, payment_status, created_at)
+VALUES
+    ('cs_dev_pat', 'subscription', 'cus_dev_pat', 'sub_dev_pat', 'R4-PLAN-PLUS,R4-ADDON-FILTER', 'Plus plan + filter delivery', 5800, 'usd', 'paid', '2026-10-01T15:00:00.000Z'),
+    ('cs_dev_sam', 'one_time', 'cus_dev_sam', NULL, 'R4-TUNEUP', 'One-time HVAC tune-up', 14900, 'usd', 'paid', '2026-10-05T18:30:00.000Z');
+
+INSERT OR IGNORE INTO checkout_line_items (session_id, line_index, purchase_type, part_number, quantity, unit_amount_cents, add_on_to, created_at)
+VALUES
+    ('cs_dev_pat', 0, 'subscription', 'R4-PLAN-PLUS', 1, 4900, NULL, '2026-10-01T15:00:00.000Z'),
+    ('cs_dev_pat', 1, 'subscription', 'R4-ADDON-FILTER', 1, 900, 'R4-PLAN-PLUS', '2026-10-01T15:00:00.000Z'),
+    ('cs_dev_sam', 0, 'one_time', 'R4-TUNEUP', 1, 14900, NULL, '2026-10-05T18:30:00.000Z');
+
+-- Webhook ledger: one clean delivery, one that failed and awaits Stripe's retry
+INSERT OR IGNORE INTO stripe_events (id, type, received_at, last_attempt_at, processed_at, status, attempts, error, actions)
+VALUES
+    ('evt_dev_1', 'checkout.session.completed', '2026-10-01T15:00:01.000Z', '2026-10-01T15:00:01.000Z', '2026-10-01T15:00:05.000Z', 'processed', 1, NULL, '["stripe.metadata: updated","ghl.upsert: ok"]'),
+    ('evt_dev_2', 'checkout.session.completed', '2026-10-05T18:30:01.000Z', '2026-10-05T18:30:01.000Z', NULL, 'failed', 1, 'Stripe customer lookup failed', '[]');
+
+-- An open billing issue for the dashboard
+INSERT OR IGNORE INTO billing_issues (kind, object_id, customer_id, subscription_id, amount_cents, currency, status, reason, attempt_count, next_attempt_at, occurred_at, resolved_at, updated_at)
+VALUES
+    ('payment_failed', 'in_dev_pat_2', 'cus_dev_pat', 'sub_dev_pat', 5800, 'usd', 'failed', 'card_declined', 1, '2026-11-04T15:00:00.000Z', '2026-11-01T15:00:03.000Z', NULL, '2026-11-01T15:00:03.000Z');
+
+-- A dead-lettered GHL upsert to replay from the admin API. Deliberately not
+-- 'pending': a local cron run would send it to whatever GHL account is configured.
+INSERT OR IGNORE INTO ghl_outbox (id, customer_id, payload, status, attempts, next_attempt_at, last_error, created_at, updated_at)
+VALUES
+    (1, 'cus_dev_sam', '{"upsert":{"locationId":"loc_dev","tags":["R4-OneTime"],"customFields":[{"key":"r4_part_number","field_value":"R4-TUNEUP"}],"source":"stripe-webhook","email":"sam@example.com","phone":"+15553456789","name":"Sam Roe"},"removeTags":[]}', 'dead', 1, '2026-10-05T18:31:00.000Z', 'upsert: HTTP 422: {"message":"Invalid locationId"}', '2026-10-05T18:30:02.000Z', '2026-10-05T18:30:02.000Z');
+
+-- SMS consent history (append-only; fixed ids keep re-runs from adding rows)
+INSERT OR IGNORE INTO sms_consent_log (id, phone, channel, action, consent_version, source, ip, user_agent, email, checkout_session_id, created_at)
+VALUES
+    (1, '+15552345678', 'sms', 'opt_in', '2026-09', 'https://r4homeservice.com/plans', '203.0.113.7', 'Mozilla/5.0', 'pat@example.com', 'cs_dev_pat', '2026-10-01T14:59:40.000Z'),
+    (2, '+15553456789', 'sms', 'opt_out', NULL, 'sms-stop', '203.0.113.9', 'ghl-workflow', NULL, NULL, '2026-10-06T09:12:00.000Z');
@@ -0,0 +1,498 @@
+// src/admin.ts
+// =====================================================
+// Admin JSON API (office staff) — backed by the D1 mirror tables
+//
+// Auth: Authorization: Bearer <ADMIN_API_TOKEN> only. HTTP Basic (the token as
+//       password) is for the read-only HTML dashboard: browsers resend cached
+//       Basic credentials on their own, which would make the replay POST
+//       forgeable from another site.
+//
+// Endpoints (GET lists are paginated with ?limit=&offset=):
+//   GET  /admin/api/customers       ?q= &email= &phone= &ghlSync=ok|queued|failed|skipped
+//   GET  /admin/api/subscriptions   ?status= &customerId= &partNumber= &cancelAtPeriodEnd=true|false
+//   GET  /admin/api/purchases       ?type=subscription|one_time &customerId= &from= &to=
+//   GET  /admin/api/invoices        ?customerId= &subscriptionId= &status=
+//   GET  /admin/api/events          ?status=processing|processed|failed &type=
+//   GET  /admin/api/billing-issues  ?kind=payment_failed|subscription_paused|refund|dispute &customerId= &open=true
+//   GET  /admin/api/ghl-outbox      ?status=pending|succeeded|dead|superseded &customerId=
+//   GET  /admin/api/throttles       ?route= &rule= &ip=   (rate-limited requests)
+//   GET  /admin/api/sms-consent     ?phone= (required) &format=json|csv   full consent history for one phone
+//   GET  /admin/api/diagnostics     health report + live Stripe / GHL credential check (src/diagnostics.ts)
+//   POST /admin/api/ghl-outbox/:id/replay   (retry now with a fresh attempt budget)
+// =====================================================
+
+import type { Env } from "./index";
+import { consentHistoryCsv, getConsentHistory } from "./consent";
+import { timingSafeEqualString } from "./crypto";
+import { buildDiagnostics } from "./diagnostics";
+import { replayGhlOutboxItem } from "./ghl";
+import type { Logger } from "./log";
+import { normalizePhone } from "./phone";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+export interface Page {
+  limit: number;
+  offset: number;
+}
+
+export interface PageResult<T> {
+  data: T[];
+  page: { limit: number; offset: number; nextOffset: number | null };
+}
+
+// One WHERE clause fragment using positional `?` placeholders.
+type Filter = { sql: string; values: unknown[] };
+
+// =====================================================
+// Router
+// =====================================================
+export async function handleAdminApi(request: Request, env: Env, log: Logger, url: URL): Promise<Response> {
+  const denied = await checkAdminAuth(request, env);
+  if (denied) return denied;
+
+  const replay = url.pathname.match(/^\/admin\/api\/ghl-outbox\/(\d+)\/replay$/);
+  if (replay) {
+    if (request.method !== "POST") return adminJson({ error: "Method not allowed" }, 405);
+    if (!env.GHL_PRIVATE_TOKEN) return adminJson({ error: "Missing GHL_PRIVATE_TOKEN" }, 500);
+
+    const result = await replayGhlOutboxItem(env, log, Number(replay[1]));
+    if (!result.found) return adminJson({ error: "Outbox item not found, already succeeded or superseded" }, 404);
+    return adminJson({ id: Number(replay[1]), status: result.status }, 200);
+  }
+
+  if (request.method !== "GET") return adminJson({ error: "Method not allowed" }, 405);
+
+  const page = parsePage(url.searchParams);
+  const q = url.searchParams;
+
+  switch (url.pathname) {
+    case "/admin/api/customers":
+      return adminJson(
+        await listCustomers(
+          env.DB,
+          { q: q.get("q"), email: q.get("email"), phone: q.get("phone"), ghlSync: q.get("ghlSync") },
+          page
+        ),
+        200
+      );
+
+    case "/admin/api/subscriptions":
+      return adminJson(
+        await listSubscriptions(
+          env.DB,
+          {
+            status: q.get("status"),
+            customerId: q.get("customerId"),
+            partNumber: q.get("partNumber"),
+            cancelAtPeriodEnd: q.get("cancelAtPeriodEnd"),
+          },
+          page
+        ),
+        200
+      );
+
+    case "/admin/api/purchases":
+      return adminJson(
+        await listPurchases(
+          env.DB,
+          { type: q.get("type"), customerId: q.get("customerId"), from: q.get("from"), to: q.get("to") },
+          page
+        ),
+        200
+      );
+
+    case "/admin/api/invoices":
+      return adminJson(
+        await listInvoices(
+          env.DB,
+          { customerId: q.get("customerId"), subscriptionId: q.get("subscriptionId"), status: q.get("status") },
+          page
+        ),
+        200
+      );
+
+    case "/admin/api/events":
+      return adminJson(await listEvents(env.DB, { status: q.get("status"), type: q.get("type") }, page), 200);
+
+    case "/admin/api/billing-issues":
+      return adminJson(
+        await listBillingIssues(
+          env.DB,
+          { kind: q.get("kind"), customerId: q.get("customerId"), open: q.get("open") === "true" },
+          page
+        ),
+        200
+      );
+
+    case "/admin/api/ghl-outbox":
+      return adminJson(
+        await listGhlOutbox(env.DB, { status: q.get("status"), customerId: q.get("customerId") }, page),
+        200
+      );
+
+    case "/admin/api/sms-consent":
+      return exportSmsConsent(env, q);
+
+    case "/admin/api/diagnostics":
+      return adminJson(await buildDiagnostics(env, log, { credentials: true }), 200);
+
+    case "/admin/api/throttles":
+      return adminJson(
+        await listThrottles(env.DB, { route: q.get("route"), rule: q.get("rule"), ip: q.get("ip") }, page),
+        200
+      );
+  }
+
+  return adminJson({ error: "Not found" }, 404);
+}
+
+// Not paginated: a dispute needs the whole history for the number.
+async function exportSmsConsent(env: Env, q: URLSearchParams): Promise<Response> {
+  const phone = normalizePhone(q.get("phone") || "", env.DEFAULT_PHONE_COUNTRY);
+  if (!phone.ok) return adminJson({ error: `phone ${phone.error}` }, 400);
+
+  const history = await getConsentHistory(env.DB, phone.e164);
+  if (q.get("format") === "csv") {
+    return new Response(consentHistoryCsv(history), {
+      status: 200,
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="sms-consent-${phone.e164.slice(1)}.csv"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  }
+
+  const latest = history[history.length - 1];
+  return adminJson({ phone: phone.e164, current: latest?.action ?? null, history }, 200);
+}
+
+// =====================================================
+// Auth
+// =====================================================
+// Returns a 401/500 response when the request is not an authenticated admin, else null.
+// `challenge` picks the WWW-Authenticate scheme: "Basic" makes browsers show a login
+// prompt, and is the only mode that also accepts Basic credentials.
+export async function checkAdminAuth(
+  request: Request,
+  env: Env,
+  challenge: "Bearer" | "Basic" = "Bearer"
+): Promise<Response | null> {
+  if (!env.ADMIN_API_TOKEN) return adminJson({ error: "Missing ADMIN_API_TOKEN" }, 500);
+
+  const token = readAdminToken(request.headers.get("Authorization") || "", challenge === "Basic");
+  if (token && (await timingSafeEqualString(token, env.ADMIN_API_TOKEN))) return null;
+
+  return new Response(JSON.stringify({ error: "Unauthorized" }), {
+    status: 401,
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-store",
+      "WWW-Authenticate": `${challenge} realm="R4 Admin"`,
+    },
+  });
+}
+
+function readAdminToken(header: string, allowBasic: boolean): string {
+  if (header.startsWith("Bearer ")) return header.slice(7).trim();
+  if (allowBasic && header.startsWith("Basic ")) {
+    // Any username; the password is the admin token.
+    try {
+      const decoded = atob(header.slice(6).trim());
+      const i = decoded.indexOf(":");
+      return i >= 0 ? decoded.slice(i + 1) : "";
+    } catch {
+      return "";
+    }
+  }
+  return "";
+}
+
+// =====================================================
+// Queries (also used by the HTML dashboard)
+// =====================================================
+export async function listCustomers(
+  db: D1Database,
+  f: { q?: string | null; email?: string | null; phone?: string | null; ghlSync?: string | null },
+  page: Page
+): Promise<PageResult<Record<string, unknown>>> {
+  const filters: Filter[] = [];
+  if (f.email) filters.push({ sql: "email = ?", values: [f.email.trim().toLowerCase()] });
+  if (f.phone) filters.push({ sql: "phone = ?", values: [f.phone.trim()] });
+  if (f.ghlSync) filters.push({ sql: "ghl_sync_status = ?", values: [f.ghlSync] });
+  if (f.q) {
+    const like = `%${f.q.trim()}%`;
+    filters.push({ sql: "(email LIKE ? OR name LIKE ? OR phone LIKE ? OR id = ?)", values: [like, like, like, f.q.trim()] });
+  }
+
+  return listRows(
+    db,
+    `SELECT id, email, name, phone, sms_opt_in, last_purchase_type, last_checkout_session,
+            ghl_sync_status, ghl_synced_at, created_at, updated_at
+     FROM customers`,
+    filters,
+    "updated_at DESC",
+    page
+  );
+}
+
+export async function listSubscriptions(
+  db: D1Database,
+  f: {
+    status?: string | null;
+    customerId?: string | null;
+    partNumber?: string | null;
+    cancelAtPeriodEnd?: string | null;
+  },
+  page: Page
+): Promise<PageResult<Record<string, unknown>>> {
+  const filters: Filter[] = [];
+  if (f.status) filters.push({ sql: "s.status = ?", values: [f.status] });
+  if (f.customerId) filters.push({ sql: "s.customer_id = ?", values: [f.customerId] });
+  if (f.partNumber) filters.push({ sql: "s.part_number = ?", values: [f.partNumber] });
+  if (f.cancelAtPeriodEnd === "true" || f.cancelAtPeriodEnd === "false") {
+    filters.push({ sql: "s.cancel_at_period_end = ?", values: [f.cancelAtPeriodEnd === "true" ? 1 : 0] });
+  }
+
+  const result = await listRows(
+    db,
+    `SELECT s.id, s.customer_id, c.email AS customer_email, c.name AS customer_name, s.status,
+            s.part_number, s.service_summary, s.amount_cents, s.interval, s.interval_count,
+            s.cancel_at_period_end, s.current_period_end, s.canceled_at, s.created_at, s.updated_at
+     FROM subscriptions s
+     LEFT JOIN customers c ON c.id = s.customer_id`,
+    filters,
+    "s.updated_at DESC",
+    page
+  );
+  for (const row of result.data) row.cancel_at_period_end = row.cancel_at_period_end === 1;
+  return result;
+}
+
+export async function listPurchases(
+  db: D1Database,
+  f: { type?: string | null; customerId?: string | null; from?: string | null; to?: string | null },
+  page: Page
+): Promise<PageResult<Record<string, unknown>>> {
+  const filters: Filter[] = [];
+  if (f.type) filters.push({ sql: "p.purchase_type = ?", values: [f.type] });
+  if (f.customerId) filters.push({ sql: "p.customer_id = ?", values: [f.customerId] });
+  if (f.from) filters.push({ sql: "p.created_at >= ?", values: [f.from] });
+  if (f.to) filters.push({ sql: "p.created_at < ?", values: [f.to] });
+
+  return listRows(
+    db,
+    `SELECT p.session_id, p.purchase_type, p.customer_id, c.email AS customer_email, c.name AS customer_name,
+            p.subscription_id, p.part_number, p.service_summary, p.amount_cents, p.currency,
+            p.payment_status, c.ghl_sync_status, p.created_at
+     FROM purchases p
+     LEFT JOIN customers c ON c.id = p.customer_id`,
+    filters,
+    "p.created_at DESC",
+    page
+  );
+}
+
+export async function listInvoices(
+  db: D1Database,
+  f: { customerId?: string | null; subscriptionId?: string | null; status?: string | null },
+  page: Page
+): Promise<PageResult<Record<string, unknown>>> {
+  const filters: Filter[] = [];
+  if (f.customerId) filters.push({ sql: "customer_id = ?", values: [f.customerId] });
+  if (f.subscriptionId) filters.push({ sql: "subscription_id = ?", values: [f.subscriptionId] });
+  if (f.status) filters.push({ sql: "status = ?", values: [f.status] });
+
+  return listRows(
+    db,
+    `SELECT id, customer_id, subscription_id, status, amount_paid_cents, currency, paid_at, created_at, updated_at
+     FROM invoices`,
+    filters,
+    "COALESCE(paid_at, created_at) DESC",
+    page
+  );
+}
+
+export async function listEvents(
+  db: D1Database,
+  f: { status?: string | null; type?: string | null },
+  page: Page
+): Promise<PageResult<Record<string, unknown>>> {
+  const filters: Filter[] = [];
+  if (f.status) filters.push({ sql: "status = ?", values: [f.status] });
+  if (f.type) filters.push({ sql: "type = ?", values: [f.type] });
+
+  const result = await listRows(
+    db,
+    `SELECT id, type, status, attempts, received_at, last_attempt_at, processed_at, error, actions
+     FROM stripe_events`,
+    filters,
+    "received_at DESC",
+    page
+  );
+  for (const row of result.data) row.actions = parseJsonArray(row.actions);
+  return result;
+}
+
+export async function listBillingIssues(
+  db: D1Database,
+  f: { kind?: string | null; customerId?: string | null; open?: boolean },
+  page: Page
+): Promise<PageResult<Record<string, unknown>>> {
+  const filters: Filter[] = [];
+  if (f.kind) filters.push({ sql: "b.kind = ?", values: [f.kind] });
+  if (f.customerId) filters.push({ sql: "b.customer_id = ?", values: [f.customerId] });
+  if (f.open) filters.push({ sql: "b.resolved_at IS NULL", values: [] });
+
+  return listRows(
+    db,
+    `SELECT b.kind, b.object_id, b.customer_id, c.email AS customer_email, c.name AS customer_name, c.phone AS customer_phone,
+            b.subscription_id, b.amount_cents, b.currency, b.status, b.reason, b.attempt_count, b.next_attempt_at,
+            b.occurred_at, b.resolved_at
+     FROM billing_issues b
+     LEFT JOIN customers c ON c.id = b.customer_id`,
+    filters,
+    "b.occurred_at DESC",
+    page
+  );
+}
+
+export async function listGhlOutbox(
+  db: D1Database,
+  f: { status?: string | null; customerId?: string | null },
+  page: Page
+): Promise<PageResult<Record<string, unknown>>> {
+  const filters: Filter[] = [];
+  if (f.status) filters.push({ sql: "o.status = ?", values: [f.status] });
+  if (f.customerId) filters.push({ sql: "o.customer_id = ?", values: [f.customerId] });
+
+  const result = await listRows(
+    db,
+    `SELECT o.id, o.customer_id, c.email AS customer_email, c.name AS customer_name, o.status, o.attempts,
+            o.next_attempt_at, o.last_error, o.payload, o.created_at, o.updated_at
+     FROM ghl_outbox o
+     LEFT JOIN customers c ON c.id = o.customer_id`,
+    filters,
+    "o.updated_at DESC",
+    page
+  );
+  for (const row of result.data) {
+    try {
+      row.payload = JSON.parse(String(row.payload));
+    } catch {
+      // leave the raw string
+    }
+  }
+  return result;
+}
+
+export async function listThrottles(
+  db: D1Database,
+  f: { route?: string | null; rule?: string | null; ip?: string | null },
+  page: Page
+): Promise<PageResult<Record<string, unknown>>> {
+  const filters: Filter[] = [];
+  if (f.route) filters.push({ sql: "route = ?", values: [f.route] });
+  if (f.rule) filters.push({ sql: "rule = ?", values: [f.rule] });
+  if (f.ip) filters.push({ sql: "ip = ?", values: [f.ip.trim()] });
+
+  return listRows(
+    db,
+    `SELECT id, route, rule, ip, identifier, count, limit_count, window_seconds, created_at
+     FROM rate_limit_events`,
+    filters,
+    "created_at DESC",
+    page
+  );
+}
+
+export async function getAdminOverview(db: D1Database): Promise<{
+  activeSubscriptions: number;
+  cancelingSubscriptions: number;
+  checkoutsLast7Days: number;
+  failedGhlSyncs: number;
+  pendingGhlRetries: number;
+  failedEvents: number;
+  lastEventAt: string | null;
+}> {
+  const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+  const [subs, checkouts, outbox, events] = await db.batch<Record<string, unknown>>([
+    db.prepare(
+      `SELECT COUNT(*) AS active, COALESCE(SUM(cancel_at_period_end), 0) AS canceling
+       FROM subscriptions WHERE status = 'active'`
+    ),
+    db.prepare("SELECT COUNT(*) AS n FROM purchases WHERE created_at >= ?1").bind(since),
+    db.prepare(
+      `SELECT COALESCE(SUM(status = 'dead'), 0) AS dead, COALESCE(SUM(status = 'pending'), 0) AS pending
+       FROM ghl_outbox`
+    ),
+    db.prepare(
+      `SELECT COALESCE(SUM(status = 'failed'), 0) AS failed, MAX(received_at) AS last_at FROM stripe_events`
+    ),
+  ]);
+
+  return {
+    activeSubscriptions: Number(subs.results[0]?.active ?? 0),
+    cancelingSubscriptions: Number(subs.results[0]?.canceling ?? 0),
+    checkoutsLast7Days: Number(checkouts.results[0]?.n ?? 0),
+    failedGhlSyncs: Number(outbox.results[0]?.dead ?? 0),
+    pendingGhlRetries: Number(outbox.results[0]?.pending ?? 0),
+    failedEvents: Number(events.results[0]?.failed ?? 0),
+    lastEventAt: (events.results[0]?.last_at as string | null) ?? null,
+  };
+}
+
+// =====================================================
+// Helpers
+// =====================================================
+export function parsePage(params: URLSearchParams): Page {
+  const limitNum = Number(params.get("limit"));
+  const offsetNum = Number(params.get("offset"));
+  const limit = Number.isInteger(limitNum) && limitNum > 0 ? Math.min(limitNum, MAX_PAGE_SIZE) : DEFAULT_PAGE_SIZE;
+  const offset = Number.isInteger(offsetNum) && offsetNum > 0 ? offsetNum : 0;
+  return { limit, offset };
+}
+
+async function listRows(
+  db: D1Database,
+  select: string,
+  filters: Filter[],
+  orderBy: string,
+  page: Page
+): Promise<PageResult<Record<string, unknown>>> {
+  const where = filters.length ? ` WHERE ${filters.map((f) => f.sql).join(" AND ")}` : "";
+  const values = filters.flatMap((f) => f.values);
+
+  // Fetch one extra row to know whether there is a next page.
+  const { results } = await db
+    .prepare(`${select}${where} ORDER BY ${orderBy} LIMIT ? OFFSET ?`)
+    .bind(...values, page.limit + 1, page.offset)
+    .all<Record<string, unknown>>();
+
+  const hasMore = results.length > page.limit;
+  return {
+    data: results.slice(0, page.limit),
+    page: { limit: page.limit, offset: page.offset, nextOffset: hasMore ? page.offset + page.limit : null },
+  };
+}
+
+function parseJsonArray(v: unknown): unknown[] {
+  try {
+    const parsed = JSON.parse(String(v ?? "[]"));
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function adminJson(obj: unknown, status: number): Response {
+  return new Response(JSON.stringify(obj), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,252 @@
+// src/cart.ts
+// =====================================================
+// Multi-line-item carts for checkout sessions
+//
+// Request body (validated by src/requests.ts):
+//   items: [{ partNumber, quantity?, addOns?: [partNumber, ...] }, ...]
+//   (legacy: a single top-level partNumber is treated as a 1-item cart)
+//
+// Every entry and add-on is priced from the catalog and becomes its own
+// Stripe line item. Each line is also written into session metadata
+// (lineCount + line_<i>) so checkout.session.completed can record exactly
+// what was bought in D1 (checkout_line_items).
+//
+// Catalog names / descriptions have {brand} filled in from BRAND_NAME, and
+// every item must be priced in the environment's CURRENCY (src/config.ts).
+// =====================================================
+
+import { CatalogItem, CatalogKind, billingCadence, getCatalogItems } from "./catalog";
+import { AppConfig, applyBrand } from "./config";
+import type { CartItemInput } from "./requests";
+import type { FieldError } from "./schema";
+import type { StripeParams } from "./stripe";
+
+// Stripe allows at most 20 line items on a subscription Checkout Session.
+const MAX_CART_LINES = 20;
+
+export interface CartLine {
+  item: CatalogItem;
+  quantity: number;
+  addOnTo: string; // parent partNumber, "" for top-level entries
+}
+
+export interface Cart {
+  lines: CartLine[];
+  totalCents: number;
+  currency: string;
+  interval: CatalogItem["interval"];
+  intervalCount: number;
+}
+
+export type CartResult = { ok: true; cart: Cart } | { ok: false; errors: FieldError[] };
+
+// `field` is the request path the line came from, for error reporting.
+type RequestedLine = { partNumber: string; quantity: number; addOnTo: string; field: string };
+
+// `body` has already been shape-checked (src/requests.ts); this prices it against the catalog.
+export async function buildCart(
+  db: D1Database,
+  config: AppConfig,
+  body: { items?: CartItemInput[]; partNumber?: string },
+  kind: CatalogKind
+): Promise<CartResult> {
+  const requested: RequestedLine[] = [];
+  if (body.items?.length) {
+    body.items.forEach((raw, i) => {
+      const quantity = raw.quantity ?? 1;
+      requested.push({ partNumber: raw.partNumber, quantity, addOnTo: "", field: `items[${i}].partNumber` });
+      // Add-ons ride along with their parent service, so they share its quantity.
+      (raw.addOns || []).forEach((addOn, j) =>
+        requested.push({ partNumber: addOn, quantity, addOnTo: raw.partNumber, field: `items[${i}].addOns[${j}]` })
+      );
+    });
+  } else if (body.partNumber) {
+    requested.push({ partNumber: body.partNumber, quantity: 1, addOnTo: "", field: "partNumber" });
+  } else {
+    return { ok: false, errors: [{ field: "items", code: "required", message: "is required" }] };
+  }
+
+  if (requested.length > MAX_CART_LINES) {
+    return {
+      ok: false,
+      errors: [{ field: "items", code: "too_many_items", message: `must have at most ${MAX_CART_LINES} lines including add-ons` }],
+    };
+  }
+
+  const catalog = await getCatalogItems(
+    db,
+    requested.map((r) => r.partNumber)
+  );
+
+  const errors: FieldError[] = [];
+  const lines: CartLine[] = [];
+  for (const r of requested) {
+    const item = catalog.get(r.partNumber);
+    if (!item) {
+      errors.push({ field: r.field, code: "unknown_part_number", message: `unknown partNumber: ${r.partNumber}` });
+      continue;
+    }
+    if (item.kind !== kind) {
+      const expected = kind === "subscription" ? "a subscription plan" : "a one-time service";
+      errors.push({ field: r.field, code: "wrong_kind", message: `${r.partNumber} is not ${expected}` });
+      continue;
+    }
+    if (item.currency !== config.currency) {
+      errors.push({
+        field: r.field,
+        code: "currency_mismatch",
+        message: `${r.partNumber} is not priced in ${config.currency.toUpperCase()}`,
+      });
+      continue;
+    }
+    const branded = { ...item, name: applyBrand(item.name, config), description: applyBrand(item.description, config) };
+    lines.push({ item: branded, quantity: r.quantity, addOnTo: r.addOnTo });
+  }
+  if (errors.length) return { ok: false, errors };
+
+  // Stripe needs one billing interval per subscription (and one currency, checked above).
+  const { currency, interval, intervalCount } = lines[0].item;
+  const sameCadence = (l: CartLine) => l.item.interval === interval && l.item.intervalCount === intervalCount;
+  if (kind === "subscription" && !lines.every(sameCadence)) {
+    return {
+      ok: false,
+      errors: [{ field: "items", code: "interval_mismatch", message: "must all share the same billing interval" }],
+    };
+  }
+
+  const totalCents = lines.reduce((sum, l) => sum + l.item.amountCents * l.quantity, 0);
+  return { ok: true, cart: { lines, totalCents, currency, interval, intervalCount } };
+}
+
+// Checkout Session line_items (form-encoded by src/stripe.ts)
+export function cartLineItems(cart: Cart, recurring: boolean): StripeParams[] {
+  return cart.lines.map((l) => ({
+    quantity: l.quantity,
+    price_data: {
+      currency: l.item.currency,
+      unit_amount: l.item.amountCents,
+      recurring: recurring
+        ? { interval: l.item.interval || "month", interval_count: l.item.intervalCount > 1 ? l.item.intervalCount : undefined }
+        : undefined,
+      product_data: {
+        name: l.item.name,
+        description: l.item.description || undefined,
+        metadata: { partNumber: l.item.partNumber, addOnTo: l.addOnTo || undefined },
+      },
+    },
+  }));
+}
+
+// Per-line metadata (flat keys; Stripe metadata values are limited to 500 chars each).
+export function cartMetadata(cart: Cart): Record<string, string> {
+  const md: Record<string, string> = { lineCount: String(cart.lines.length) };
+  cart.lines.forEach((l, i) => {
+    md[`line_${i}`] = JSON.stringify({
+      partNumber: l.item.partNumber,
+      quantity: l.quantity,
+      unitAmountCents: l.item.amountCents,
+      addOnTo: l.addOnTo || undefined,
+    });
+  });
+  return md;
+}
+
+// Stripe allows one trial per subscription: the longest among the lines wins.
+export function cartTrialDays(cart: Cart): number {
+  return Math.max(0, ...cart.lines.map((l) => l.item.trialPeriodDays));
+}
+
+// Top-level part numbers, used for the legacy partNumber metadata / GHL field.
+// Capped like the summary; the full list is in the line_<i> metadata.
+export function cartPartNumbers(cart: Cart): string {
+  return cart.lines
+    .filter((l) => !l.addOnTo)
+    .map((l) => l.item.partNumber)
+    .join(", ")
+    .slice(0, 500);
+}
+
+export function cartSummary(cart: Cart): string {
+  return cart.lines
+    .map((l) => `${l.addOnTo ? "+ " : ""}${l.item.name}${l.quantity > 1 ? ` x${l.quantity}` : ""}`)
+    .join(", ")
+    .slice(0, 500);
+}
+
+// =====================================================
+// Webhook side: read the lines back out of session metadata
+// =====================================================
+export interface PurchasedLine {
+  partNumber: string;
+  quantity: number;
+  unitAmountCents: number;
+  addOnTo: string;
+}
+
+export function parseCartMetadata(md: Record<string, string> | null | undefined): PurchasedLine[] {
+  const count = Number(md?.lineCount ?? 0);
+  if (!Number.isInteger(count) || count <= 0) return [];
+
+  const out: PurchasedLine[] = [];
+  for (let i = 0; i < count; i++) {
+    let j: any;
+    try {
+      j = JSON.parse(String(md?.[`line_${i}`] ?? ""));
+    } catch {
+      continue;
+    }
+    const partNumber = String(j?.partNumber ?? "").trim();
+    if (!partNumber) continue;
+    out.push({
+      partNumber,
+      quantity: Number(j?.quantity) || 1,
+      unitAmountCents: Number(j?.unitAmountCents) || 0,
+      addOnTo: String(j?.addOnTo ?? ""),
+    });
+  }
+  return out;
+}
+
+export interface SubscriptionCadence {
+  amount: string; // dollars per billing period, "" for one-time purchases
+  interval: string;
+  intervalCount: number;
+  cadence: string; // "monthly", "quarterly", ... (src/catalog.ts billingCadence)
+  monthlyAmount: string; // legacy: set for monthly plans only
+}
+
+// Sessions created before amount / interval were written only carry monthlyAmount.
+export function parseCadenceMetadata(md: Record<string, string> | null | undefined): SubscriptionCadence {
+  const amount = String(md?.amount || md?.monthlyAmount || "");
+  const interval = String(md?.interval || (md?.monthlyAmount ? "month" : ""));
+  const intervalCount = Number(md?.intervalCount) || 1;
+  const monthly = interval === "month" && intervalCount === 1;
+  return {
+    amount,
+    interval,
+    intervalCount,
+    cadence: billingCadence(interval, intervalCount),
+    monthlyAmount: monthly ? amount : "",
+  };
+}
+
+export async function recordCheckoutLines(
+  db: D1Database,
+  sessionId: string,
+  purchaseType: string,
+  lines: PurchasedLine[]
+): Promise<void> {
+  if (!lines.length) return;
+
+  const now = new Date().toISOString();
+  const stmt = db.prepare(
+    `INSERT OR IGNORE INTO checkout_line_items
+       (session_id, line_index, purchase_type, part_number, quantity, unit_amount_cents, add_on_to, created_at)
+     VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8)`
+  );
+  await db.batch(
+    lines.map((l, i) =>
+      stmt.bind(sessionId, i, purchaseType, l.partNumber, l.quantity, l.unitAmountCents, l.addOnTo || null, now)
+    )
+  );
+}
@@ -0,0 +1,126 @@
+// src/catalog.ts
+// =====================================================
+// Service price catalog (D1: catalog_items)
+//
+// The selector tool only sends a partNumber; the price, interval, trial and
+// description always come from here so the browser can't pick its own amount.
+// =====================================================
+
+import type { FieldError } from "./schema";
+
+export type CatalogKind = "subscription" | "one_time";
+
+export const BILLING_INTERVALS = ["day", "week", "month", "year"] as const;
+export type BillingInterval = (typeof BILLING_INTERVALS)[number];
+
+export interface CatalogItem {
+  partNumber: string;
+  kind: CatalogKind;
+  name: string;
+  description: string;
+  amountCents: number;
+  currency: string;
+  interval: BillingInterval | null;
+  // Bills every `intervalCount` intervals: quarterly = month x 3.
+  intervalCount: number;
+  // Free trial days for subscriptions (0 = none).
+  trialPeriodDays: number;
+}
+
+type CatalogRow = {
+  part_number: string;
+  kind: CatalogKind;
+  name: string;
+  description: string;
+  amount_cents: number;
+  currency: string;
+  interval: CatalogItem["interval"];
+  interval_count: number;
+  trial_period_days: number | null;
+};
+
+const CATALOG_COLUMNS =
+  "part_number, kind, name, description, amount_cents, currency, interval, interval_count, trial_period_days";
+
+export async function getCatalogItem(db: D1Database, partNumber: string): Promise<CatalogItem | null> {
+  const row = await db
+    .prepare(`SELECT ${CATALOG_COLUMNS} FROM catalog_items WHERE part_number = ?1 AND active = 1`)
+    .bind(partNumber)
+    .first<CatalogRow>();
+  return row ? rowToItem(row) : null;
+}
+
+// Batch lookup; unknown or inactive part numbers are simply absent from the map.
+export async function getCatalogItems(db: D1Database, partNumbers: string[]): Promise<Map<string, CatalogItem>> {
+  const out = new Map<string, CatalogItem>();
+  const unique = [...new Set(partNumbers)];
+  if (!unique.length) return out;
+
+  const placeholders = unique.map((_, i) => `?${i + 1}`).join(", ");
+  const { results } = await db
+    .prepare(`SELECT ${CATALOG_COLUMNS} FROM catalog_items WHERE active = 1 AND part_number IN (${placeholders})`)
+    .bind(...unique)
+    .all<CatalogRow>();
+
+  for (const row of results) out.set(row.part_number, rowToItem(row));
+  return out;
+}
+
+function rowToItem(row: CatalogRow): CatalogItem {
+  return {
+    partNumber: row.part_number,
+    kind: row.kind,
+    name: row.name,
+    description: row.description,
+    amountCents: Number(row.amount_cents),
+    currency: row.currency,
+    interval: row.interval,
+    intervalCount: Number(row.interval_count) || 1,
+    trialPeriodDays: Number(row.trial_period_days) || 0,
+  };
+}
+
+// Optional client-sent amount (dollars) must match the server-side price exactly.
+// Returns a field error, or null when the amount is absent or matches.
+export function checkClientAmount(field: string, value: number | undefined, expectedCents: number): FieldError | null {
+  if (value === undefined) return null;
+  if (Math.round(value * 100) !== expectedCents) {
+    return {
+      field,
+      code: "amount_mismatch",
+      message: `does not match the current price (${(expectedCents / 100).toFixed(2)})`,
+    };
+  }
+  return null;
+}
+
+// Optional client-sent cadence must match the cart's; a missing intervalCount means 1.
+export function checkClientInterval(
+  interval: BillingInterval | undefined,
+  intervalCount: number | undefined,
+  expected: { interval: BillingInterval; intervalCount: number }
+): FieldError | null {
+  if (interval === undefined && intervalCount === undefined) return null;
+  const sentInterval = interval ?? expected.interval;
+  const sentCount = intervalCount ?? (interval === undefined ? expected.intervalCount : 1);
+  if (sentInterval === expected.interval && sentCount === expected.intervalCount) return null;
+  return {
+    field: sentInterval !== expected.interval ? "interval" : "intervalCount",
+    code: "interval_mismatch",
+    message: `does not match the plan's billing interval (${billingCadence(expected.interval, expected.intervalCount)})`,
+  };
+}
+
+// Human cadence for GHL / the success page: "monthly", "quarterly", "every 2 weeks".
+export function billingCadence(interval: string, intervalCount: number): string {
+  const count = intervalCount > 0 ? intervalCount : 1;
+  const named: Record<string, string> = {
+    "day/1": "daily",
+    "week/1": "weekly",
+    "month/1": "monthly",
+    "month/3": "quarterly",
+    "month/6": "semiannually",
+    "year/1": "annually",
+  };
+  return named[`${interval}/${count}`] || (interval ? `every ${count} ${interval}s` : "");
+}
@@ -0,0 +1,201 @@
+// src/config.ts
+// =====================================================
+// Per-environment settings (staging site, second brand) for values the
+// handlers used to hardcode
+//
+//   BRAND_NAME             shown to customers: Stripe product names ({brand}
+//                          in catalog_items.name / description), verification
+//                          code messages (default "R4 Home Service")
+//   CURRENCY               the only currency checkout accepts (default usd)
+//   CHECKOUT_SUCCESS_URL   Stripe Checkout success_url / cancel_url
+//   CHECKOUT_CANCEL_URL
+//   PORTAL_RETURN_URL      Billing Portal return_url
+//   RETURN_URLS            pre-approved pages a request may return to by key,
+//                          comma-separated "<key>=<url>", e.g.
+//                          "plans=https://r4homeservice.com/plans,book=https://book.r4homeservice.com/thanks"
+//   PROMO_CODES            allowlist for the subscription checkout's promoCode,
+//                          comma-separated "<CODE>=<Stripe promotion code or coupon id>":
+//                          "FIRSTMONTH=promo_1Q2w3E,REFER20=referral-20" (promo_* ids are
+//                          promotion codes, anything else a coupon)
+//   ALLOW_PROMOTION_CODES  "true": Stripe's page takes codes itself when no
+//                          promoCode was sent (Stripe allows one or the other)
+//
+// Each value comes from, in order: a row in the D1 `settings` table with the
+// same key, the env var, the default below. Browsers never send a URL: they
+// send successUrlKey / cancelUrlKey / returnUrlKey, resolved by returnUrl().
+// URLs must be https (http only for localhost); bad values are logged and
+// skipped.
+// =====================================================
+
+import type { Env } from "./index";
+import type { Logger } from "./log";
+import type { FieldError } from "./schema";
+
+export interface AppConfig {
+  brandName: string;
+  currency: string;
+  checkoutSuccessUrl: string;
+  checkoutCancelUrl: string;
+  portalReturnUrl: string;
+  returnUrls: Record<string, string>;
+  promoCodes: Record<string, PromoDiscount>;
+  allowPromotionCodes: boolean;
+}
+
+// What an allowlisted code applies: one Checkout Session `discounts` entry.
+export type PromoDiscount = { promotion_code: string } | { coupon: string };
+
+// Env var names, also the `key` column of the settings table.
+const CONFIG_KEYS = [
+  "BRAND_NAME",
+  "CURRENCY",
+  "CHECKOUT_SUCCESS_URL",
+  "CHECKOUT_CANCEL_URL",
+  "PORTAL_RETURN_URL",
+  "RETURN_URLS",
+  "PROMO_CODES",
+  "ALLOW_PROMOTION_CODES",
+] as const;
+
+export type ConfigKey = (typeof CONFIG_KEYS)[number];
+
+export const DEFAULT_CONFIG: AppConfig = {
+  brandName: "R4 Home Service",
+  currency: "usd",
+  checkoutSuccessUrl: "https://r4homeservice.com/stripe-success?session_id={CHECKOUT_SESSION_ID}",
+  checkoutCancelUrl: "https://r4homeservice.com/stripe-cancel",
+  portalReturnUrl: "https://r4homeservice.com/manage",
+  returnUrls: {},
+  promoCodes: {},
+  allowPromotionCodes: false,
+};
+
+// Stripe fills this in; the success page needs it for /api/get-checkout-contact.
+const SESSION_ID_PLACEHOLDER = "{CHECKOUT_SESSION_ID}";
+
+export const RETURN_URL_KEY = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+export const PROMO_CODE = /^[A-Z0-9][A-Z0-9_-]{0,31}$/;
+
+export async function loadConfig(env: Env, log: Logger): Promise<AppConfig> {
+  const settings = await readSettings(env.DB, log);
+  const raw = (key: ConfigKey): string => String(settings[key] ?? env[key] ?? "").trim();
+  return parseConfig(raw, log);
+}
+
+export function parseConfig(raw: (key: ConfigKey) => string, log: Logger): AppConfig {
+  const url = (key: ConfigKey, fallback: string): string => {
+    const v = raw(key);
+    if (!v) return fallback;
+    if (isAllowedUrl(v)) return v;
+    log.warn("Ignoring invalid URL setting", { key, value: v });
+    return fallback;
+  };
+
+  const currency = raw("CURRENCY").toLowerCase();
+  if (currency && !/^[a-z]{3}$/.test(currency)) log.warn("Ignoring invalid CURRENCY setting", { value: currency });
+
+  return {
+    brandName: raw("BRAND_NAME") || DEFAULT_CONFIG.brandName,
+    currency: /^[a-z]{3}$/.test(currency) ? currency : DEFAULT_CONFIG.currency,
+    checkoutSuccessUrl: withSessionId(url("CHECKOUT_SUCCESS_URL", DEFAULT_CONFIG.checkoutSuccessUrl)),
+    checkoutCancelUrl: url("CHECKOUT_CANCEL_URL", DEFAULT_CONFIG.checkoutCancelUrl),
+    portalReturnUrl: url("PORTAL_RETURN_URL", DEFAULT_CONFIG.portalReturnUrl),
+    returnUrls: parseReturnUrls(raw("RETURN_URLS"), log),
+    promoCodes: parsePromoCodes(raw("PROMO_CODES"), log),
+    allowPromotionCodes: raw("ALLOW_PROMOTION_CODES").toLowerCase() === "true",
+  };
+}
+
+export function parseReturnUrls(v: string, log: Logger): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const part of v.split(",")) {
+    const entry = part.trim();
+    if (!entry) continue;
+    const eq = entry.indexOf("=");
+    const key = entry.slice(0, eq).trim().toLowerCase();
+    const url = entry.slice(eq + 1).trim();
+    if (eq < 0 || !RETURN_URL_KEY.test(key) || !isAllowedUrl(url)) {
+      log.warn("Ignoring malformed RETURN_URLS entry", { entry });
+      continue;
+    }
+    out[key] = url;
+  }
+  return out;
+}
+
+export function parsePromoCodes(v: string, log: Logger): Record<string, PromoDiscount> {
+  const out: Record<string, PromoDiscount> = {};
+  for (const part of v.split(",")) {
+    const entry = part.trim();
+    if (!entry) continue;
+    const m = entry.match(/^([^=]+)=\s*([A-Za-z0-9_-]{1,200})$/);
+    const code = m?.[1].trim().toUpperCase() ?? "";
+    if (!m || !PROMO_CODE.test(code)) {
+      log.warn("Ignoring malformed PROMO_CODES entry", { entry });
+      continue;
+    }
+    out[code] = m[2].startsWith("promo_") ? { promotion_code: m[2] } : { coupon: m[2] };
+  }
+  return out;
+}
+
+// The allowlisted discount for a customer-typed code (case-insensitive), or null.
+export function promoDiscount(config: AppConfig, code: string): PromoDiscount | null {
+  const k = code.trim().toUpperCase();
+  return Object.hasOwn(config.promoCodes, k) ? config.promoCodes[k] : null;
+}
+
+// The Stripe id behind a discount, for metadata.
+export function discountId(discount: PromoDiscount): string {
+  return "promotion_code" in discount ? discount.promotion_code : discount.coupon;
+}
+
+// A pre-approved URL for `key`, or `fallback` when no key was sent.
+export function returnUrl(
+  config: AppConfig,
+  field: string,
+  key: string | undefined,
+  fallback: string
+): { ok: true; url: string } | { ok: false; error: FieldError } {
+  if (!key) return { ok: true, url: fallback };
+  // Own keys only: "constructor" & co. must not resolve to Object.prototype.
+  const k = key.toLowerCase();
+  if (Object.hasOwn(config.returnUrls, k)) return { ok: true, url: config.returnUrls[k] };
+  return { ok: false, error: { field, code: "unknown_return_url", message: `unknown return URL key: ${key}` } };
+}
+
+// Success URLs always carry session_id={CHECKOUT_SESSION_ID}.
+export function withSessionId(url: string): string {
+  if (url.includes(SESSION_ID_PLACEHOLDER)) return url;
+  return `${url}${url.includes("?") ? "&" : "?"}session_id=${SESSION_ID_PLACEHOLDER}`;
+}
+
+// Catalog text may say "{brand}" instead of a brand name.
+export function applyBrand(text: string, config: AppConfig): string {
+  return text.split("{brand}").join(config.brandName);
+}
+
+function isAllowedUrl(v: string): boolean {
+  let u: URL;
+  try {
+    u = new URL(v);
+  } catch {
+    return false;
+  }
+  if (u.username || u.password) return false;
+  return u.protocol === "https:" || (u.protocol === "http:" && ["localhost", "127.0.0.1"].includes(u.hostname));
+}
+
+// Missing table (migration not applied yet) or D1 trouble: fall back to env vars.
+async function readSettings(db: D1Database, log: Logger): Promise<Partial<Record<ConfigKey, string>>> {
+  try {
+    const { results } = await db
+      .prepare(`SELECT key, value FROM settings WHERE key IN (${CONFIG_KEYS.map((_, i) => `?${i + 1}`).join(", ")})`)
+      .bind(...CONFIG_KEYS)
+      .all<{ key: ConfigKey; value: string }>();
+    return Object.fromEntries(results.map((r) => [r.key, r.value]));
+  } catch (err) {
+    log.warn("Settings unavailable, using env vars", { error: err });
+    return {};
+  }
+}
@@ -0,0 +1,161 @@
+// src/consent.ts
+// =====================================================
+// SMS consent log (D1: sms_consent_log, append-only)
+//
+// One row per opt-in (checkout with smsOptIn) or opt-out (STOP /
+// unsubscribe). Nothing is ever updated; a phone's current consent is its
+// latest row. History per phone is exportable from the admin API as JSON
+// or CSV for consent disputes.
+//
+// Checkout opt-ins wait in sms_consent_pending until the session completes,
+// so abandoned checkouts never enter the log.
+// =====================================================
+
+export type ConsentAction = "opt_in" | "opt_out";
+
+export interface ConsentEntry {
+  phone: string; // E.164
+  action: ConsentAction;
+  consentVersion?: string | null;
+  source?: string | null;
+  ip?: string | null;
+  userAgent?: string | null;
+  email?: string | null;
+  checkoutSessionId?: string | null;
+}
+
+export interface ConsentRow {
+  id: number;
+  phone: string;
+  channel: string;
+  action: ConsentAction;
+  consent_version: string | null;
+  source: string | null;
+  ip: string | null;
+  user_agent: string | null;
+  email: string | null;
+  checkout_session_id: string | null;
+  created_at: string;
+}
+
+const MAX_HISTORY_ROWS = 1000;
+
+// Checkout Sessions expire after 24h at most; pending opt-ins outlive that by a day.
+const PENDING_RETENTION_SECONDS = 2 * 24 * 60 * 60;
+
+// Who / where a web request came from, for the log.
+export function requestContext(request: Request): { ip: string | null; userAgent: string | null; referer: string | null } {
+  return {
+    ip: request.headers.get("CF-Connecting-IP"),
+    userAgent: (request.headers.get("User-Agent") || "").slice(0, 500) || null,
+    referer: (request.headers.get("Referer") || "").slice(0, 500) || null,
+  };
+}
+
+export async function recordConsent(db: D1Database, e: ConsentEntry): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO sms_consent_log
+         (phone, channel, action, consent_version, source, ip, user_agent, email, checkout_session_id, created_at)
+       VALUES (?1, 'sms', ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9)`
+    )
+    .bind(
+      e.phone,
+      e.action,
+      e.consentVersion || null,
+      e.source || null,
+      e.ip || null,
+      e.userAgent || null,
+      e.email || null,
+      e.checkoutSessionId || null,
+      new Date().toISOString()
+    )
+    .run();
+}
+
+// An opt-in given on a Checkout Session that hasn't completed yet.
+export async function recordPendingConsent(
+  db: D1Database,
+  e: Omit<ConsentEntry, "action"> & { checkoutSessionId: string }
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT OR IGNORE INTO sms_consent_pending
+         (checkout_session_id, phone, consent_version, source, ip, user_agent, email, created_at)
+       VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8)`
+    )
+    .bind(
+      e.checkoutSessionId,
+      e.phone,
+      e.consentVersion || null,
+      e.source || null,
+      e.ip || null,
+      e.userAgent || null,
+      e.email || null,
+      new Date().toISOString()
+    )
+    .run();
+}
+
+// Moves the session's pending opt-in into the log. false when there was none
+// (no opt-in, or a redelivered event that already confirmed it).
+export async function confirmPendingConsent(db: D1Database, checkoutSessionId: string): Promise<boolean> {
+  const [inserted] = await db.batch([
+    db
+      .prepare(
+        `INSERT INTO sms_consent_log
+           (phone, channel, action, consent_version, source, ip, user_agent, email, checkout_session_id, created_at)
+         SELECT phone, 'sms', 'opt_in', consent_version, source, ip, user_agent, email, checkout_session_id, created_at
+         FROM sms_consent_pending WHERE checkout_session_id = ?1`
+      )
+      .bind(checkoutSessionId),
+    db.prepare("DELETE FROM sms_consent_pending WHERE checkout_session_id = ?1").bind(checkoutSessionId),
+  ]);
+  return (inserted.meta.changes ?? 0) > 0;
+}
+
+export async function purgePendingConsent(db: D1Database): Promise<number> {
+  const res = await db
+    .prepare("DELETE FROM sms_consent_pending WHERE created_at < ?1")
+    .bind(new Date(Date.now() - PENDING_RETENTION_SECONDS * 1000).toISOString())
+    .run();
+  return res.meta.changes ?? 0;
+}
+
+export async function getConsentHistory(db: D1Database, phone: string): Promise<ConsentRow[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT id, phone, channel, action, consent_version, source, ip, user_agent, email, checkout_session_id, created_at
+       FROM sms_consent_log WHERE phone = ?1 ORDER BY id LIMIT ?2`
+    )
+    .bind(phone, MAX_HISTORY_ROWS)
+    .all<ConsentRow>();
+  return results;
+}
+
+const CSV_COLUMNS: (keyof ConsentRow)[] = [
+  "id",
+  "created_at",
+  "phone",
+  "channel",
+  "action",
+  "consent_version",
+  "source",
+  "ip",
+  "user_agent",
+  "email",
+  "checkout_session_id",
+];
+
+export function consentHistoryCsv(rows: ConsentRow[]): string {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const row of rows) lines.push(CSV_COLUMNS.map((c) => csvCell(row[c])).join(","));
+  return lines.join("\r\n") + "\r\n";
+}
+
+function csvCell(v: unknown): string {
+  let s = String(v ?? "");
+  // Spreadsheet formula injection (user agents / sources are client-supplied); phones like +1555... stay as-is.
+  if (/^[=@\t\r]/.test(s) || /^[+-][^\d]/.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
@@ -0,0 +1,79 @@
+// src/cors.ts
+// =====================================================
+// CORS allowlist for the browser-facing /api/* routes
+//
+// CORS_ALLOWED_ORIGINS (comma-separated):
+//   https://r4homeservice.com        exact origin
+//   https://*.r4homeservice.com      any subdomain (not the apex itself)
+//   *                                any origin (local dev only)
+//
+// Requests without an Origin header (server-to-server, curl) are not
+// affected. Stripe webhooks and /admin routes never get CORS headers.
+// =====================================================
+
+const ALLOWED_METHODS = "GET, POST, OPTIONS";
+// Authorization: member session tokens (/api/member/*).
+const ALLOWED_HEADERS = "Content-Type, Authorization";
+const PREFLIGHT_MAX_AGE_SECONDS = "600";
+
+export function parseAllowedOrigins(v: string | undefined): string[] {
+  return String(v || "")
+    .split(",")
+    .map((s) => s.trim().replace(/\/+$/, "").toLowerCase())
+    .filter(Boolean);
+}
+
+export function isOriginAllowed(origin: string, allowlist: string[]): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(origin);
+  } catch {
+    return false;
+  }
+  const normalized = parsed.origin.toLowerCase();
+
+  for (const entry of allowlist) {
+    if (entry === "*" || entry === normalized) return true;
+
+    const wildcard = entry.match(/^([a-z][a-z0-9+.-]*):\/\/\*\.(.+)$/);
+    if (!wildcard) continue;
+
+    const [, scheme, rest] = wildcard;
+    // `rest` is "example.com" or "example.com:8443"; compare host + port together.
+    const hostPort = parsed.port ? `${parsed.hostname}:${parsed.port}` : parsed.hostname;
+    if (parsed.protocol === `${scheme}:` && hostPort.endsWith(`.${rest}`) && hostPort.length > rest.length + 1) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export function corsHeaders(origin: string): Record<string, string> {
+  return {
+    "Access-Control-Allow-Origin": origin,
+    "Access-Control-Allow-Methods": ALLOWED_METHODS,
+    "Access-Control-Allow-Headers": ALLOWED_HEADERS,
+    Vary: "Origin",
+  };
+}
+
+// Preflight for an allowed origin; callers reject disallowed origins first.
+export function preflightResponse(origin: string): Response {
+  return new Response(null, {
+    status: 204,
+    headers: { ...corsHeaders(origin), "Access-Control-Max-Age": PREFLIGHT_MAX_AGE_SECONDS },
+  });
+}
+
+export function withCors(res: Response, origin: string): Response {
+  const out = new Response(res.body, res);
+  for (const [k, v] of Object.entries(corsHeaders(origin))) out.headers.set(k, v);
+  return out;
+}
+
+export function originRejected(): Response {
+  return new Response(JSON.stringify({ error: "Origin not allowed" }), {
+    status: 403,
+    headers: { "Content-Type": "application/json", Vary: "Origin" },
+  });
+}
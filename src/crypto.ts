@@ -0,0 +1,40 @@
+// src/crypto.ts
+// =====================================================
+// Crypto helpers (Web Crypto; shared by webhook verification + admin auth)
+// =====================================================
+
+export async function hmacSHA256Hex(secret: string, message: string): Promise<string> {
+  const enc = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", enc.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
+    "sign",
+  ]);
+  const sigBuf = await crypto.subtle.sign("HMAC", key, enc.encode(message));
+  return bufferToHex(sigBuf);
+}
+
+export function bufferToHex(buf: ArrayBuffer): string {
+  const bytes = new Uint8Array(buf);
+  let out = "";
+  for (let i = 0; i < bytes.length; i++) out += bytes[i].toString(16).padStart(2, "0");
+  return out;
+}
+
+export function timingSafeEqualHex(a: string, b: string): boolean {
+  const aa = a.toLowerCase();
+  const bb = b.toLowerCase();
+  if (aa.length !== bb.length) return false;
+  let res = 0;
+  for (let i = 0; i < aa.length; i++) res |= aa.charCodeAt(i) ^ bb.charCodeAt(i);
+  return res === 0;
+}
+
+export async function sha256Hex(message: string): Promise<string> {
+  const buf = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(message));
+  return bufferToHex(buf);
+}
+
+// Constant-time comparison for arbitrary strings (hash both, compare digests).
+export async function timingSafeEqualString(a: string, b: string): Promise<boolean> {
+  const [ha, hb] = await Promise.all([sha256Hex(a), sha256Hex(b)]);
+  return timingSafeEqualHex(ha, hb);
+}
@@ -0,0 +1,271 @@
+// src/dashboard.ts
+// =====================================================
+// Admin HTML dashboard (glanceable view for the dispatcher)
+//
+//   GET /admin                   overview counts
+//   GET /admin/checkouts         recent checkouts (purchases)
+//   GET /admin/subscriptions     active subscriptions
+//   GET /admin/ghl-failures      GHL outbox: dead-lettered + retrying upserts
+//   GET /admin/events            webhook event history (?status=failed)
+//   GET /admin/throttles         rate-limited /api/* requests
+//   GET /admin/diagnostics       config, D1, backlog + live Stripe / GHL credential check
+//
+// Same ADMIN_API_TOKEN as the JSON API; browsers log in via HTTP Basic
+// (any username, token as password).
+// =====================================================
+
+import type { Env } from "./index";
+import {
+  checkAdminAuth,
+  getAdminOverview,
+  listEvents,
+  listGhlOutbox,
+  listPurchases,
+  listSubscriptions,
+  listThrottles,
+  parsePage,
+} from "./admin";
+import { billingCadence } from "./catalog";
+import { buildDiagnostics } from "./diagnostics";
+import type { Logger } from "./log";
+import { escapeHtml, renderHtml, renderPager, renderTable, text } from "./renderHtml";
+
+type Row = Record<string, unknown>;
+
+export async function handleAdminDashboard(request: Request, env: Env, log: Logger, url: URL): Promise<Response> {
+  const denied = await checkAdminAuth(request, env, "Basic");
+  if (denied) return denied;
+
+  if (request.method !== "GET") return new Response("Method not allowed", { status: 405 });
+
+  const path = url.pathname.replace(/\/+$/, "") || "/admin";
+  const params = url.searchParams;
+  const page = parsePage(params);
+
+  if (path === "/admin") {
+    const o = await getAdminOverview(env.DB);
+    const card = (label: string, n: number, href: string, bad = false) =>
+      `<a class="card" href="${escapeHtml(href)}"><div class="n${bad && n > 0 ? " bad" : ""}">${n}</div>${escapeHtml(label)}</a>`;
+
+    return html(
+      "Overview",
+      `<div class="cards">
+        ${card("Active subscriptions", o.activeSubscriptions, "/admin/subscriptions")}
+        ${card("Canceling at period end", o.cancelingSubscriptions, "/admin/subscriptions?cancelAtPeriodEnd=true")}
+        ${card("Checkouts (last 7 days)", o.checkoutsLast7Days, "/admin/checkouts")}
+        ${card("Failed GHL syncs", o.failedGhlSyncs, "/admin/ghl-failures", true)}
+        ${card("GHL retries pending", o.pendingGhlRetries, "/admin/ghl-failures?status=pending")}
+        ${card("Failed webhook events", o.failedEvents, "/admin/events?status=failed", true)}
+      </div>
+      <p class="muted">Last webhook received: ${text(o.lastEventAt)}</p>`,
+      "/admin"
+    );
+  }
+
+  if (path === "/admin/checkouts") {
+    const result = await listPurchases(env.DB, { type: params.get("type") }, page);
+    return html(
+      "Recent checkouts",
+      renderTable<Row>(
+        [
+          { label: "When", cell: (r) => text(r.created_at) },
+          { label: "Type", cell: (r) => text(r.purchase_type) },
+          { label: "Customer", cell: (r) => customerCell(r) },
+          { label: "Part #", cell: (r) => text(r.part_number) },
+          { label: "Services", cell: (r) => text(r.service_summary) },
+          { label: "Amount", cell: (r) => text(money(r.amount_cents, r.currency)) },
+          { label: "Payment", cell: (r) => text(r.payment_status) },
+          { label: "GHL", cell: (r) => syncCell(r.ghl_sync_status) },
+        ],
+        result.data,
+        "No checkouts yet."
+      ) + renderPager(path, params, result.page.offset, result.page.limit, result.page.nextOffset),
+      path
+    );
+  }
+
+  if (path === "/admin/subscriptions") {
+    const result = await listSubscriptions(
+      env.DB,
+      { status: params.get("status") || "active", cancelAtPeriodEnd: params.get("cancelAtPeriodEnd") },
+      page
+    );
+    return html(
+      "Active subscriptions",
+      renderTable<Row>(
+        [
+          { label: "Customer", cell: (r) => customerCell(r) },
+          { label: "Status", cell: (r) => text(r.status) },
+          { label: "Part #", cell: (r) => text(r.part_number) },
+          { label: "Services", cell: (r) => text(r.service_summary) },
+          { label: "Amount", cell: (r) => text(money(r.amount_cents)) },
+          { label: "Billed", cell: (r) => text(billingCadence(String(r.interval ?? ""), Number(r.interval_count) || 1)) },
+          { label: "Period end", cell: (r) => text(r.current_period_end) },
+          {
+            label: "Cancels at period end",
+            cell: (r) => (r.cancel_at_period_end ? '<span class="bad">yes</span>' : "no"),
+          },
+        ],
+        result.data,
+        "No matching subscriptions."
+      ) + renderPager(path, params, result.page.offset, result.page.limit, result.page.nextOffset),
+      path
+    );
+  }
+
+  if (path === "/admin/ghl-failures") {
+    const status = params.get("status") === "pending" ? "pending" : "dead";
+    const result = await listGhlOutbox(env.DB, { status }, page);
+    return html(
+      "Failed GHL syncs",
+      `<p class="muted">Showing ${status === "dead" ? "dead-lettered" : "retrying"} upserts ·
+        <a href="/admin/ghl-failures?status=${status === "dead" ? "pending" : "dead"}">show ${status === "dead" ? "retrying" : "dead-lettered"}</a>.
+        Replay one with <code>POST /admin/api/ghl-outbox/&lt;id&gt;/replay</code>.</p>` +
+        renderTable<Row>(
+          [
+            { label: "Outbox #", cell: (r) => text(r.id) },
+            { label: "Customer", cell: (r) => customerCell(r) },
+            { label: "Attempts", cell: (r) => text(r.attempts) },
+            { label: "Next attempt", cell: (r) => (status === "pending" ? text(r.next_attempt_at) : text("")) },
+            { label: "Last error", cell: (r) => text(r.last_error) },
+            { label: "Queued", cell: (r) => text(r.created_at) },
+          ],
+          result.data,
+          status === "dead" ? "No failed GHL syncs." : "No GHL retries pending."
+        ) +
+        renderPager(path, params, result.page.offset, result.page.limit, result.page.nextOffset),
+      path
+    );
+  }
+
+  if (path === "/admin/events") {
+    const result = await listEvents(env.DB, { status: params.get("status"), type: params.get("type") }, page);
+    return html(
+      "Webhook events",
+      renderTable<Row>(
+        [
+          { label: "Received", cell: (r) => text(r.received_at) },
+          { label: "Type", cell: (r) => text(r.type) },
+          { label: "Event id", cell: (r) => text(r.id) },
+          {
+            label: "Status",
+            cell: (r) =>
+              `<span class="${r.status === "failed" ? "bad" : r.status === "processed" ? "ok" : ""}">${text(r.status)}</span>`,
+          },
+          { label: "Attempts", cell: (r) => text(r.attempts) },
+          { label: "Error", cell: (r) => text(r.error) },
+          {
+            label: "Actions",
+            cell: (r) => (r.actions as unknown[]).map((a) => escapeHtml(a)).join("<br>") || text(""),
+          },
+        ],
+        result.data,
+        "No webhook events recorded."
+      ) + renderPager(path, params, result.page.offset, result.page.limit, result.page.nextOffset),
+      path
+    );
+  }
+
+  if (path === "/admin/throttles") {
+    const result = await listThrottles(
+      env.DB,
+      { route: params.get("route"), rule: params.get("rule"), ip: params.get("ip") },
+      page
+    );
+    return html(
+      "Throttled requests",
+      renderTable<Row>(
+        [
+          { label: "When", cell: (r) => text(r.created_at) },
+          { label: "Route", cell: (r) => text(r.route) },
+          { label: "Rule", cell: (r) => text(r.rule) },
+          { label: "IP", cell: (r) => text(r.ip) },
+          { label: "Email / phone", cell: (r) => text(r.identifier) },
+          { label: "Requests", cell: (r) => text(`${r.count} / ${r.limit_count} per ${r.window_seconds}s`) },
+        ],
+        result.data,
+        "No throttled requests."
+      ) + renderPager(path, params, result.page.offset, result.page.limit, result.page.nextOffset),
+      path
+    );
+  }
+
+  if (path === "/admin/diagnostics") {
+    const d = await buildDiagnostics(env, log, { credentials: true });
+    const schema = `${flagCell(d.schema.state === "current", "current", d.schema.state)}
+      <span class="muted">${escapeHtml(d.schema.applied ?? "none")} (expects ${escapeHtml(d.schema.expected)})</span>`;
+    const pending = d.ghlOutbox.oldestPendingAt
+      ? `${text(d.ghlOutbox.pending)} <span class="muted">oldest ${escapeHtml(d.ghlOutbox.oldestPendingAt)}</span>`
+      : text(d.ghlOutbox.pending);
+
+    const rows: [string, string][] = [
+      ["D1", checkCell(d.d1)],
+      ["Schema", schema],
+      ["Stripe credentials", checkCell(d.credentials?.stripe)],
+      ["GHL credentials", checkCell(d.credentials?.ghl)],
+      ["Last processed webhook", text(d.webhooks.lastProcessedAt)],
+      ["Failed webhook events", text(d.webhooks.failed)],
+      ["GHL retries pending", pending],
+      ["Dead-lettered GHL upserts", text(d.ghlOutbox.dead)],
+      ...Object.entries(d.secrets).map(([name, set]): [string, string] => [name, flagCell(set, "set", "not set")]),
+    ];
+
+    return html(
+      "Diagnostics",
+      `<p>Status: ${flagCell(d.status === "ok", "ok", d.status)} <span class="muted">checked ${escapeHtml(d.checkedAt)}</span></p>` +
+        (d.problems.length ? `<ul>${d.problems.map((p) => `<li class="bad">${escapeHtml(p)}</li>`).join("")}</ul>` : "") +
+        renderTable<[string, string]>(
+          [
+            { label: "Check", cell: (r) => escapeHtml(r[0]) },
+            { label: "Result", cell: (r) => r[1] },
+          ],
+          rows
+        ),
+      path
+    );
+  }
+
+  return new Response("Not found", { status: 404 });
+}
+
+function html(title: string, body: string, activePath: string): Response {
+  return new Response(renderHtml(title, body, activePath), {
+    status: 200,
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Cache-Control": "no-store",
+      "X-Frame-Options": "DENY",
+      "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'; form-action 'self'",
+    },
+  });
+}
+
+function customerCell(r: Row): string {
+  const primary = r.customer_name || r.customer_email || r.customer_id;
+  const secondary = r.customer_name ? r.customer_email : "";
+  return `${text(primary)}${secondary ? `<br><span class="muted">${escapeHtml(secondary)}</span>` : ""}`;
+}
+
+function syncCell(status: unknown): string {
+  if (status === "failed") return '<span class="bad">failed</span>';
+  if (status === "ok") return '<span class="ok">ok</span>';
+  return text(status);
+}
+
+function flagCell(good: boolean, yes: string, no: string): string {
+  return good ? `<span class="ok">${escapeHtml(yes)}</span>` : `<span class="bad">${escapeHtml(no)}</span>`;
+}
+
+// D1 / credential check: ok or failed + latency; null = not configured.
+function checkCell(c: { ok: boolean; latencyMs: number; error?: string } | null | undefined): string {
+  if (!c) return text("not configured");
+  const error = c.error ? `<br>${escapeHtml(c.error)}` : "";
+  return `${flagCell(c.ok, "ok", "failed")} <span class="muted">${c.latencyMs} ms</span>${error}`;
+}
+
+function money(cents: unknown, currency?: unknown): string {
+  if (cents === null || cents === undefined || cents === "") return "";
+  const amount = (Number(cents) / 100).toFixed(2);
+  const cur = String(currency || "usd").toUpperCase();
+  return cur === "USD" ? `$${amount}` : `${amount} ${cur}`;
+}
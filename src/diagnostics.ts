@@ -0,0 +1,175 @@
+// src/diagnostics.ts
+// =====================================================
+// Health / diagnostics report
+//
+//   GET /api/health              public: D1 reachability + schema version, which
+//                                secrets are set, last processed webhook, GHL
+//                                outbox backlog. 200 ok|degraded, 503 down.
+//   GET /admin/api/diagnostics   admin: the same report plus a read-only
+//   GET /admin/diagnostics       credential check against Stripe and GHL
+//
+// Secret values never appear, only whether each one is set. The credential
+// checks call Stripe / GHL, so they stay behind admin auth where nobody can
+// use them to burn our API rate limits. Raw error messages (D1 exceptions,
+// schema read failures) are admin-only too: the public report names the
+// failing check and nothing more.
+//
+//   down      D1 unreachable, schema version off, Stripe secrets missing
+//   degraded  GHL not configured, dead-lettered GHL upserts, failed webhook
+//             events, or a failed credential check
+// =====================================================
+
+import type { Env } from "./index";
+import { ghlCheckCredentials } from "./ghl";
+import type { Logger } from "./log";
+import { SchemaStatus, checkSchemaVersion } from "./schemaVersion";
+import { describeStripeError, stripeClient } from "./stripe";
+
+export type HealthStatus = "ok" | "degraded" | "down";
+
+// Reported as configured / not configured; values are never read out.
+const SECRET_NAMES = [
+  "STRIPE_SECRET_KEY",
+  "STRIPE_WEBHOOK_SECRET",
+  "GHL_PRIVATE_TOKEN",
+  "GHL_LOCATION_ID",
+  "ADMIN_API_TOKEN",
+  "VERIFICATION_WEBHOOK_TOKEN",
+] as const;
+
+export interface CredentialCheck {
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface DiagnosticsReport {
+  status: HealthStatus;
+  checkedAt: string;
+  // Human-readable reasons for a non-"ok" status.
+  problems: string[];
+  secrets: Record<(typeof SECRET_NAMES)[number], boolean>;
+  d1: { ok: boolean; latencyMs: number; error?: string };
+  schema: SchemaStatus;
+  webhooks: { lastProcessedAt: string | null; failed: number };
+  ghlOutbox: { pending: number; dead: number; oldestPendingAt: string | null };
+  // Only with { credentials: true } (admin).
+  credentials?: { stripe: CredentialCheck; ghl: CredentialCheck | null };
+}
+
+export async function buildDiagnostics(
+  env: Env,
+  log: Logger,
+  opts: { credentials: boolean }
+): Promise<DiagnosticsReport> {
+  const secrets = Object.fromEntries(
+    SECRET_NAMES.map((name) => [name, Boolean(env[name])])
+  ) as DiagnosticsReport["secrets"];
+
+  const [counts, schema, credentials] = await Promise.all([
+    readCounts(env.DB),
+    checkSchemaVersion(env.DB),
+    opts.credentials ? checkCredentials(env, log) : Promise.resolve(undefined),
+  ]);
+
+  const problems: string[] = [];
+  let down = false;
+  const fail = (problem: string) => {
+    problems.push(problem);
+    down = true;
+  };
+
+  if (!counts.d1.ok) fail("D1 unreachable");
+  if (schema.state !== "current") {
+    fail(`D1 schema ${schema.state}: expected ${schema.expected}, applied ${schema.applied ?? "none"}`);
+  }
+  if (!secrets.STRIPE_SECRET_KEY) fail("STRIPE_SECRET_KEY is not set");
+  if (!secrets.STRIPE_WEBHOOK_SECRET) fail("STRIPE_WEBHOOK_SECRET is not set");
+
+  if (!secrets.GHL_PRIVATE_TOKEN || !secrets.GHL_LOCATION_ID) {
+    problems.push("GHL not configured: contact sync is skipped");
+  }
+  if (counts.ghlOutbox.dead > 0) problems.push(`${counts.ghlOutbox.dead} dead-lettered GHL upsert(s)`);
+  if (counts.webhooks.failed > 0) problems.push(`${counts.webhooks.failed} failed webhook event(s)`);
+  if (credentials && !credentials.stripe.ok) {
+    problems.push(`Stripe credential check failed: ${credentials.stripe.error}`);
+  }
+  if (credentials?.ghl && !credentials.ghl.ok) problems.push(`GHL credential check failed: ${credentials.ghl.error}`);
+
+  return {
+    status: down ? "down" : problems.length ? "degraded" : "ok",
+    checkedAt: new Date().toISOString(),
+    problems,
+    secrets,
+    d1: counts.d1,
+    schema,
+    webhooks: counts.webhooks,
+    ghlOutbox: counts.ghlOutbox,
+    ...(credentials ? { credentials } : {}),
+  };
+}
+
+// GET /api/health: the report without error details.
+export function publicHealthReport(report: DiagnosticsReport): DiagnosticsReport {
+  const { error: _d1Error, ...d1 } = report.d1;
+  const { error: _schemaError, ...schema } = report.schema;
+  return { ...report, d1, schema };
+}
+
+// One batch: doubles as the D1 reachability check.
+async function readCounts(db: D1Database): Promise<Pick<DiagnosticsReport, "d1" | "webhooks" | "ghlOutbox">> {
+  const started = Date.now();
+  try {
+    const [events, outbox] = await db.batch<Record<string, unknown>>([
+      db.prepare(
+        `SELECT MAX(CASE WHEN status = 'processed' THEN processed_at END) AS last_processed_at,
+                COALESCE(SUM(status = 'failed'), 0) AS failed
+         FROM stripe_events`
+      ),
+      db.prepare(
+        `SELECT COALESCE(SUM(status = 'pending'), 0) AS pending,
+                COALESCE(SUM(status = 'dead'), 0) AS dead,
+                MIN(CASE WHEN status = 'pending' THEN created_at END) AS oldest_pending_at
+         FROM ghl_outbox`
+      ),
+    ]);
+    return {
+      d1: { ok: true, latencyMs: Date.now() - started },
+      webhooks: {
+        lastProcessedAt: (events.results[0]?.last_processed_at as string | null) ?? null,
+        failed: Number(events.results[0]?.failed ?? 0),
+      },
+      ghlOutbox: {
+        pending: Number(outbox.results[0]?.pending ?? 0),
+        dead: Number(outbox.results[0]?.dead ?? 0),
+        oldestPendingAt: (outbox.results[0]?.oldest_pending_at as string | null) ?? null,
+      },
+    };
+  } catch (err) {
+    return {
+      d1: { ok: false, latencyMs: Date.now() - started, error: err instanceof Error ? err.message : String(err) },
+      webhooks: { lastProcessedAt: null, failed: 0 },
+      ghlOutbox: { pending: 0, dead: 0, oldestPendingAt: null },
+    };
+  }
+}
+
+// Read-only calls; GHL is null (not checked) when it isn't configured.
+async function checkCredentials(env: Env, log: Logger): Promise<NonNullable<DiagnosticsReport["credentials"]>> {
+  const timed = async (check: () => Promise<{ ok: true } | { ok: false; error: string }>): Promise<CredentialCheck> => {
+    const started = Date.now();
+    const res = await check();
+    const latencyMs = Date.now() - started;
+    return res.ok ? { ok: true, latencyMs } : { ok: false, latencyMs, error: res.error };
+  };
+
+  const [stripe, ghl] = await Promise.all([
+    timed(async () => {
+      if (!env.STRIPE_SECRET_KEY) return { ok: false, error: "STRIPE_SECRET_KEY is not set" };
+      const res = await stripeClient(env, log).listCustomers({ limit: 1 });
+      return res.ok ? { ok: true } : { ok: false, error: describeStripeError(res.error) };
+    }),
+    env.GHL_PRIVATE_TOKEN && env.GHL_LOCATION_ID ? timed(() => ghlCheckCredentials(env, log)) : Promise.resolve(null),
+  ]);
+  return { stripe, ghl };
+}
@@ -0,0 +1,79 @@
+// src/eventLedger.ts
+// =====================================================
+// Stripe webhook event ledger (D1: stripe_events)
+//
+// Every delivery claims its event id before side effects run:
+//   - new id                      -> claimed, processed
+//   - id already "processed"      -> duplicate, acknowledged + skipped
+//   - id "failed"                 -> re-claimed (Stripe retry)
+//   - id "processing" (recent)    -> in progress elsewhere, ask Stripe to retry
+//   - id "processing" (stale)     -> re-claimed (previous attempt died mid-way)
+//
+// The `actions` column is the audit log of what the worker did.
+// =====================================================
+
+export type EventStatus = "processing" | "processed" | "failed";
+export type EventClaim = "claimed" | "duplicate" | "in_progress";
+
+// A "processing" row older than this is assumed abandoned (worker crashed / timed out).
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+export async function claimStripeEvent(db: D1Database, eventId: string, type: string): Promise<EventClaim> {
+  const now = new Date().toISOString();
+
+  const inserted = await db
+    .prepare(
+      `INSERT INTO stripe_events (id, type, received_at, last_attempt_at, status, attempts)
+       VALUES (?1, ?2, ?3, ?3, 'processing', 1)
+       ON CONFLICT(id) DO NOTHING`
+    )
+    .bind(eventId, type, now)
+    .run();
+  if (inserted.meta.changes > 0) return "claimed";
+
+  const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS).toISOString();
+  const reclaimed = await db
+    .prepare(
+      `UPDATE stripe_events
+       SET status = 'processing', last_attempt_at = ?2, attempts = attempts + 1, error = NULL
+       WHERE id = ?1
+         AND (status = 'failed' OR (status = 'processing' AND last_attempt_at < ?3))`
+    )
+    .bind(eventId, now, staleBefore)
+    .run();
+  if (reclaimed.meta.changes > 0) return "claimed";
+
+  const row = await db
+    .prepare("SELECT status FROM stripe_events WHERE id = ?1")
+    .bind(eventId)
+    .first<{ status: EventStatus }>();
+
+  return row?.status === "processed" ? "duplicate" : "in_progress";
+}
+
+export async function completeStripeEvent(db: D1Database, eventId: string, actions: string[]): Promise<void> {
+  await db
+    .prepare(
+      `UPDATE stripe_events
+       SET status = 'processed', processed_at = ?2, error = NULL, actions = ?3
+       WHERE id = ?1`
+    )
+    .bind(eventId, new Date().toISOString(), JSON.stringify(actions))
+    .run();
+}
+
+export async function failStripeEvent(
+  db: D1Database,
+  eventId: string,
+  error: string,
+  actions: string[]
+): Promise<void> {
+  await db
+    .prepare(
+      `UPDATE stripe_events
+       SET status = 'failed', error = ?2, actions = ?3
+       WHERE id = ?1`
+    )
+    .bind(eventId, error.slice(0, 2000), JSON.stringify(actions))
+    .run();
+}
@@ -0,0 +1,437 @@
+// src/ghl.ts
+// =====================================================
+// GoHighLevel: Contacts Upsert (+ durable retry via the D1 outbox)
+//
+// ghlUpsertContact tries once inline. On failure the payload goes to
+// ghl_outbox and drainGhlOutbox (cron) retries it with backoff.
+//
+// One customer's syncs are kept in the order of the changes behind them
+// (Stripe event.created): a failed sync absorbs the customer's queued ones
+// (mergeGhlSyncs), and a delivered sync strips from older queued ones what it
+// already overwrote (rebaseGhlSync), so a retry never puts back stale fields
+// or status tags.
+//
+// Upsert only ever adds tags, so status moves (e.g. R4-Subscriber ->
+// R4-Canceled) also remove the old tags via the contact's tags endpoint.
+//
+// GHL_API_BASE_URL overrides https://services.leadconnectorhq.com (tests).
+// =====================================================
+
+import type { Env } from "./index";
+import type { Logger } from "./log";
+import {
+  OutboxRow,
+  claimDueGhlOutbox,
+  enqueueGhlUpsert,
+  initialOutboxStatus,
+  listPendingGhlOutbox,
+  markGhlOutboxFailed,
+  markGhlOutboxSucceeded,
+  markGhlOutboxSuperseded,
+  resetGhlOutboxForReplay,
+  updateGhlOutboxPayload,
+} from "./ghlOutbox";
+import { recordGhlSync } from "./mirror";
+
+const DEFAULT_BASE_URL = "https://services.leadconnectorhq.com";
+const GHL_API_VERSION = "2021-07-28";
+const GHL_CONVERSATIONS_API_VERSION = "2021-04-15";
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DRAIN_BATCH_SIZE = 25;
+
+export const GHL_TAGS = {
+  subscriber: "R4-Subscriber",
+  oneTime: "R4-OneTime",
+  smsOptIn: "SMS-OptIn",
+  smsOptOut: "SMS-OptOut",
+  canceled: "R4-Canceled",
+  pastDue: "R4-PastDue",
+  paused: "R4-Paused",
+  // cancel_at_period_end: still a subscriber until the period ends.
+  cancelPending: "R4-CancelPending",
+  paymentFailed: "R4-PaymentFailed",
+  refunded: "R4-Refunded",
+  disputed: "R4-Disputed",
+} as const;
+
+export interface GhlContactInput {
+  email: string;
+  phone: string;
+  name: string;
+  tags: string[];
+  removeTags?: string[];
+  custom: Record<string, string>;
+}
+
+// What gets sent (and stored in the outbox on failure).
+export interface GhlContactSync {
+  upsert: Record<string, unknown>;
+  removeTags: string[];
+}
+
+// ok: delivered; queued: stored for retry; failed: non-retryable, dead-lettered; skipped: GHL not configured
+export type GhlUpsertResult = "ok" | "queued" | "failed" | "skipped";
+
+type SendResult = { ok: true } | { ok: false; error: string; retryable: boolean };
+
+interface GhlConfig {
+  token: string;
+  baseUrl: string;
+  log: Logger;
+}
+
+function ghlConfig(env: Env, log: Logger): GhlConfig {
+  return {
+    token: env.GHL_PRIVATE_TOKEN || "",
+    baseUrl: (env.GHL_API_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, ""),
+    log,
+  };
+}
+
+// Stripe subscription status -> GHL status tags.
+export function subscriptionStatusTags(status: string): { add: string[]; remove: string[] } {
+  switch (status) {
+    case "active":
+    case "trialing":
+      return { add: [GHL_TAGS.subscriber], remove: [GHL_TAGS.canceled, GHL_TAGS.pastDue, GHL_TAGS.paused] };
+    case "past_due":
+    case "unpaid":
+      return { add: [GHL_TAGS.subscriber, GHL_TAGS.pastDue], remove: [GHL_TAGS.canceled] };
+    case "paused":
+      return { add: [GHL_TAGS.subscriber, GHL_TAGS.paused], remove: [GHL_TAGS.canceled] };
+    case "canceled":
+    case "incomplete_expired":
+      return {
+        add: [GHL_TAGS.canceled],
+        remove: [GHL_TAGS.subscriber, GHL_TAGS.pastDue, GHL_TAGS.paused, GHL_TAGS.paymentFailed, GHL_TAGS.cancelPending],
+      };
+    default:
+      return { add: [], remove: [] };
+  }
+}
+
+// `eventCreated`: when the change happened (Stripe event.created); defaults to now.
+export async function ghlUpsertContact(
+  env: Env,
+  log: Logger,
+  input: GhlContactInput,
+  opts: { customerId?: string; eventCreated?: number } = {}
+): Promise<GhlUpsertResult> {
+  if (!env.GHL_PRIVATE_TOKEN || !env.GHL_LOCATION_ID) {
+    log.warn("GHL not configured (GHL_PRIVATE_TOKEN / GHL_LOCATION_ID), skipping upsert");
+    return "skipped";
+  }
+
+  const eventCreated = opts.eventCreated || Math.floor(Date.now() / 1000);
+  const sync: GhlContactSync = {
+    upsert: buildGhlUpsertPayload(env.GHL_LOCATION_ID, input),
+    removeTags: (input.removeTags || []).filter((t) => !input.tags.includes(t)),
+  };
+  const sent = await sendGhlSync(ghlConfig(env, log), sync);
+  if (sent.ok) {
+    if (opts.customerId) await rebaseQueuedSyncs(env.DB, opts.customerId, sync, eventCreated);
+    return "ok";
+  }
+
+  // A sync that will be retried takes the customer's queued ones along with it.
+  const merging =
+    opts.customerId && initialOutboxStatus(sent.retryable, maxAttempts(env)) === "pending"
+      ? await listPendingGhlOutbox(env.DB, opts.customerId)
+      : [];
+  const queued = await enqueueGhlUpsert(env.DB, {
+    customerId: opts.customerId || "",
+    payload: mergeQueuedSyncs(merging, sync, eventCreated),
+    eventCreated: Math.max(eventCreated, ...merging.map((r) => r.event_created ?? 0)),
+    error: sent.error,
+    retryable: sent.retryable,
+    maxAttempts: maxAttempts(env),
+  });
+  await markGhlOutboxSuperseded(
+    env.DB,
+    merging.map((r) => r.id),
+    `merged into #${queued.id}`
+  );
+  log.warn("GHL upsert stored in outbox", {
+    outboxId: queued.id,
+    status: queued.status,
+    customerId: opts.customerId,
+    merged: merging.map((r) => r.id),
+  });
+  return queued.status === "pending" ? "queued" : "failed";
+}
+
+// =====================================================
+// Ordering queued syncs for one customer
+// =====================================================
+// Identity keys GHL matches the contact on; every sync keeps its own.
+const IDENTITY_KEYS = ["locationId", "source", "email", "phone"];
+
+function syncTags(sync: GhlContactSync): string[] {
+  return Array.isArray(sync.upsert.tags) ? (sync.upsert.tags as string[]) : [];
+}
+
+function syncFields(sync: GhlContactSync): { key: string; field_value: string }[] {
+  return Array.isArray(sync.upsert.customFields) ? (sync.upsert.customFields as { key: string; field_value: string }[]) : [];
+}
+
+// Both as one sync: the newer value wins for each field, tags are the union,
+// except that a tag one side adds and the other removes (a status change)
+// follows the newer side.
+export function mergeGhlSyncs(older: GhlContactSync, newer: GhlContactSync): GhlContactSync {
+  const newerTags = syncTags(newer);
+  const tags = [...new Set([...syncTags(older).filter((t) => !newer.removeTags.includes(t)), ...newerTags])];
+  const fields = new Map<string, string>();
+  for (const f of [...syncFields(older), ...syncFields(newer)]) fields.set(f.key, f.field_value);
+  const removeTags = [...new Set([...older.removeTags.filter((t) => !newerTags.includes(t)), ...newer.removeTags])];
+
+  return {
+    upsert: {
+      ...older.upsert,
+      ...newer.upsert,
+      tags,
+      customFields: [...fields].map(([key, field_value]) => ({ key, field_value })),
+    },
+    removeTags: removeTags.filter((t) => !tags.includes(t)),
+  };
+}
+
+// What is left of a queued `older` sync once `sent` (a newer change) went
+// through; null when nothing is.
+export function rebaseGhlSync(older: GhlContactSync, sent: GhlContactSync): GhlContactSync | null {
+  const touched = new Set([...syncTags(sent), ...sent.removeTags]);
+  const sentFields = new Set(syncFields(sent).map((f) => f.key));
+
+  const upsert: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(older.upsert)) {
+    if (IDENTITY_KEYS.includes(k) || !(k in sent.upsert)) upsert[k] = v;
+  }
+  const tags = syncTags(older).filter((t) => !touched.has(t));
+  const customFields = syncFields(older).filter((f) => !sentFields.has(f.key));
+  const removeTags = older.removeTags.filter((t) => !touched.has(t));
+  const rest = Object.keys(upsert).filter((k) => !IDENTITY_KEYS.includes(k) && k !== "tags" && k !== "customFields");
+  if (!tags.length && !customFields.length && !removeTags.length && !rest.length) return null;
+
+  return { upsert: { ...upsert, tags, customFields }, removeTags };
+}
+
+// Queued rows (oldest change first) and the incoming sync, in change order.
+function mergeQueuedSyncs(rows: OutboxRow[], sync: GhlContactSync, eventCreated: number): GhlContactSync {
+  const entries = rows
+    .map((r) => ({ at: r.event_created ?? 0, sync: parseOutboxPayload(r) }))
+    .filter((e): e is { at: number; sync: GhlContactSync } => e.sync !== null);
+  entries.push({ at: eventCreated, sync });
+  entries.sort((a, b) => a.at - b.at);
+  return entries.slice(1).reduce((merged, e) => mergeGhlSyncs(merged, e.sync), entries[0].sync);
+}
+
+// After `sent` was delivered, queued rows for older changes drop what it overwrote.
+async function rebaseQueuedSyncs(
+  db: D1Database,
+  customerId: string,
+  sent: GhlContactSync,
+  eventCreated: number,
+  exceptId?: number
+): Promise<void> {
+  const emptied: number[] = [];
+  for (const row of await listPendingGhlOutbox(db, customerId)) {
+    if (row.id === exceptId || (row.event_created ?? 0) > eventCreated) continue;
+    const queued = parseOutboxPayload(row);
+    if (!queued) continue;
+    const rest = rebaseGhlSync(queued, sent);
+    if (rest) await updateGhlOutboxPayload(db, row.id, rest);
+    else emptied.push(row.id);
+  }
+  await markGhlOutboxSuperseded(db, emptied, "already sent by a newer sync");
+}
+
+function parseOutboxPayload(row: OutboxRow): GhlContactSync | null {
+  try {
+    const parsed = JSON.parse(row.payload);
+    // Rows queued before tag removal existed hold the bare upsert payload.
+    return parsed?.upsert ? parsed : { upsert: parsed, removeTags: [] };
+  } catch {
+    return null;
+  }
+}
+
+function buildGhlUpsertPayload(locationId: string, input: GhlContactInput): Record<string, unknown> {
+  const customFields = Object.entries(input.custom)
+    .map(([key, val]) => ({ key, field_value: String(val ?? "").trim() }))
+    .filter((x) => x.field_value.length > 0);
+
+  const payload: Record<string, unknown> = {
+    locationId,
+    tags: input.tags || [],
+    customFields,
+    source: "stripe-webhook",
+  };
+
+  if (input.email?.trim()) payload.email = input.email.trim();
+  if (input.phone?.trim()) payload.phone = input.phone.trim();
+  if (input.name?.trim()) payload.name = input.name.trim();
+
+  return payload;
+}
+
+// Upsert, then drop stale status tags. Both steps are idempotent, so a retry replays the whole sync.
+async function sendGhlSync(config: GhlConfig, sync: GhlContactSync): Promise<SendResult> {
+  const upserted = await ghlRequest(config, "POST", "/contacts/upsert", sync.upsert, "upsert");
+  if (!upserted.ok) return upserted;
+  if (!sync.removeTags.length) return { ok: true };
+
+  const contactId = String(upserted.body?.contact?.id || "");
+  if (!contactId) return { ok: false, error: "upsert response had no contact id", retryable: true };
+
+  const removed = await ghlRequest(
+    config,
+    "DELETE",
+    `/contacts/${encodeURIComponent(contactId)}/tags`,
+    { tags: sync.removeTags },
+    "remove tags"
+  );
+  return removed.ok ? { ok: true } : removed;
+}
+
+async function ghlRequest(
+  config: GhlConfig,
+  method: string,
+  path: string,
+  body: unknown,
+  label: string,
+  version = GHL_API_VERSION
+): Promise<{ ok: true; body: any } | { ok: false; error: string; retryable: boolean }> {
+  const started = Date.now();
+  const call = { endpoint: `${method} ${path.split("?")[0]}` };
+  let res: Response;
+  try {
+    res = await fetch(config.baseUrl + path, {
+      method,
+      headers: {
+        Authorization: `Bearer ${config.token}`,
+        "Content-Type": "application/json",
+        Version: version,
+      },
+      body: JSON.stringify(body),
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    config.log.warn("GHL request failed (network)", { ...call, durationMs: Date.now() - started, error: message });
+    return { ok: false, error: `${label}: network: ${message}`, retryable: true };
+  }
+
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    const durationMs = Date.now() - started;
+    config.log.warn("GHL request failed", { ...call, status: res.status, durationMs, response: text.slice(0, 500) });
+    // 4xx means the payload itself is bad, except timeouts / rate limits.
+    const retryable = res.status >= 500 || res.status === 408 || res.status === 429;
+    return { ok: false, error: `${label}: HTTP ${res.status}: ${text.slice(0, 500)}`, retryable };
+  }
+
+  const j = await res.json().catch(() => null);
+  config.log.info("GHL request", { ...call, status: res.status, durationMs: Date.now() - started });
+  return { ok: true, body: j };
+}
+
+// Read-only credential check (admin diagnostics): lists one contact in the location.
+export async function ghlCheckCredentials(
+  env: Env,
+  log: Logger
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  if (!env.GHL_PRIVATE_TOKEN || !env.GHL_LOCATION_ID) return { ok: false, error: "GHL not configured" };
+
+  const query = new URLSearchParams({ locationId: env.GHL_LOCATION_ID, limit: "1" });
+  const res = await ghlRequest(ghlConfig(env, log), "GET", `/contacts/?${query}`, undefined, "credential check");
+  return res.ok ? { ok: true } : { ok: false, error: res.error };
+}
+
+// One-off message (verification codes). Not queued: a late code is useless.
+export async function ghlSendMessage(
+  env: Env,
+  log: Logger,
+  msg: { channel: "email" | "sms"; email: string; phone: string; subject: string; message: string }
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  if (!env.GHL_PRIVATE_TOKEN || !env.GHL_LOCATION_ID) return { ok: false, error: "GHL not configured" };
+
+  const contact: Record<string, unknown> = { locationId: env.GHL_LOCATION_ID, email: msg.email, source: "stripe-webhook" };
+  if (msg.phone) contact.phone = msg.phone;
+  const config = ghlConfig(env, log);
+  const upserted = await ghlRequest(config, "POST", "/contacts/upsert", contact, "upsert");
+  if (!upserted.ok) return upserted;
+
+  const contactId = String(upserted.body?.contact?.id || "");
+  if (!contactId) return { ok: false, error: "upsert response had no contact id" };
+
+  const sent = await ghlRequest(
+    config,
+    "POST",
+    "/conversations/messages",
+    msg.channel === "sms"
+      ? { type: "SMS", contactId, message: msg.message }
+      : { type: "Email", contactId, subject: msg.subject, message: msg.message, html: `<p>${msg.message}</p>` },
+    `send ${msg.channel}`,
+    GHL_CONVERSATIONS_API_VERSION
+  );
+  return sent.ok ? { ok: true } : sent;
+}
+
+function maxAttempts(env: Env): number {
+  const n = Number(env.GHL_OUTBOX_MAX_ATTEMPTS);
+  return Number.isInteger(n) && n > 0 ? n : DEFAULT_MAX_ATTEMPTS;
+}
+
+// =====================================================
+// Outbox drain (cron) + manual replay (admin)
+// =====================================================
+export async function drainGhlOutbox(
+  env: Env,
+  log: Logger
+): Promise<{ succeeded: number; retrying: number; dead: number }> {
+  const counts = { succeeded: 0, retrying: 0, dead: 0 };
+  if (!env.GHL_PRIVATE_TOKEN) {
+    log.warn("GHL not configured, leaving outbox untouched");
+    return counts;
+  }
+
+  const rows = await claimDueGhlOutbox(env.DB, DRAIN_BATCH_SIZE);
+  for (const row of rows) {
+    const status = await deliverOutboxRow(env, log.child({ outboxId: row.id }), row);
+    if (status === "succeeded") counts.succeeded++;
+    else if (status === "pending") counts.retrying++;
+    else counts.dead++;
+  }
+
+  if (rows.length) log.info("GHL outbox drained", counts);
+  return counts;
+}
+
+export async function replayGhlOutboxItem(
+  env: Env,
+  log: Logger,
+  id: number
+): Promise<{ found: boolean; status?: "succeeded" | "pending" | "dead" }> {
+  if (!env.GHL_PRIVATE_TOKEN) throw new Error("GHL not configured: missing GHL_PRIVATE_TOKEN");
+
+  const row = await resetGhlOutboxForReplay(env.DB, id);
+  if (!row) return { found: false };
+  return { found: true, status: await deliverOutboxRow(env, log.child({ outboxId: id }), row) };
+}
+
+async function deliverOutboxRow(env: Env, log: Logger, row: OutboxRow): Promise<"succeeded" | "pending" | "dead"> {
+  const sync = parseOutboxPayload(row);
+  if (!sync) return markGhlOutboxFailed(env.DB, row, "stored payload is not valid JSON", false, 0);
+
+  const sent = await sendGhlSync(ghlConfig(env, log), sync);
+  if (sent.ok) {
+    await markGhlOutboxSucceeded(env.DB, row.id);
+    if (row.customer_id) {
+      if (row.event_created) await rebaseQueuedSyncs(env.DB, row.customer_id, sync, row.event_created, row.id);
+      await recordGhlSync(env.DB, row.customer_id, "ok");
+    }
+    return "succeeded";
+  }
+
+  const status = await markGhlOutboxFailed(env.DB, row, sent.error, sent.retryable, maxAttempts(env));
+  if (status === "dead" && row.customer_id) await recordGhlSync(env.DB, row.customer_id, "failed");
+  return status;
+}
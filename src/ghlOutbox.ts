@@ -0,0 +1,187 @@
+// src/ghlOutbox.ts
+// =====================================================
+// GoHighLevel upsert outbox (D1: ghl_outbox)
+//
+// A failed upsert is stored with its payload and retried by the cron
+// handler with exponential backoff:
+//   pending   -> waiting for next_attempt_at
+//   succeeded -> delivered (kept for history)
+//   dead      -> gave up (max attempts, or a non-retryable 4xx); replay from admin
+//   superseded -> merged into a newer queued row for the same customer (or
+//                 left with nothing a newer delivered sync hadn't already sent)
+//
+// Dead rows are never changed automatically; they stay as evidence for replay.
+// Only storage lives here; sending is in src/ghl.ts.
+// =====================================================
+
+export type OutboxStatus = "pending" | "succeeded" | "dead" | "superseded";
+
+export interface OutboxRow {
+  id: number;
+  customer_id: string | null;
+  payload: string;
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  event_created: number | null;
+}
+
+const ROW_COLUMNS = "id, customer_id, payload, status, attempts, next_attempt_at, last_error, event_created";
+
+const BACKOFF_BASE_SECONDS = 60;
+const BACKOFF_MAX_SECONDS = 6 * 60 * 60;
+
+// While a drain run works on a row, push next_attempt_at out so an
+// overlapping run can't pick it up too.
+const CLAIM_LEASE_SECONDS = 120;
+
+// 1m, 2m, 4m, ... capped at 6h
+export function ghlBackoffSeconds(attempts: number): number {
+  return Math.min(BACKOFF_BASE_SECONDS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_SECONDS);
+}
+
+function isoIn(seconds: number): string {
+  return new Date(Date.now() + seconds * 1000).toISOString();
+}
+
+// Whether a failed first attempt is worth queueing for retries.
+export function initialOutboxStatus(retryable: boolean, maxAttempts: number): "pending" | "dead" {
+  return retryable && maxAttempts > 1 ? "pending" : "dead";
+}
+
+// Called after the first (inline) attempt failed, so attempts starts at 1.
+export async function enqueueGhlUpsert(
+  db: D1Database,
+  item: {
+    customerId: string;
+    payload: unknown;
+    eventCreated: number;
+    error: string;
+    retryable: boolean;
+    maxAttempts: number;
+  }
+): Promise<{ id: number; status: OutboxStatus }> {
+  const now = new Date().toISOString();
+  const status = initialOutboxStatus(item.retryable, item.maxAttempts);
+
+  const row = await db
+    .prepare(
+      `INSERT INTO ghl_outbox
+         (customer_id, payload, status, attempts, next_attempt_at, last_error, event_created, created_at, updated_at)
+       VALUES (?1, ?2, ?3, 1, ?4, ?5, ?6, ?7, ?7)
+       RETURNING id`
+    )
+    .bind(
+      item.customerId || null,
+      JSON.stringify(item.payload),
+      status,
+      isoIn(ghlBackoffSeconds(1)),
+      item.error.slice(0, 2000),
+      item.eventCreated,
+      now
+    )
+    .first<{ id: number }>();
+
+  return { id: Number(row?.id ?? 0), status };
+}
+
+// The customer's rows still waiting to be sent, oldest change first.
+export async function listPendingGhlOutbox(db: D1Database, customerId: string): Promise<OutboxRow[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT ${ROW_COLUMNS} FROM ghl_outbox
+       WHERE customer_id = ?1 AND status = 'pending'
+       ORDER BY COALESCE(event_created, 0), id`
+    )
+    .bind(customerId)
+    .all<OutboxRow>();
+  return results;
+}
+
+// Only pending rows: a row that was delivered or dead-lettered meanwhile keeps its status.
+export async function markGhlOutboxSuperseded(db: D1Database, ids: number[], note: string): Promise<void> {
+  if (!ids.length) return;
+  await db
+    .prepare(
+      `UPDATE ghl_outbox
+       SET status = 'superseded', last_error = ?1, updated_at = ?2
+       WHERE status = 'pending' AND id IN (${ids.map((_, i) => `?${i + 3}`).join(", ")})`
+    )
+    .bind(note, new Date().toISOString(), ...ids)
+    .run();
+}
+
+export async function updateGhlOutboxPayload(db: D1Database, id: number, payload: unknown): Promise<void> {
+  await db
+    .prepare("UPDATE ghl_outbox SET payload = ?2, updated_at = ?3 WHERE id = ?1 AND status = 'pending'")
+    .bind(id, JSON.stringify(payload), new Date().toISOString())
+    .run();
+}
+
+export async function claimDueGhlOutbox(db: D1Database, limit: number): Promise<OutboxRow[]> {
+  const now = new Date().toISOString();
+  const { results } = await db
+    .prepare(
+      `UPDATE ghl_outbox
+       SET next_attempt_at = ?2, updated_at = ?1
+       WHERE id IN (
+         SELECT id FROM ghl_outbox
+         WHERE status = 'pending' AND next_attempt_at <= ?1
+         ORDER BY next_attempt_at
+         LIMIT ?3
+       )
+       RETURNING ${ROW_COLUMNS}`
+    )
+    .bind(now, isoIn(CLAIM_LEASE_SECONDS), limit)
+    .all<OutboxRow>();
+  return results;
+}
+
+export async function markGhlOutboxSucceeded(db: D1Database, id: number): Promise<void> {
+  await db
+    .prepare(
+      `UPDATE ghl_outbox
+       SET status = 'succeeded', attempts = attempts + 1, last_error = NULL, updated_at = ?2
+       WHERE id = ?1`
+    )
+    .bind(id, new Date().toISOString())
+    .run();
+}
+
+export async function markGhlOutboxFailed(
+  db: D1Database,
+  row: OutboxRow,
+  error: string,
+  retryable: boolean,
+  maxAttempts: number
+): Promise<"pending" | "dead"> {
+  const attempts = row.attempts + 1;
+  const status: "pending" | "dead" = retryable && attempts < maxAttempts ? "pending" : "dead";
+
+  await db
+    .prepare(
+      `UPDATE ghl_outbox
+       SET status = ?2, attempts = ?3, next_attempt_at = ?4, last_error = ?5, updated_at = ?6
+       WHERE id = ?1 AND status != 'superseded'`
+    )
+    .bind(row.id, status, attempts, isoIn(ghlBackoffSeconds(attempts)), error.slice(0, 2000), new Date().toISOString())
+    .run();
+
+  return status;
+}
+
+// Manual replay: put the row back in play with a fresh attempt budget.
+// Delivered and superseded rows stay as they are.
+export async function resetGhlOutboxForReplay(db: D1Database, id: number): Promise<OutboxRow | null> {
+  const now = new Date().toISOString();
+  return db
+    .prepare(
+      `UPDATE ghl_outbox
+       SET status = 'pending', attempts = 0, next_attempt_at = ?2, updated_at = ?2
+       WHERE id = ?1 AND status IN ('pending', 'dead')
+       RETURNING ${ROW_COLUMNS}`
+    )
+    .bind(id, now)
+    .first<OutboxRow>();
+}
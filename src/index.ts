@@ -7,310 +7,939 @@
 //  - Use metadata phone if Stripe checkout doesn't provide it
 //  - Add SMS-OptIn tag + custom fields to GHL
 //
+// Webhook events handled:
+//   checkout.session.completed, invoice.payment_succeeded, invoice.payment_failed,
+//   customer.subscription.updated / .paused / .deleted, charge.refunded, charge.dispute.created
+//
+// Cron (wrangler.json triggers): drains the GHL outbox, purges expired portal codes, member sessions
+//                                + rate-limit windows + unconfirmed checkout SMS opt-ins,
+//                                logs a D1 schema version mismatch (src/schemaVersion.ts)
+//
 // Endpoints:
 //   POST /api/create-checkout-session                  (subscription)
 //   POST /api/create-one-time-checkout-session         (one-time payment)
 //   GET  /api/get-checkout-contact
-//   POST /api/create-billing-portal
+//   POST /api/billing-portal/request-code              (emails / texts a one-time code)
+//   POST /api/create-billing-portal                    (email + code -> portal URL)
+//   POST /api/sms-opt-out                              (STOP / unsubscribe -> consent log + GHL)
+//   POST /api/member/session                           (email + portal code -> 30-minute bearer token)
+//   GET  /api/member/subscription                      (bearer: current plan, see src/member.ts)
+//   POST /api/member/subscription/preview              (bearer: proration preview for another bundle)
+//   POST /api/member/subscription/change               (bearer: swap to that bundle, prorated)
+//   POST /api/member/subscription/pause                (bearer: pause collection for N months)
+//   POST /api/member/subscription/cancel               (bearer: cancel at period end, with a reason)
 //   POST /api/stripe-webhook
+//   GET  /api/health                                   (config / D1 / backlog report; 503 when down, see src/diagnostics.ts)
+//   GET  /admin/api/*                                  (admin JSON API, see src/admin.ts)
+//   GET  /admin, /admin/*                              (admin HTML dashboard, see src/dashboard.ts)
 //
 // REQUIRED Worker Secrets:
 //   STRIPE_SECRET_KEY
-//   STRIPE_WEBHOOK_SECRET
+//   STRIPE_WEBHOOK_SECRET   (comma-separated list allowed, for secret rotation)
+//
+// REQUIRED Bindings:
+//   DB (D1) — stripe_events ledger (webhook idempotency + audit log)
+//             catalog_items (server-side prices keyed by partNumber)
+//             checkout_line_items (what each completed checkout bought)
+//             customers / subscriptions / invoices / purchases (local mirror of Stripe state)
+//             ghl_outbox (failed GHL upserts, retried by the cron trigger)
+//             billing_issues (payment failures, pauses, refunds, disputes)
+//             portal_verifications (one-time codes for the billing portal and member sign-in)
+//             member_sessions / subscription_changes (member self-service tokens + change log)
+//             rate_limit_counters / rate_limit_events (public /api/* throttling + throttle log)
+//             sms_consent_log (append-only SMS opt-in / opt-out history)
+//             sms_consent_pending (checkout opt-ins until checkout.session.completed)
+//             settings (per-environment overrides of the config vars below)
+//
+// Vars (wrangler.json):
+//   CORS_ALLOWED_ORIGINS   comma-separated origins allowed to call /api/* from a browser
+//                          (exact, or https://*.example.com for subdomains)
+//
+//   DEFAULT_PHONE_COUNTRY  country for phone numbers typed without a country code (default US),
+//                          see src/phone.ts
+//   SMS_CONSENT_VERSION    id of the SMS consent wording currently on the site, logged with each
+//                          opt-in unless the page sends smsConsentVersion
+//
+// OPTIONAL (per environment / brand; a row in the D1 settings table overrides the var, see src/config.ts):
+//   BRAND_NAME             fills {brand} in catalog names and verification messages (default R4 Home Service)
+//   CURRENCY               currency every catalog item must be priced in (default usd)
+//   CHECKOUT_SUCCESS_URL   Stripe Checkout success_url (session_id={CHECKOUT_SESSION_ID} is added if missing)
+//   CHECKOUT_CANCEL_URL    Stripe Checkout cancel_url
+//   PORTAL_RETURN_URL      Billing Portal return_url
+//   RETURN_URLS            pre-approved pages requests may pick by key instead: "<key>=<url>,..."
+//   PROMO_CODES            allowlist for the subscription checkout's promoCode: "<CODE>=<promo_… or coupon id>,..."
+//   ALLOW_PROMOTION_CODES  "true" lets customers enter codes on Stripe's page when no promoCode was sent
+//
+// OPTIONAL (abuse protection; defaults in src/rateLimit.ts):
+//   RATE_LIMITS   per-IP / per-email-or-phone quotas, e.g. "checkout.ip=30/600,portal.identifier=3/900"
+//
+// OPTIONAL (testing):
+//   STRIPE_API_BASE_URL   point the Stripe client (src/stripe.ts) at a fake server
+//   GHL_API_BASE_URL      point GHL calls (src/ghl.ts) at a fake server
+//
+// OPTIONAL (logging; JSON lines with request / event ids and PII redaction, see src/log.ts):
+//   LOG_LEVEL   debug | info | warn | error (default info)
+//
+// OPTIONAL (webhook hardening):
+//   STRIPE_WEBHOOK_TOLERANCE_SECONDS   (default 300, Stripe's default)
 //
 // OPTIONAL (for GHL sync):
 //   GHL_PRIVATE_TOKEN
 //   GHL_LOCATION_ID
+//   GHL_OUTBOX_MAX_ATTEMPTS   (default 8, then the outbox row is dead-lettered)
+//
+// OPTIONAL (billing portal verification; /api/billing-portal/request-code refuses until set):
+//   VERIFICATION_SENDER          ghl | webhook | log (log = local dev only), see src/notify.ts
+//   VERIFICATION_WEBHOOK_URL     for the webhook sender
+//   VERIFICATION_WEBHOOK_TOKEN   optional bearer for the webhook sender
+//
+// OPTIONAL (admin API; disabled until set):
+//   ADMIN_API_TOKEN   (bearer for the JSON API; Basic-auth password for the dashboard)
 // =====================================================
 
+import { handleAdminApi } from "./admin";
+import {
+  Cart,
+  buildCart,
+  cartLineItems,
+  cartMetadata,
+  cartPartNumbers,
+  cartSummary,
+  cartTrialDays,
+  parseCadenceMetadata,
+  parseCartMetadata,
+  recordCheckoutLines,
+} from "./cart";
+import { billingCadence, checkClientAmount, checkClientInterval } from "./catalog";
+import { AppConfig, discountId, loadConfig, promoDiscount, returnUrl, withSessionId } from "./config";
+import { confirmPendingConsent, purgePendingConsent, recordConsent, recordPendingConsent, requestContext } from "./consent";
+import { isOriginAllowed, originRejected, parseAllowedOrigins, preflightResponse, withCors } from "./cors";
+import { hmacSHA256Hex, timingSafeEqualHex } from "./crypto";
+import { handleAdminDashboard } from "./dashboard";
+import { buildDiagnostics, publicHealthReport } from "./diagnostics";
+import { claimStripeEvent, completeStripeEvent, failStripeEvent } from "./eventLedger";
+import { GHL_TAGS, drainGhlOutbox, ghlUpsertContact, subscriptionStatusTags } from "./ghl";
+import { Logger, createLogger, requestLogger } from "./log";
+import {
+  findSubscribedCustomer,
+  getCustomer,
+  markSmsOptOut,
+  recordBillingIssue,
+  recordGhlSync,
+  recordPurchase,
+  resolveBillingIssue,
+  upsertCustomer,
+  upsertInvoice,
+  upsertSubscription,
+} from "./mirror";
+import {
+  addMonths,
+  cartPlan,
+  ensureCatalogProducts,
+  findMemberSubscription,
+  listMemberSubscriptions,
+  memberSubscriptionView,
+  recordSubscriptionChange,
+  swapItems,
+  swapMetadata,
+} from "./member";
+import { MemberSession, authenticateMember, issueMemberSession, purgeMemberSessions } from "./memberAuth";
+import { getCodeSender } from "./notify";
+import { canonicalPhone } from "./phone";
+import { VerificationChannel, issuePortalCode, purgePortalVerifications, verifyPortalCode } from "./portalAuth";
+import { enforceRateLimit, purgeRateLimits } from "./rateLimit";
+import {
+  BillingPortalRequest,
+  CheckoutRequest,
+  MemberSessionRequest,
+  OneTimeCheckoutRequest,
+  PortalCodeRequest,
+  SmsOptOutRequest,
+  SubscriptionCancelRequest,
+  SubscriptionChangeRequest,
+  SubscriptionPauseRequest,
+  SubscriptionPreviewRequest,
+  billingPortalRequest,
+  checkoutContactQuery,
+  checkoutRequest,
+  memberSessionRequest,
+  oneTimeCheckoutRequest,
+  portalCodeRequest,
+  smsOptOutRequest,
+  subscriptionCancelRequest,
+  subscriptionChangeRequest,
+  subscriptionPauseRequest,
+  subscriptionPreviewRequest,
+} from "./requests";
+import { FieldError, fieldErrorResponse, parseJsonBody, parseQuery } from "./schema";
+import { logSchemaMismatch } from "./schemaVersion";
+import { StripeCharge, StripeCustomer, StripeError, StripeSubscription, stripeClient } from "./stripe";
+
 export interface Env {
+  DB: D1Database;
+
   STRIPE_SECRET_KEY: string;
   STRIPE_WEBHOOK_SECRET: string;
+  STRIPE_WEBHOOK_TOLERANCE_SECONDS?: string;
 
   GHL_PRIVATE_TOKEN?: string;
   GHL_LOCATION_ID?: string;
+  GHL_OUTBOX_MAX_ATTEMPTS?: string;
+
+  ADMIN_API_TOKEN?: string;
+
+  CORS_ALLOWED_ORIGINS?: string;
+
+  RATE_LIMITS?: string;
+
+  DEFAULT_PHONE_COUNTRY?: string;
+  SMS_CONSENT_VERSION?: string;
+
+  STRIPE_API_BASE_URL?: string;
+  GHL_API_BASE_URL?: string;
+
+  VERIFICATION_SENDER?: string;
+  VERIFICATION_WEBHOOK_URL?: string;
+  VERIFICATION_WEBHOOK_TOKEN?: string;
+
+  LOG_LEVEL?: string;
+
+  BRAND_NAME?: string;
+  CURRENCY?: string;
+  CHECKOUT_SUCCESS_URL?: string;
+  CHECKOUT_CANCEL_URL?: string;
+  PORTAL_RETURN_URL?: string;
+  RETURN_URLS?: string;
+  PROMO_CODES?: string;
+  ALLOW_PROMOTION_CODES?: string;
 }
 
+// Stripe customers sharing an email considered for a portal / member sign-in.
+const PORTAL_CUSTOMER_CANDIDATES = 10;
+
+const PUBLIC_ROUTES: Record<string, (request: Request, env: Env, log: Logger) => Promise<Response>> = {
+  "/api/create-checkout-session": handleCreateCheckoutSession,
+  "/api/create-one-time-checkout-session": handleCreateOneTimeCheckoutSession,
+  "/api/get-checkout-contact": handleGetCheckoutContact,
+  "/api/billing-portal/request-code": handleRequestBillingPortalCode,
+  "/api/create-billing-portal": handleCreateBillingPortal,
+  "/api/sms-opt-out": handleSmsOptOut,
+  "/api/member/session": handleCreateMemberSession,
+  "/api/member/subscription": handleGetMemberSubscription,
+  "/api/member/subscription/preview": handlePreviewSubscriptionChange,
+  "/api/member/subscription/change": handleChangeSubscription,
+  "/api/member/subscription/pause": handlePauseSubscription,
+  "/api/member/subscription/cancel": handleCancelSubscription,
+};
+
 export default {
   async fetch(request: Request, env: Env): Promise<Response> {
     const url = new URL(request.url);
-
-    // CORS preflight
-    if (request.method === "OPTIONS") {
-      return new Response(null, { status: 204, headers: corsHeaders(request) });
+    const log = requestLogger(request, env);
+
+    // Browser-facing routes: CORS allowlist applies
+    const publicRoute = PUBLIC_ROUTES[url.pathname];
+    if (publicRoute) {
+      const origin = request.headers.get("Origin");
+      if (origin && !isOriginAllowed(origin, parseAllowedOrigins(env.CORS_ALLOWED_ORIGINS))) {
+        log.warn("CORS origin rejected", { origin });
+        return originRejected();
+      }
+      if (request.method === "OPTIONS") {
+        return origin ? preflightResponse(origin) : new Response(null, { status: 204 });
+      }
+
+      const res = (await enforceRateLimit(request, env, log, url.pathname)) || (await publicRoute(request, env, log));
+      return origin ? withCors(res, origin) : res;
     }
 
-    // Routes
-    if (url.pathname === "/api/create-checkout-session") {
-      return handleCreateCheckoutSession(request, env);
+    if (request.method === "OPTIONS") {
+      return new Response("CORS not allowed", { status: 403 });
     }
 
-    if (url.pathname === "/api/create-one-time-checkout-session") {
-      return handleCreateOneTimeCheckoutSession(request, env);
+    if (url.pathname === "/api/stripe-webhook") {
+      // Server-to-server from Stripe: no CORS.
+      return handleStripeWebhook(request, env, log);
     }
 
-    if (url.pathname === "/api/get-checkout-contact") {
-      return handleGetCheckoutContact(request, env);
+    if (url.pathname === "/api/health") {
+      return handleHealth(request, env, log);
     }
 
-    if (url.pathname === "/api/create-billing-portal") {
-      return handleCreateBillingPortal(request, env);
+    if (url.pathname.startsWith("/admin/api/")) {
+      return handleAdminApi(request, env, log, url);
     }
 
-    if (url.pathname === "/api/stripe-webhook") {
-      // Stripe webhooks do not need CORS, but leaving it is fine.
-      return handleStripeWebhook(request, env);
+    if (url.pathname === "/admin" || url.pathname.startsWith("/admin/")) {
+      return handleAdminDashboard(request, env, log, url);
     }
 
     return new Response("Not found", { status: 404 });
   },
+
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    const log = createLogger(env, { requestId: crypto.randomUUID(), cron: controller.cron });
+    ctx.waitUntil(drainGhlOutbox(env, log));
+    ctx.waitUntil(purgePortalVerifications(env.DB));
+    ctx.waitUntil(purgeMemberSessions(env.DB));
+    ctx.waitUntil(purgePendingConsent(env.DB));
+    ctx.waitUntil(purgeRateLimits(env.DB));
+    ctx.waitUntil(logSchemaMismatch(env.DB, log));
+  },
 };
 
 // =====================================================
 // Helpers: safe parsing
 // =====================================================
-function parseSmsOptIn(v: any): { smsOptIn: "yes" | "no"; smsOptInBool: boolean } {
-  // Accept: true/false, "true"/"false", "yes"/"no", 1/0
-  if (v === true || v === 1) return { smsOptIn: "yes", smsOptInBool: true };
-  if (v === false || v === 0) return { smsOptIn: "no", smsOptInBool: false };
-
-  const s = String(v ?? "").trim().toLowerCase();
-  if (s === "true" || s === "yes" || s === "y" || s === "1") return { smsOptIn: "yes", smsOptInBool: true };
-  return { smsOptIn: "no", smsOptInBool: false };
-}
-
-function isLikelyE164(phone: string): boolean {
-  // light validation: + and at least 10 digits total
-  const p = String(phone || "").trim();
-  if (!p.startsWith("+")) return false;
-  const digits = p.replace(/\D/g, "");
-  return digits.length >= 10 && digits.length <= 15;
+// Stripe unix seconds -> ISO string ("" when absent)
+function unixToIso(v: any): string {
+  const n = Number(v);
+  return v && Number.isFinite(n) ? new Date(n * 1000).toISOString() : "";
 }
 
 // =====================================================
-// Create Stripe Checkout Session (monthly subscription)
+// Create Stripe Checkout Session (subscription: monthly, quarterly, annual, ...)
 // =====================================================
-async function handleCreateCheckoutSession(request: Request, env: Env): Promise<Response> {
-  if (request.method !== "POST") return json({ error: "Method not allowed" }, 405, request);
-  if (!env.STRIPE_SECRET_KEY) return json({ error: "Missing STRIPE_SECRET_KEY" }, 500, request);
+async function handleCreateCheckoutSession(request: Request, env: Env, log: Logger): Promise<Response> {
+  if (request.method !== "POST") return json({ error: "Method not allowed" }, 405);
+  if (!env.STRIPE_SECRET_KEY) return json({ error: "Missing STRIPE_SECRET_KEY" }, 500);
+
+  const parsed = await parseJsonBody(request, checkoutRequest(env.DEFAULT_PHONE_COUNTRY));
+  if (!parsed.ok) return fieldErrorResponse(parsed.errors);
+  const body: CheckoutRequest = parsed.value;
+
+  const customerEmail = body.customerEmail || "";
+  const config = await loadConfig(env, log);
+  const urls = checkoutUrls(config, body);
+  if (!urls.ok) return fieldErrorResponse(urls.errors);
+
+  // phone (already E.164) + sms opt-in from selector
+  const selectorPhone = body.phone;
+  const smsOptIn = body.smsOptIn ? "yes" : "no";
+  const smsOptInTs = new Date().toISOString();
 
-  let body: any;
-  try {
-    body = await request.json();
-  } catch {
-    return json({ error: "Invalid JSON" }, 400, request);
+  // Prices and cadence come from the catalog; client-sent amount / interval are only cross-checked against the cart.
+  const built = await buildCart(env.DB, config, body, "subscription");
+  if (!built.ok) return fieldErrorResponse(built.errors);
+  const cart = built.cart;
+  const interval = cart.interval || "month";
+  const intervalCount = cart.intervalCount;
+
+  const clientErrors = [
+    checkClientAmount("amount", body.amount, cart.totalCents),
+    checkClientAmount("monthlyAmount", body.monthlyAmount, cart.totalCents),
+    checkClientInterval(body.interval, body.intervalCount, { interval, intervalCount }),
+  ].filter((e): e is FieldError => e !== null);
+  if (clientErrors.length) return fieldErrorResponse(clientErrors);
+
+  // An allowlisted promo code becomes a fixed discount; without one, Stripe's page may take codes itself.
+  const promoCode = (body.promoCode || "").toUpperCase();
+  const discount = promoCode ? promoDiscount(config, promoCode) : null;
+  if (promoCode && !discount) {
+    return fieldErrorResponse([
+      { field: "promoCode", code: "unknown_promo_code", message: `unknown promo code: ${promoCode}` },
+    ]);
   }
+  const trialPeriodDays = cartTrialDays(cart);
+
+  const partNumber = cartPartNumbers(cart);
+  const serviceSummary = body.serviceSummary || cartSummary(cart);
+  // Per billing period; monthlyAmount stays for monthly plans, for readers that predate `amount`.
+  const amount = (cart.totalCents / 100).toFixed(2);
+  const monthly = interval === "month" && intervalCount === 1;
+
+  const md: Record<string, string> = {
+    purchaseType: "subscription",
+    partNumber,
+    serviceSummary,
+    amount,
+    interval,
+    intervalCount: String(intervalCount),
+    ...(monthly ? { monthlyAmount: amount } : {}),
+
+    selectorPhone,
+    smsOptIn,
+    smsOptInTs,
+
+    ...(discount ? { promoCode, discount: discountId(discount) } : {}),
+    ...(trialPeriodDays ? { trialPeriodDays: String(trialPeriodDays) } : {}),
+
+    ...cartMetadata(cart),
+  };
 
-  const partNumber = String(body?.partNumber ?? "").trim();
-  const serviceSummary = String(body?.serviceSummary ?? "").trim();
-  const customerEmail = String(body?.customerEmail ?? "").trim();
+  const created = await stripeClient(env, log).createCheckoutSession({
+    mode: "subscription",
+    success_url: urls.successUrl,
+    cancel_url: urls.cancelUrl,
+    line_items: cartLineItems(cart, true),
+    customer_email: customerEmail || undefined,
+    discounts: discount ? [discount] : undefined,
+    allow_promotion_codes: !discount && config.allowPromotionCodes ? true : undefined,
+    // SESSION metadata
+    metadata: md,
+    // SUBSCRIPTION metadata
+    subscription_data: { metadata: md, trial_period_days: trialPeriodDays || undefined },
+  });
+  if (!created.ok) return stripeErrorResponse(created.error);
+
+  await recordCheckoutConsent(request, env, log, body, created.data.id);
+  return json({ url: created.data.url }, 200);
+}
 
-  // phone + sms opt-in from selector
-  const selectorPhone = String(body?.phone ?? "").trim();
-  const { smsOptIn, smsOptInBool } = parseSmsOptIn(body?.smsOptIn);
+// =====================================================
+// Create Stripe Checkout Session (one-time payment)
+// =====================================================
+async function handleCreateOneTimeCheckoutSession(request: Request, env: Env, log: Logger): Promise<Response> {
+  if (request.method !== "POST") return json({ error: "Method not allowed" }, 405);
+  if (!env.STRIPE_SECRET_KEY) return json({ error: "Missing STRIPE_SECRET_KEY" }, 500);
+
+  const parsed = await parseJsonBody(request, oneTimeCheckoutRequest(env.DEFAULT_PHONE_COUNTRY));
+  if (!parsed.ok) return fieldErrorResponse(parsed.errors);
+  const body: OneTimeCheckoutRequest = parsed.value;
+
+  const selectorPhone = body.phone;
+  const smsOptIn = body.smsOptIn ? "yes" : "no";
   const smsOptInTs = new Date().toISOString();
 
-  const monthlyAmountNum = Number(body?.monthlyAmount);
-  const amountCents = Math.round(monthlyAmountNum * 100);
+  const config = await loadConfig(env, log);
+  const urls = checkoutUrls(config, body);
+  if (!urls.ok) return fieldErrorResponse(urls.errors);
 
-  if (!partNumber) return json({ error: "Missing partNumber" }, 400, request);
-  if (!Number.isFinite(monthlyAmountNum) || amountCents <= 0) {
-    return json({ error: "monthlyAmount must be a positive number" }, 400, request);
-  }
+  // Prices come from the catalog; a client-sent oneTimeAmount is only cross-checked against the cart total.
+  const built = await buildCart(env.DB, config, body, "one_time");
+  if (!built.ok) return fieldErrorResponse(built.errors);
+  const cart = built.cart;
 
-  if (!selectorPhone || !isLikelyE164(selectorPhone)) {
-    return json({ error: "Missing or invalid phone (E.164 required)" }, 400, request);
-  }
+  const amountError = checkClientAmount("oneTimeAmount", body.oneTimeAmount, cart.totalCents);
+  if (amountError) return fieldErrorResponse([amountError]);
 
-  const params: Record<string, string> = {
-    mode: "subscription",
-    success_url: "https://r4homeservice.com/stripe-success?session_id={CHECKOUT_SESSION_ID}",
-    cancel_url: "https://r4homeservice.com/stripe-cancel",
+  const partNumber = cartPartNumbers(cart);
+  const serviceSummary = body.serviceSummary || cartSummary(cart);
+  const oneTimeAmount = (cart.totalCents / 100).toFixed(2);
 
-    "line_items[0][quantity]": "1",
-    "line_items[0][price_data][currency]": "usd",
-    "line_items[0][price_data][recurring][interval]": "month",
-    "line_items[0][price_data][unit_amount]": String(amountCents),
-    "line_items[0][price_data][product_data][name]": "R4 Home Service Plan",
-    "line_items[0][price_data][product_data][description]":
-      "Custom home service membership based on your selected services.",
+  const md: Record<string, string> = {
+    purchaseType: "one_time",
+    partNumber,
+    serviceSummary,
+    oneTimeAmount,
+    selectorPhone,
+    smsOptIn,
+    smsOptInTs,
 
+    ...cartMetadata(cart),
+  };
+
+  const created = await stripeClient(env, log).createCheckoutSession({
+    mode: "payment",
+    customer_creation: "always",
+    success_url: urls.successUrl,
+    cancel_url: urls.cancelUrl,
+    line_items: cartLineItems(cart, false),
+    customer_email: body.customerEmail,
     // SESSION metadata
-    "metadata[purchaseType]": "subscription",
-    "metadata[partNumber]": partNumber,
-    "metadata[serviceSummary]": serviceSummary,
-    "metadata[monthlyAmount]": monthlyAmountNum.toFixed(2),
+    metadata: md,
+    // PaymentIntent metadata (Stripe recommends this for payment mode)
+    payment_intent_data: { metadata: md },
+  });
+  if (!created.ok) return stripeErrorResponse(created.error);
 
-    "metadata[selectorPhone]": selectorPhone,
-    "metadata[smsOptIn]": smsOptIn,
-    "metadata[smsOptInTs]": smsOptInTs,
+  await recordCheckoutConsent(request, env, log, body, created.data.id);
+  return json({ url: created.data.url }, 200);
+}
 
-    // SUBSCRIPTION metadata
-    "subscription_data[metadata][purchaseType]": "subscription",
-    "subscription_data[metadata][partNumber]": partNumber,
-    "subscription_data[metadata][serviceSummary]": serviceSummary,
-    "subscription_data[metadata][monthlyAmount]": monthlyAmountNum.toFixed(2),
-
-    "subscription_data[metadata][selectorPhone]": selectorPhone,
-    "subscription_data[metadata][smsOptIn]": smsOptIn,
-    "subscription_data[metadata][smsOptInTs]": smsOptInTs,
-  };
+// success_url / cancel_url: the environment's defaults, or pre-approved pages picked by key.
+function checkoutUrls(
+  config: AppConfig,
+  body: CheckoutRequest | OneTimeCheckoutRequest
+): { ok: true; successUrl: string; cancelUrl: string } | { ok: false; errors: FieldError[] } {
+  const success = returnUrl(config, "successUrlKey", body.successUrlKey, config.checkoutSuccessUrl);
+  const cancel = returnUrl(config, "cancelUrlKey", body.cancelUrlKey, config.checkoutCancelUrl);
+  const errors = [success, cancel].flatMap((r) => (r.ok ? [] : [r.error]));
+  if (!success.ok || !cancel.ok) return { ok: false, errors };
+  return { ok: true, successUrl: withSessionId(success.url), cancelUrl: cancel.url };
+}
 
-  if (customerEmail) params["customer_email"] = customerEmail;
+// =====================================================
+// SMS consent (TCPA): opt-ins at checkout, opt-outs via STOP / unsubscribe
+// =====================================================
+// Held as pending until checkout.session.completed confirms it.
+async function recordCheckoutConsent(
+  request: Request,
+  env: Env,
+  log: Logger,
+  body: CheckoutRequest | OneTimeCheckoutRequest,
+  checkoutSessionId: string
+): Promise<void> {
+  if (!body.smsOptIn) return;
+
+  const ctx = requestContext(request);
+  const consentVersion = body.smsConsentVersion || env.SMS_CONSENT_VERSION || "";
+  if (!consentVersion) log.warn("SMS opt-in recorded without a consent version (set SMS_CONSENT_VERSION)");
+
+  await recordPendingConsent(env.DB, {
+    phone: body.phone,
+    consentVersion,
+    source: body.sourcePage || ctx.referer,
+    ip: ctx.ip,
+    userAgent: ctx.userAgent,
+    email: body.customerEmail,
+    checkoutSessionId,
+  });
+}
 
-  const stripeRes = await fetch("https://api.stripe.com/v1/checkout/sessions", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${env.STRIPE_SECRET_KEY}`,
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
-    body: new URLSearchParams(params),
+async function handleSmsOptOut(request: Request, env: Env, log: Logger): Promise<Response> {
+  if (request.method !== "POST") return json({ error: "Method not allowed" }, 405);
+
+  const parsed = await parseJsonBody(request, smsOptOutRequest(env.DEFAULT_PHONE_COUNTRY));
+  if (!parsed.ok) return fieldErrorResponse(parsed.errors);
+  const body: SmsOptOutRequest = parsed.value;
+
+  const ctx = requestContext(request);
+  const optedOutAt = new Date().toISOString();
+  await recordConsent(env.DB, {
+    phone: body.phone,
+    action: "opt_out",
+    source: body.source || ctx.referer || "web-unsubscribe",
+    ip: ctx.ip,
+    userAgent: ctx.userAgent,
   });
 
-  const stripeJson: any = await stripeRes.json().catch(() => null);
-  if (!stripeRes.ok) {
-    console.log("Stripe create subscription session failed:", stripeRes.status, stripeJson);
-    return json({ error: "Stripe error", details: stripeJson }, 400, request);
-  }
+  const customerIds = await markSmsOptOut(env.DB, body.phone);
+  log.info("SMS opt-out recorded", { customerIds, source: body.source || "" });
+
+  const result = await ghlUpsertContact(
+    env,
+    log,
+    {
+      email: "",
+      phone: body.phone,
+      name: "",
+      tags: [GHL_TAGS.smsOptOut],
+      removeTags: [GHL_TAGS.smsOptIn],
+      custom: { r4_sms_opt_in: "no", r4_sms_opt_out_ts: optedOutAt },
+    },
+    { customerId: customerIds[0] }
+  );
+  for (const id of customerIds) await recordGhlSync(env.DB, id, result);
 
-  return json({ url: stripeJson.url }, 200, request);
+  return json({ ok: true, ghl: result }, 200);
 }
 
 // =====================================================
-// Create Stripe Checkout Session (one-time payment)
+// Billing Portal
 // =====================================================
-async function handleCreateOneTimeCheckoutSession(request: Request, env: Env): Promise<Response> {
-  if (request.method !== "POST") return json({ error: "Method not allowed" }, 405, request);
-  if (!env.STRIPE_SECRET_KEY) return json({ error: "Missing STRIPE_SECRET_KEY" }, 500, request);
+// Step 1: send a one-time code to the email (or phone) on the Stripe customer.
+// The response is the same whether or not the email has an account.
+async function handleRequestBillingPortalCode(request: Request, env: Env, log: Logger): Promise<Response> {
+  if (request.method !== "POST") return json({ error: "Method not allowed" }, 405);
+  if (!env.STRIPE_SECRET_KEY) return json({ error: "Missing STRIPE_SECRET_KEY" }, 500);
+
+  const sender = getCodeSender(env);
+  if (!sender) return json({ error: "Verification sender not configured" }, 500);
+
+  const parsed = await parseJsonBody(request, portalCodeRequest);
+  if (!parsed.ok) return fieldErrorResponse(parsed.errors);
+  const body: PortalCodeRequest = parsed.value;
+
+  const email = body.email;
+  const requested = body.channel || "email";
+
+  const accepted = json({ ok: true, message: "If that email has an account, a code is on its way." }, 200);
+
+  const found = await stripeClient(env, log).findCustomersByEmail(email, PORTAL_CUSTOMER_CANDIDATES);
+  if (!found.ok) return stripeErrorResponse(found.error);
+  // Prefer the customer with a live subscription over one-time purchasers (newest first otherwise).
+  const subscribed = await findSubscribedCustomer(env.DB, found.data.map((c) => c.id));
+  const customer = found.data.find((c) => c.id === subscribed) ?? found.data[0];
+  if (!customer) {
+    log.info("Portal code requested for unknown email");
+    return accepted;
+  }
 
-  let body: any;
-  try {
-    body = await request.json();
-  } catch {
-    return json({ error: "Invalid JSON" }, 400, request);
+  // SMS goes to the phone on file; fall back to email when there isn't one.
+  const phone = canonicalPhone(customer.phone || customer.metadata?.selectorPhone, env.DEFAULT_PHONE_COUNTRY);
+  const channel: VerificationChannel = requested === "sms" && phone ? "sms" : "email";
+
+  const issued = await issuePortalCode(env.DB, { email, customerId: customer.id, channel });
+  if (!issued.ok) {
+    log.info("Portal code throttled", { customerId: customer.id, retryAfterSeconds: issued.retryAfterSeconds });
+    return accepted;
   }
 
-  const partNumber = String(body?.partNumber ?? "").trim();
-  const serviceSummary = String(body?.serviceSummary ?? "").trim();
+  const config = await loadConfig(env, log);
+  const sent = await sender(env, log, {
+    brandName: config.brandName,
+    channel,
+    to: channel === "sms" ? phone : email,
+    email,
+    code: issued.code,
+    expiresAt: issued.expiresAt,
+  });
+  // Same answer as for an unknown email, so the response doesn't reveal which emails have accounts.
+  if (!sent.ok) {
+    log.error("Portal code send failed", { customerId: customer.id, channel, error: sent.error });
+    return accepted;
+  }
 
-  const selectorPhone = String(body?.phone ?? "").trim();
-  const { smsOptIn } = parseSmsOptIn(body?.smsOptIn);
-  const smsOptInTs = new Date().toISOString();
+  log.info("Portal code sent", { customerId: customer.id, channel });
+  return accepted;
+}
 
-  const oneTimeAmountNum = Number(body?.oneTimeAmount);
-  const amountCents = Math.round(oneTimeAmountNum * 100);
+// Step 2: exchange email + code for a portal URL.
+async function handleCreateBillingPortal(request: Request, env: Env, log: Logger): Promise<Response> {
+  if (request.method !== "POST") return json({ error: "Method not allowed" }, 405);
+  if (!env.STRIPE_SECRET_KEY) return json({ error: "Missing STRIPE_SECRET_KEY" }, 500);
 
-  if (!partNumber) return json({ error: "Missing partNumber" }, 400, request);
-  if (!serviceSummary) return json({ error: "Missing serviceSummary" }, 400, request);
+  const parsed = await parseJsonBody(request, billingPortalRequest);
+  if (!parsed.ok) return fieldErrorResponse(parsed.errors);
+  const body: BillingPortalRequest = parsed.value;
 
-  if (!Number.isFinite(oneTimeAmountNum) || amountCents <= 0) {
-    return json({ error: "oneTimeAmount must be a positive number" }, 400, request);
-  }
+  // Checked before the code is spent, so a bad key doesn't burn it.
+  const config = await loadConfig(env, log);
+  const target = returnUrl(config, "returnUrlKey", body.returnUrlKey, config.portalReturnUrl);
+  if (!target.ok) return fieldErrorResponse([target.error]);
 
-  if (!selectorPhone || !isLikelyE164(selectorPhone)) {
-    return json({ error: "Missing or invalid phone (E.164 required)" }, 400, request);
-  }
+  const verified = await verifyPortalCode(env.DB, body.email, body.code.replace(/\s+/g, ""));
+  if (!verified.ok) return json({ error: "Invalid or expired code" }, 401);
 
-  const params: Record<string, string> = {
-    mode: "payment",
-    customer_creation: "always",
-    success_url: "https://r4homeservice.com/stripe-success?session_id={CHECKOUT_SESSION_ID}",
-    cancel_url: "https://r4homeservice.com/stripe-cancel",
+  const portal = await stripeClient(env, log).createBillingPortalSession({
+    customer: verified.customerId,
+    return_url: target.url,
+  });
+  if (!portal.ok) return stripeErrorResponse(portal.error);
 
-    "line_items[0][quantity]": "1",
-    "line_items[0][price_data][currency]": "usd",
-    "line_items[0][price_data][unit_amount]": String(amountCents),
-    "line_items[0][price_data][product_data][name]": "R4 Home Service — One-Time Visit",
-    "line_items[0][price_data][product_data][description]": serviceSummary,
+  return json({ url: portal.data.url }, 200);
+}
 
-    // SESSION metadata
-    "metadata[purchaseType]": "one_time",
-    "metadata[partNumber]": partNumber,
-    "metadata[serviceSummary]": serviceSummary,
-    "metadata[oneTimeAmount]": oneTimeAmountNum.toFixed(2),
-    "metadata[selectorPhone]": selectorPhone,
-    "metadata[smsOptIn]": smsOptIn,
-    "metadata[smsOptInTs]": smsOptInTs,
+// =====================================================
+// Member self-service: plan changes, pause, cancel (see src/member.ts)
+// =====================================================
+// Step 1: a portal code (POST /api/billing-portal/request-code) buys a short-lived bearer token.
+async function handleCreateMemberSession(request: Request, env: Env, log: Logger): Promise<Response> {
+  if (request.method !== "POST") return json({ error: "Method not allowed" }, 405);
 
-    // PaymentIntent metadata (Stripe recommends this for payment mode)
-    "payment_intent_data[metadata][purchaseType]": "one_time",
-    "payment_intent_data[metadata][partNumber]": partNumber,
-    "payment_intent_data[metadata][serviceSummary]": serviceSummary,
-    "payment_intent_data[metadata][oneTimeAmount]": oneTimeAmountNum.toFixed(2),
-    "payment_intent_data[metadata][selectorPhone]": selectorPhone,
-    "payment_intent_data[metadata][smsOptIn]": smsOptIn,
-    "payment_intent_data[metadata][smsOptInTs]": smsOptInTs,
-  };
+  const parsed = await parseJsonBody(request, memberSessionRequest);
+  if (!parsed.ok) return fieldErrorResponse(parsed.errors);
+  const body: MemberSessionRequest = parsed.value;
 
-  const stripeRes = await fetch("https://api.stripe.com/v1/checkout/sessions", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${env.STRIPE_SECRET_KEY}`,
-      "Content-Type": "application/x-www-form-urlencoded",
+  const verified = await verifyPortalCode(env.DB, body.email, body.code.replace(/\s+/g, ""));
+  if (!verified.ok) return json({ error: "Invalid or expired code" }, 401);
+
+  const session = await issueMemberSession(env.DB, { email: body.email, customerId: verified.customerId });
+  log.info("Member session issued", { customerId: verified.customerId });
+  return json(session, 200);
+}
+
+// Step 2: every other member route sends Authorization: Bearer <token>.
+async function handleGetMemberSubscription(request: Request, env: Env, log: Logger): Promise<Response> {
+  if (request.method !== "GET") return json({ error: "Method not allowed" }, 405);
+  if (!env.STRIPE_SECRET_KEY) return json({ error: "Missing STRIPE_SECRET_KEY" }, 500);
+
+  const member = await authenticateMember(env.DB, request);
+  if (!member) return memberUnauthorized();
+
+  const listed = await listMemberSubscriptions(stripeClient(env, log), member.customerId);
+  if (!listed.ok) return stripeErrorResponse(listed.error);
+
+  return json({ subscriptions: listed.subscriptions.map(memberSubscriptionView) }, 200);
+}
+
+// Nothing changes yet; the returned prorationDate goes back with the change.
+async function handlePreviewSubscriptionChange(request: Request, env: Env, log: Logger): Promise<Response> {
+  if (request.method !== "POST") return json({ error: "Method not allowed" }, 405);
+  if (!env.STRIPE_SECRET_KEY) return json({ error: "Missing STRIPE_SECRET_KEY" }, 500);
+
+  const member = await authenticateMember(env.DB, request);
+  if (!member) return memberUnauthorized();
+
+  const parsed = await parseJsonBody(request, subscriptionPreviewRequest);
+  if (!parsed.ok) return fieldErrorResponse(parsed.errors);
+  const body: SubscriptionPreviewRequest = parsed.value;
+
+  const planned = await planSubscriptionChange(env, log, member, body);
+  if (!planned.ok) return planned.response;
+  const { sub, cart } = planned;
+
+  const prorationDate = Math.floor(Date.now() / 1000);
+  const preview = await stripeClient(env, log).createInvoicePreview({
+    customer: member.customerId,
+    subscription: sub.id,
+    subscription_details: {
+      items: swapItems(sub, cart),
+      proration_behavior: "create_prorations",
+      proration_date: prorationDate,
     },
-    body: new URLSearchParams(params),
   });
+  if (!preview.ok) return stripeErrorResponse(preview.error);
 
-  const stripeJson: any = await stripeRes.json().catch(() => null);
-  if (!stripeRes.ok) {
-    console.log("Stripe create one-time session failed:", stripeRes.status, stripeJson);
-    return json({ error: "Stripe error", details: stripeJson }, 400, request);
-  }
+  const lines = preview.data.lines?.data || [];
+  const prorationCents = lines.filter((l) => l.proration).reduce((sum, l) => sum + l.amount, 0);
 
-  return json({ url: stripeJson.url }, 200, request);
+  return json(
+    {
+      subscriptionId: sub.id,
+      prorationDate,
+      current: memberSubscriptionView(sub),
+      plan: cartPlan(cart),
+      // Credit for the unused part of the current plan plus the new plan's remaining time.
+      prorationAmount: (prorationCents / 100).toFixed(2),
+      // The next invoice, prorations included.
+      amountDue: (preview.data.amount_due / 100).toFixed(2),
+      currency: preview.data.currency,
+    },
+    200
+  );
 }
 
-// =====================================================
-// Billing Portal
-// =====================================================
-async function handleCreateBillingPortal(request: Request, env: Env): Promise<Response> {
-  if (request.method !== "POST") return json({ error: "Method not allowed" }, 405, request);
-  if (!env.STRIPE_SECRET_KEY) return json({ error: "Missing STRIPE_SECRET_KEY" }, 500, request);
+async function handleChangeSubscription(request: Request, env: Env, log: Logger): Promise<Response> {
+  if (request.method !== "POST") return json({ error: "Method not allowed" }, 405);
+  if (!env.STRIPE_SECRET_KEY) return json({ error: "Missing STRIPE_SECRET_KEY" }, 500);
 
-  let body: any;
-  try {
-    body = await request.json();
-  } catch {
-    return json({ error: "Invalid JSON" }, 400, request);
+  const member = await authenticateMember(env.DB, request);
+  if (!member) return memberUnauthorized();
+
+  const parsed = await parseJsonBody(request, subscriptionChangeRequest);
+  if (!parsed.ok) return fieldErrorResponse(parsed.errors);
+  const body: SubscriptionChangeRequest = parsed.value;
+
+  const planned = await planSubscriptionChange(env, log, member, body);
+  if (!planned.ok) return planned.response;
+  const { sub, cart } = planned;
+  const plan = cartPlan(cart);
+  const fromPartNumber = sub.metadata?.partNumber || "";
+
+  const updated = await stripeClient(env, log).updateSubscription(sub.id, {
+    items: swapItems(sub, cart),
+    proration_behavior: "create_prorations",
+    proration_date: body.prorationDate,
+    metadata: swapMetadata(sub, cart),
+  });
+  if (!updated.ok) return stripeErrorResponse(updated.error);
+
+  const customerId = member.customerId;
+  const actions: string[] = [];
+
+  const ok = await stripeUpdateCustomerMetadata(env, log, customerId, {
+    partNumber: plan.partNumber,
+    serviceSummary: plan.serviceSummary,
+    amount: plan.amount,
+    billingCadence: plan.cadence,
+    monthlyAmount: plan.monthlyAmount,
+  });
+  actions.push(`stripe.customer.metadata ${customerId}: ${ok ? "ok" : "failed"}`);
+
+  await upsertSubscription(env.DB, {
+    id: sub.id,
+    customerId,
+    partNumber: plan.partNumber,
+    serviceSummary: plan.serviceSummary,
+    amountCents: cart.totalCents,
+    interval: plan.interval,
+    intervalCount: plan.intervalCount,
+  });
+  await recordSubscriptionChange(env.DB, {
+    subscriptionId: sub.id,
+    customerId,
+    action: "change",
+    fromPartNumber,
+    toPartNumber: plan.partNumber,
+    amountCents: cart.totalCents,
+  });
+  actions.push(`d1.subscriptions ${sub.id}`);
+
+  await syncLifecycleToGhl(env, log, actions, customerId, {
+    tags: [],
+    removeTags: [],
+    custom: {
+      stripe_subscription_id: sub.id,
+      r4_part_number: plan.partNumber,
+      r4_service_summary: plan.serviceSummary,
+      r4_amount: plan.amount,
+      r4_billing_interval: plan.cadence,
+      r4_monthly_amount: plan.monthlyAmount,
+    },
+  });
+
+  log.info("Member changed plan", {
+    customerId,
+    subscriptionId: sub.id,
+    fromPartNumber,
+    toPartNumber: plan.partNumber,
+    actions,
+  });
+  return json({ ok: true, subscription: memberSubscriptionView(updated.data) }, 200);
+}
+
+// Collection stops (invoices are voided) and Stripe resumes it on the date itself.
+async function handlePauseSubscription(request: Request, env: Env, log: Logger): Promise<Response> {
+  if (request.method !== "POST") return json({ error: "Method not allowed" }, 405);
+  if (!env.STRIPE_SECRET_KEY) return json({ error: "Missing STRIPE_SECRET_KEY" }, 500);
+
+  const member = await authenticateMember(env.DB, request);
+  if (!member) return memberUnauthorized();
+
+  const parsed = await parseJsonBody(request, subscriptionPauseRequest);
+  if (!parsed.ok) return fieldErrorResponse(parsed.errors);
+  const body: SubscriptionPauseRequest = parsed.value;
+
+  const found = await memberSubscription(env, log, member, body.subscriptionId);
+  if (!found.ok) return found.response;
+  const sub = found.sub;
+  // A past-due subscription has to be paid up first.
+  if (sub.status !== "active" && sub.status !== "trialing") {
+    return json({ error: "Only an active subscription can be paused", status: sub.status }, 409);
   }
 
-  const email = String(body?.email ?? "").trim().toLowerCase();
-  if (!email) return json({ error: "Missing email" }, 400, request);
+  // Whole seconds, so the date we report is the one Stripe stores.
+  const resumesAt = Math.floor(addMonths(new Date(), body.months).getTime() / 1000);
+  const pausedUntil = unixToIso(resumesAt);
+  const pausedAt = new Date().toISOString();
 
-  const listRes = await fetch(
-    "https://api.stripe.com/v1/customers?limit=1&email=" + encodeURIComponent(email),
-    { headers: { Authorization: `Bearer ${env.STRIPE_SECRET_KEY}` } }
-  );
+  const updated = await stripeClient(env, log).updateSubscription(sub.id, {
+    pause_collection: { behavior: "void", resumes_at: resumesAt },
+    metadata: { pausedUntil, pauseMonths: String(body.months) },
+  });
+  if (!updated.ok) return stripeErrorResponse(updated.error);
 
-  const listJson: any = await listRes.json().catch(() => null);
-  if (!listRes.ok) return json({ error: "Stripe error", details: listJson }, 400, request);
+  const customerId = member.customerId;
+  const actions: string[] = [];
 
-  const customerId = listJson?.data?.[0]?.id ? String(listJson.data[0].id) : "";
-  if (!customerId) return json({ error: "No Stripe customer found for that email." }, 404, request);
+  const ok = await stripeUpdateCustomerMetadata(env, log, customerId, {
+    subscriptionPausedAt: pausedAt,
+    pausedUntil,
+  });
+  actions.push(`stripe.customer.metadata ${customerId}: ${ok ? "ok" : "failed"}`);
+
+  await recordSubscriptionChange(env.DB, {
+    subscriptionId: sub.id,
+    customerId,
+    action: "pause",
+    fromPartNumber: sub.metadata?.partNumber,
+    pausedUntil,
+  });
 
-  const form = new URLSearchParams();
-  form.set("customer", customerId);
-  form.set("return_url", "https://r4homeservice.com/manage");
+  const statusTags = subscriptionStatusTags("paused");
+  await syncLifecycleToGhl(env, log, actions, customerId, {
+    tags: statusTags.add,
+    removeTags: statusTags.remove,
+    custom: {
+      stripe_subscription_id: sub.id,
+      r4_paused_at: pausedAt,
+      r4_paused_until: pausedUntil,
+    },
+  });
 
-  const portalRes = await fetch("https://api.stripe.com/v1/billing_portal/sessions", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${env.STRIPE_SECRET_KEY}`,
-      "Content-Type": "application/x-www-form-urlencoded",
+  log.info("Member paused subscription", { customerId, subscriptionId: sub.id, months: body.months, pausedUntil, actions });
+  return json({ ok: true, subscription: memberSubscriptionView(updated.data) }, 200);
+}
+
+// The member keeps the plan until the period they paid for ends.
+async function handleCancelSubscription(request: Request, env: Env, log: Logger): Promise<Response> {
+  if (request.method !== "POST") return json({ error: "Method not allowed" }, 405);
+  if (!env.STRIPE_SECRET_KEY) return json({ error: "Missing STRIPE_SECRET_KEY" }, 500);
+
+  const member = await authenticateMember(env.DB, request);
+  if (!member) return memberUnauthorized();
+
+  const parsed = await parseJsonBody(request, subscriptionCancelRequest);
+  if (!parsed.ok) return fieldErrorResponse(parsed.errors);
+  const body: SubscriptionCancelRequest = parsed.value;
+
+  const found = await memberSubscription(env, log, member, body.subscriptionId);
+  if (!found.ok) return found.response;
+  const sub = found.sub;
+
+  const updated = await stripeClient(env, log).updateSubscription(sub.id, {
+    cancel_at_period_end: true,
+    cancellation_details: { feedback: body.reason, comment: body.comment },
+    metadata: { cancelReason: body.reason },
+  });
+  if (!updated.ok) return stripeErrorResponse(updated.error);
+  const view = memberSubscriptionView(updated.data);
+
+  const customerId = member.customerId;
+  const actions: string[] = [];
+
+  const ok = await stripeUpdateCustomerMetadata(env, log, customerId, {
+    cancelAtPeriodEnd: "true",
+    cancelReason: body.reason,
+    currentPeriodEnd: view.currentPeriodEnd,
+  });
+  actions.push(`stripe.customer.metadata ${customerId}: ${ok ? "ok" : "failed"}`);
+
+  await upsertSubscription(env.DB, {
+    id: sub.id,
+    customerId,
+    cancelAtPeriodEnd: true,
+    currentPeriodEnd: view.currentPeriodEnd,
+  });
+  await recordSubscriptionChange(env.DB, {
+    subscriptionId: sub.id,
+    customerId,
+    action: "cancel",
+    fromPartNumber: sub.metadata?.partNumber,
+    reason: body.reason,
+    comment: body.comment,
+  });
+  actions.push(`d1.subscriptions ${sub.id}`);
+
+  await syncLifecycleToGhl(env, log, actions, customerId, {
+    tags: [GHL_TAGS.cancelPending],
+    removeTags: [],
+    custom: {
+      stripe_subscription_id: sub.id,
+      r4_cancel_at_period_end: "true",
+      r4_cancel_reason: body.reason,
+      r4_cancel_comment: body.comment || "",
+      r4_current_period_end: view.currentPeriodEnd,
     },
-    body: form,
   });
 
-  const portalJson: any = await portalRes.json().catch(() => null);
-  if (!portalRes.ok) return json({ error: "Stripe error", details: portalJson }, 400, request);
+  log.info("Member canceled at period end", { customerId, subscriptionId: sub.id, reason: body.reason, actions });
+  return json({ ok: true, subscription: view }, 200);
+}
+
+function memberUnauthorized(): Response {
+  return json({ error: "Sign-in expired. Request a new code." }, 401);
+}
+
+async function memberSubscription(
+  env: Env,
+  log: Logger,
+  member: MemberSession,
+  subscriptionId: string | undefined
+): Promise<{ ok: true; sub: StripeSubscription } | { ok: false; response: Response }> {
+  const found = await findMemberSubscription(stripeClient(env, log), member.customerId, subscriptionId);
+  if (!found.ok) return { ok: false, response: stripeErrorResponse(found.error) };
+  if (!found.subscription) return { ok: false, response: json({ error: "No active subscription" }, 404) };
+  return { ok: true, sub: found.subscription };
+}
+
+// Shared by preview and change: price the new bundle, find the subscription,
+// make sure the catalog products exist.
+async function planSubscriptionChange(
+  env: Env,
+  log: Logger,
+  member: MemberSession,
+  body: SubscriptionPreviewRequest
+): Promise<{ ok: true; sub: StripeSubscription; cart: Cart } | { ok: false; response: Response }> {
+  const config = await loadConfig(env, log);
+  const built = await buildCart(env.DB, config, body, "subscription");
+  if (!built.ok) return { ok: false, response: fieldErrorResponse(built.errors) };
+
+  const found = await memberSubscription(env, log, member, body.subscriptionId);
+  if (!found.ok) return found;
+
+  const products = await ensureCatalogProducts(stripeClient(env, log), built.cart);
+  if (!products.ok) return { ok: false, response: stripeErrorResponse(products.error) };
 
-  return json({ url: portalJson.url }, 200, request);
+  return { ok: true, sub: found.sub, cart: built.cart };
 }
 
 // =====================================================
 // Stripe Webhook (signature verified) + lifecycle + GHL upsert
 // =====================================================
-async function handleStripeWebhook(request: Request, env: Env): Promise<Response> {
+async function handleStripeWebhook(request: Request, env: Env, requestLog: Logger): Promise<Response> {
   if (request.method !== "POST") return new Response("Method not allowed", { status: 405 });
   if (!env.STRIPE_WEBHOOK_SECRET) return new Response("Missing STRIPE_WEBHOOK_SECRET", { status: 500 });
   if (!env.STRIPE_SECRET_KEY) return new Response("Missing STRIPE_SECRET_KEY", { status: 500 });
@@ -321,8 +950,13 @@ async function handleStripeWebhook(request: Request, env: Env): Promise<Response
   const rawBuf = await request.arrayBuffer();
   const rawBody = new TextDecoder("utf-8").decode(rawBuf);
 
-  const verified = await verifyStripeSignature(rawBody, sig, env.STRIPE_WEBHOOK_SECRET);
-  if (!verified) return new Response("Invalid signature", { status: 400 });
+  const verified = await verifyStripeSignature(rawBody, sig, parseWebhookSecrets(env.STRIPE_WEBHOOK_SECRET), {
+    toleranceSeconds: parseToleranceSeconds(env.STRIPE_WEBHOOK_TOLERANCE_SECONDS),
+  });
+  if (!verified.ok) {
+    requestLog.warn("Stripe signature rejected", { reason: verified.reason });
+    return new Response(`Invalid signature: ${verified.reason}`, { status: 400 });
+  }
 
   let event: any;
   try {
@@ -331,10 +965,46 @@ async function handleStripeWebhook(request: Request, env: Env): Promise<Response
     return new Response("Invalid JSON", { status: 400 });
   }
 
+  const eventId = String(event?.id || "");
   const type = String(event?.type || "");
-  const obj = event?.data?.object;
+  if (!eventId) return new Response("Missing event id", { status: 400 });
+
+  // Every line logged for this delivery carries the event id.
+  const log = requestLog.child({ eventId, eventType: type });
+  log.info("Stripe event received");
+
+  // Idempotency: Stripe retries deliveries, so only run side effects once per event id.
+  const claim = await claimStripeEvent(env.DB, eventId, type);
+  if (claim === "duplicate") {
+    log.info("Stripe event already processed, skipping");
+    return new Response("ok (duplicate)", { status: 200 });
+  }
+  if (claim === "in_progress") {
+    log.warn("Stripe event already in progress elsewhere");
+    // Another delivery of this event is mid-flight; a non-2xx makes Stripe retry later.
+    return new Response("Event already in progress", { status: 409 });
+  }
 
-  console.log("Stripe event:", type);
+  // Audit log of side effects, stored on the ledger row.
+  const actions: string[] = [];
+  try {
+    await processStripeEvent(env, log, event, actions);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    log.error("Stripe event processing failed", { error: message, actions });
+    await failStripeEvent(env.DB, eventId, message, actions);
+    return new Response("Event processing failed", { status: 500 });
+  }
+
+  await completeStripeEvent(env.DB, eventId, actions);
+  log.info("Stripe event processed", { actions });
+  return new Response("ok", { status: 200 });
+}
+
+async function processStripeEvent(env: Env, log: Logger, event: any, actions: string[]): Promise<void> {
+  const type = String(event?.type || "");
+  const obj = event?.data?.object;
+  const eventCreated = Number(event?.created) || Math.floor(Date.now() / 1000);
 
   if (type === "checkout.session.completed") {
     const session = obj;
@@ -348,13 +1018,21 @@ async function handleStripeWebhook(request: Request, env: Env): Promise<Response
 
     const partNumber = String(md.partNumber || "");
     const serviceSummary = String(md.serviceSummary || "");
-    const monthlyAmount = String(md.monthlyAmount || "");
+    const { amount, interval, intervalCount, cadence, monthlyAmount } = parseCadenceMetadata(md);
     const oneTimeAmount = String(md.oneTimeAmount || "");
 
-    const selectorPhone = String(md.selectorPhone || "").trim();
+    const selectorPhone = canonicalPhone(md.selectorPhone, env.DEFAULT_PHONE_COUNTRY);
     const smsOptIn = String(md.smsOptIn || "").trim();     // "yes" | "no"
     const smsOptInTs = String(md.smsOptInTs || "").trim(); // ISO string
 
+    // Our allowlisted promoCode, else whatever the customer entered on Stripe's page (ids only).
+    const typedDiscount = Array.isArray(session?.discounts) ? session.discounts[0] : null;
+    const promoCode = String(md.promoCode || typedDiscount?.promotion_code || typedDiscount?.coupon || "");
+    const discountCents = Number(session?.total_details?.amount_discount) || 0;
+    const discountAmount = discountCents > 0 ? (discountCents / 100).toFixed(2) : "";
+    const trialPeriodDays = String(md.trialPeriodDays || "");
+    const subscriptionStatus = Number(trialPeriodDays) > 0 ? "trialing" : "active";
+
     let email = String(
       session?.customer_details?.email ||
         session?.customer_email ||
@@ -363,66 +1041,143 @@ async function handleStripeWebhook(request: Request, env: Env): Promise<Response
     ).trim();
 
     // Use Stripe phone if present, else fall back to selector metadata phone
-    let phone = String(session?.customer_details?.phone || "").trim();
+    let phone = canonicalPhone(session?.customer_details?.phone, env.DEFAULT_PHONE_COUNTRY);
     if (!phone && selectorPhone) phone = selectorPhone;
 
     let name = String(session?.customer_details?.name || "").trim();
 
     // If missing email/name still, try Stripe customer
     if ((!email || !name || !phone) && customerId) {
-      const cust = await stripeGetCustomer(env.STRIPE_SECRET_KEY, customerId);
+      const cust = await stripeGetCustomer(env, log, customerId);
       if (!email) email = String(cust?.email || "").trim();
       if (!name) name = String(cust?.name || "").trim();
-      if (!phone) phone = String(cust?.phone || "").trim();
+      if (!phone) phone = canonicalPhone(cust?.phone, env.DEFAULT_PHONE_COUNTRY);
+    }
+
+    // Record exactly what was bought (one row per Stripe line item)
+    const purchasedLines = parseCartMetadata(md);
+    if (purchasedLines.length && session?.id) {
+      await recordCheckoutLines(env.DB, String(session.id), purchaseType, purchasedLines);
+      actions.push(`d1.checkout_line_items ${session.id}: ${purchasedLines.length} line(s)`);
+    }
+
+    // The opt-in given at checkout only enters the consent log now the purchase went through.
+    if (session?.id && (await confirmPendingConsent(env.DB, String(session.id)))) {
+      actions.push(`d1.sms_consent_log ${session.id}: opt_in`);
+    }
+
+    // Local mirror
+    if (customerId) {
+      await upsertCustomer(env.DB, {
+        id: customerId,
+        email,
+        name,
+        phone,
+        smsOptIn,
+        lastPurchaseType: purchaseType,
+        lastCheckoutSession: String(session?.id || ""),
+      });
+      actions.push(`d1.customers ${customerId}`);
+    }
+    if (subscriptionId) {
+      await upsertSubscription(env.DB, {
+        id: subscriptionId,
+        customerId,
+        status: subscriptionStatus,
+        partNumber,
+        serviceSummary,
+        amountCents: amount ? Math.round(Number(amount) * 100) : null,
+        interval: interval || null,
+        intervalCount: interval ? intervalCount : null,
+        eventCreated,
+      });
+      actions.push(`d1.subscriptions ${subscriptionId}`);
+    }
+    if (session?.id) {
+      await recordPurchase(env.DB, {
+        sessionId: String(session.id),
+        purchaseType,
+        customerId,
+        subscriptionId,
+        partNumber,
+        serviceSummary,
+        amountCents: Number.isFinite(Number(session?.amount_total)) ? Number(session.amount_total) : null,
+        currency: String(session?.currency || ""),
+        paymentStatus: String(session?.payment_status || ""),
+      });
+      actions.push(`d1.purchases ${session.id}`);
     }
 
     // Update Stripe Customer metadata
     if (customerId) {
-      await stripeUpdateCustomerMetadata(env.STRIPE_SECRET_KEY, customerId, {
+      const ok = await stripeUpdateCustomerMetadata(env, log, customerId, {
         partNumber,
         serviceSummary,
-        monthlyAmount: monthlyAmount || "",
+        amount,
+        billingCadence: cadence,
+        monthlyAmount,
         oneTimeAmount: oneTimeAmount || "",
         purchaseType,
         stripeCustomerId: customerId,
         stripeSubscriptionId: subscriptionId,
-        subscriptionStatus: subscriptionId ? "active" : "n/a",
+        subscriptionStatus: subscriptionId ? subscriptionStatus : "n/a",
         lastCheckoutSession: String(session?.id || ""),
         selectorPhone: selectorPhone || phone,
         smsOptIn,
         smsOptInTs,
+        promoCode,
       });
+      actions.push(`stripe.customer.metadata ${customerId}: ${ok ? "ok" : "failed"}`);
     }
 
     // Build tags for GHL
     const tags: string[] = [];
-    if (purchaseType === "subscription") tags.push("R4-Subscriber");
-    if (purchaseType === "one_time") tags.push("R4-OneTime");
-    if (smsOptIn === "yes") tags.push("SMS-OptIn");
+    if (purchaseType === "subscription") tags.push(GHL_TAGS.subscriber);
+    if (purchaseType === "one_time") tags.push(GHL_TAGS.oneTime);
+    if (smsOptIn === "yes") tags.push(GHL_TAGS.smsOptIn);
+    // A returning member who re-subscribes is no longer canceled / past due.
+    const removeTags = purchaseType === "subscription" ? subscriptionStatusTags(subscriptionStatus).remove : [];
+    // Opting in again at checkout supersedes an earlier STOP.
+    if (smsOptIn === "yes") removeTags.push(GHL_TAGS.smsOptOut);
 
     if (!email && !phone) {
-      console.log("Skipping GHL upsert: no email/phone available from Stripe session/customer.");
+      log.warn("Skipping GHL upsert: no email/phone available from Stripe session/customer", { customerId });
+      actions.push("ghl.upsert: skipped (no email/phone)");
+      if (customerId) await recordGhlSync(env.DB, customerId, "skipped");
     } else {
-      await ghlUpsertContact(env, {
-        email,
-        phone,
-        name,
-        tags,
-        custom: {
-          r4_part_number: partNumber,
-          r4_service_summary: serviceSummary,
-          r4_monthly_amount: monthlyAmount,
-          stripe_customer_id: customerId,
-          stripe_subscription_id: subscriptionId,
-          stripe_subscription_status: subscriptionId ? "active" : "n/a",
-          r4_customer_phone: phone,
-          r4_sms_opt_in: smsOptIn,
-          r4_sms_opt_in_ts: smsOptInTs,
-          // Optional convenience fields:
-          r4_purchase_type: purchaseType,
-          r4_one_time_amount: oneTimeAmount,
+      const result = await ghlUpsertContact(
+        env,
+        log,
+        {
+          email,
+          phone,
+          name,
+          tags,
+          removeTags,
+          custom: {
+            r4_part_number: partNumber,
+            r4_service_summary: serviceSummary,
+            r4_monthly_amount: monthlyAmount,
+            r4_amount: amount,
+            r4_billing_interval: cadence,
+            stripe_customer_id: customerId,
+            stripe_subscription_id: subscriptionId,
+            stripe_subscription_status: subscriptionId ? subscriptionStatus : "n/a",
+            r4_customer_phone: phone,
+            r4_sms_opt_in: smsOptIn,
+            r4_sms_opt_in_ts: smsOptInTs,
+            // Optional convenience fields:
+            r4_purchase_type: purchaseType,
+            r4_one_time_amount: oneTimeAmount,
+            r4_promo_code: promoCode,
+            r4_discount_amount: discountAmount,
+            r4_trial_period_days: trialPeriodDays,
+          },
         },
-      });
+        { customerId, eventCreated }
+      );
+      actions.push(`ghl.upsert: ${result}`);
+      if (customerId) await recordGhlSync(env.DB, customerId, result);
     }
   }
 
@@ -442,15 +1197,52 @@ async function handleStripeWebhook(request: Request, env: Env): Promise<Response
         : new Date().toISOString();
 
     if (customerId) {
-      await stripeUpdateCustomerMetadata(env.STRIPE_SECRET_KEY, customerId, {
+      const ok = await stripeUpdateCustomerMetadata(env, log, customerId, {
         lastInvoiceId: invoiceId,
         lastInvoicePaidAt: paidAt,
         lastInvoiceAmount: amountPaid,
         stripeSubscriptionId: subscriptionId,
+        paymentStatus: "paid",
+      });
+      actions.push(`stripe.customer.metadata ${customerId}: ${ok ? "ok" : "failed"}`);
+    }
+
+    if (invoiceId) {
+      await upsertInvoice(env.DB, {
+        id: invoiceId,
+        customerId,
+        subscriptionId,
+        status: String(invoice?.status || "paid"),
+        amountPaidCents,
+        currency: String(invoice?.currency || ""),
+        paidAt,
+      });
+      actions.push(`d1.invoices ${invoiceId}`);
+
+      if (await resolveBillingIssue(env.DB, "payment_failed", invoiceId)) {
+        actions.push(`d1.billing_issues payment_failed ${invoiceId}: resolved`);
+      }
+    }
+
+    if (customerId && subscriptionId) {
+      // A successful renewal clears any past-due / payment-failed state in GHL.
+      const statusTags = subscriptionStatusTags("active");
+      await syncLifecycleToGhl(env, log, actions, customerId, {
+        eventCreated,
+        tags: statusTags.add,
+        removeTags: [...statusTags.remove, GHL_TAGS.paymentFailed],
+        custom: {
+          stripe_subscription_id: subscriptionId,
+          stripe_subscription_status: "active",
+          r4_payment_status: "paid",
+          r4_last_payment_amount: amountPaid,
+          r4_last_payment_at: paidAt,
+          r4_last_invoice_id: invoiceId,
+        },
       });
     }
 
-    console.log("Invoice paid:", { invoiceId, amountPaid, subscriptionId, customerId });
+    log.info("Invoice paid", { invoiceId, amountPaid, subscriptionId, customerId });
   }
 
   if (type === "customer.subscription.updated") {
@@ -459,19 +1251,62 @@ async function handleStripeWebhook(request: Request, env: Env): Promise<Response
     const customerId = sub?.customer ? String(sub.customer) : "";
     const status = String(sub?.status || "");
     const cancelAtPeriodEnd = Boolean(sub?.cancel_at_period_end);
+    // pause_collection leaves the status "active"; GHL still shows the member as paused.
+    const pausedUntil = unixToIso(sub?.pause_collection?.resumes_at);
+    const paused = Boolean(sub?.pause_collection) && status === "active";
+    const recurring = sub?.items?.data?.[0]?.price?.recurring;
+    const cadence = recurring?.interval ? billingCadence(String(recurring.interval), Number(recurring.interval_count) || 1) : "";
 
     const currentPeriodEnd =
       sub?.current_period_end ? new Date(Number(sub.current_period_end) * 1000).toISOString() : "";
 
     if (customerId) {
-      await stripeUpdateCustomerMetadata(env.STRIPE_SECRET_KEY, customerId, {
+      const ok = await stripeUpdateCustomerMetadata(env, log, customerId, {
         subscriptionStatus: status,
         cancelAtPeriodEnd: String(cancelAtPeriodEnd),
         currentPeriodEnd,
       });
+      actions.push(`stripe.customer.metadata ${customerId}: ${ok ? "ok" : "failed"}`);
+    }
+
+    if (sub?.id) {
+      await upsertSubscription(env.DB, {
+        id: String(sub.id),
+        customerId,
+        status,
+        partNumber: String(sub?.metadata?.partNumber || ""),
+        interval: recurring?.interval ? String(recurring.interval) : "",
+        intervalCount: recurring?.interval ? Number(recurring.interval_count) || 1 : null,
+        cancelAtPeriodEnd,
+        currentPeriodEnd,
+        eventCreated,
+      });
+      actions.push(`d1.subscriptions ${sub.id}`);
+
+      if (status === "active" && (await resolveBillingIssue(env.DB, "subscription_paused", String(sub.id)))) {
+        actions.push(`d1.billing_issues subscription_paused ${sub.id}: resolved`);
+      }
+    }
+
+    if (customerId) {
+      const statusTags = subscriptionStatusTags(paused ? "paused" : status);
+      const pending = GHL_TAGS.cancelPending;
+      await syncLifecycleToGhl(env, log, actions, customerId, {
+        eventCreated,
+        tags: cancelAtPeriodEnd ? [...statusTags.add, pending] : statusTags.add,
+        removeTags: cancelAtPeriodEnd ? statusTags.remove : [...statusTags.remove, pending],
+        custom: {
+          stripe_subscription_id: String(sub?.id || ""),
+          stripe_subscription_status: status,
+          r4_cancel_at_period_end: String(cancelAtPeriodEnd),
+          r4_current_period_end: currentPeriodEnd,
+          r4_billing_interval: cadence,
+          r4_paused_until: pausedUntil,
+        },
+      });
     }
 
-    console.log("Subscription updated:", { customerId, status, cancelAtPeriodEnd, currentPeriodEnd });
+    log.info("Subscription updated", { customerId, status, cancelAtPeriodEnd, currentPeriodEnd });
   }
 
   if (type === "customer.subscription.deleted") {
@@ -479,185 +1314,434 @@ async function handleStripeWebhook(request: Request, env: Env): Promise<Response
     const customerId = sub?.customer ? String(sub.customer) : "";
 
     if (customerId) {
-      await stripeUpdateCustomerMetadata(env.STRIPE_SECRET_KEY, customerId, {
+      const ok = await stripeUpdateCustomerMetadata(env, log, customerId, {
         subscriptionStatus: "canceled",
         cancelAtPeriodEnd: "false",
       });
+      actions.push(`stripe.customer.metadata ${customerId}: ${ok ? "ok" : "failed"}`);
+    }
+
+    if (sub?.id) {
+      await upsertSubscription(env.DB, {
+        id: String(sub.id),
+        customerId,
+        status: "canceled",
+        cancelAtPeriodEnd: false,
+        canceledAt: sub?.canceled_at
+          ? new Date(Number(sub.canceled_at) * 1000).toISOString()
+          : new Date().toISOString(),
+        eventCreated,
+      });
+      actions.push(`d1.subscriptions ${sub.id}`);
+    }
+
+    if (customerId) {
+      const statusTags = subscriptionStatusTags("canceled");
+      await syncLifecycleToGhl(env, log, actions, customerId, {
+        eventCreated,
+        tags: statusTags.add,
+        removeTags: statusTags.remove,
+        custom: {
+          stripe_subscription_id: String(sub?.id || ""),
+          stripe_subscription_status: "canceled",
+          r4_cancel_at_period_end: "false",
+          r4_canceled_at: sub?.canceled_at
+            ? new Date(Number(sub.canceled_at) * 1000).toISOString()
+            : new Date().toISOString(),
+        },
+      });
     }
 
-    console.log("Subscription deleted:", { customerId });
+    log.info("Subscription deleted", { customerId });
   }
 
-  return new Response("ok", { status: 200 });
-}
+  if (type === "invoice.payment_failed") {
+    const invoice = obj;
 
-// =====================================================
-// GoHighLevel: Contacts Upsert (better error logging)
-// =====================================================
-async function ghlUpsertContact(
-  env: Env,
-  input: {
-    email: string;
-    phone: string;
-    name: string;
-    tags: string[];
-    custom: Record<string, string>;
+    const customerId = invoice?.customer ? String(invoice.customer) : "";
+    const subscriptionId = invoice?.subscription ? String(invoice.subscription) : "";
+
+    const invoiceId = String(invoice?.id || "");
+    const amountDueCents = Number(invoice?.amount_due ?? 0);
+    const amountDue = (amountDueCents / 100).toFixed(2);
+    const attemptCount = Number(invoice?.attempt_count ?? 0);
+    const nextPaymentAttempt = unixToIso(invoice?.next_payment_attempt);
+    const failedAt = unixToIso(eventCreated);
+
+    if (invoiceId) {
+      await upsertInvoice(env.DB, {
+        id: invoiceId,
+        customerId,
+        subscriptionId,
+        status: String(invoice?.status || "open"),
+        currency: String(invoice?.currency || ""),
+      });
+      await recordBillingIssue(env.DB, {
+        kind: "payment_failed",
+        objectId: invoiceId,
+        customerId,
+        subscriptionId,
+        amountCents: amountDueCents,
+        currency: String(invoice?.currency || ""),
+        status: "failed",
+        reason: String(invoice?.billing_reason || ""),
+        attemptCount,
+        nextAttemptAt: nextPaymentAttempt,
+        occurredAt: failedAt,
+      });
+      actions.push(`d1.billing_issues payment_failed ${invoiceId}`);
+    }
+
+    if (customerId) {
+      const ok = await stripeUpdateCustomerMetadata(env, log, customerId, {
+        paymentStatus: "failed",
+        lastPaymentFailedAt: failedAt,
+        lastPaymentFailedInvoice: invoiceId,
+        lastPaymentFailedAmount: amountDue,
+        paymentAttemptCount: String(attemptCount),
+        nextPaymentAttempt,
+      });
+      actions.push(`stripe.customer.metadata ${customerId}: ${ok ? "ok" : "failed"}`);
+
+      await syncLifecycleToGhl(env, log, actions, customerId, {
+        eventCreated,
+        tags: [GHL_TAGS.paymentFailed],
+        removeTags: [],
+        custom: {
+          stripe_subscription_id: subscriptionId,
+          r4_payment_status: "failed",
+          r4_payment_failed_at: failedAt,
+          r4_payment_failed_amount: amountDue,
+          r4_payment_attempt_count: String(attemptCount),
+          r4_next_payment_attempt: nextPaymentAttempt,
+        },
+      });
+    }
+
+    log.info("Invoice payment failed", { invoiceId, amountDue, attemptCount, subscriptionId, customerId });
   }
-) {
-  if (!env.GHL_PRIVATE_TOKEN || !env.GHL_LOCATION_ID) {
-    console.log("GHL not configured: missing GHL_PRIVATE_TOKEN or GHL_LOCATION_ID. Skipping upsert.");
-    return;
+
+  if (type === "customer.subscription.paused") {
+    const sub = obj;
+
+    const customerId = sub?.customer ? String(sub.customer) : "";
+    const subscriptionId = String(sub?.id || "");
+    const pausedAt = unixToIso(eventCreated);
+
+    if (subscriptionId) {
+      await upsertSubscription(env.DB, {
+        id: subscriptionId,
+        customerId,
+        status: String(sub?.status || "paused"),
+        eventCreated,
+      });
+      await recordBillingIssue(env.DB, {
+        kind: "subscription_paused",
+        objectId: subscriptionId,
+        customerId,
+        subscriptionId,
+        status: String(sub?.status || "paused"),
+        reason: String(sub?.pause_collection?.behavior || ""),
+        occurredAt: pausedAt,
+      });
+      actions.push(`d1.subscriptions ${subscriptionId}`);
+      actions.push(`d1.billing_issues subscription_paused ${subscriptionId}`);
+    }
+
+    if (customerId) {
+      const ok = await stripeUpdateCustomerMetadata(env, log, customerId, {
+        subscriptionStatus: "paused",
+        subscriptionPausedAt: pausedAt,
+      });
+      actions.push(`stripe.customer.metadata ${customerId}: ${ok ? "ok" : "failed"}`);
+
+      const statusTags = subscriptionStatusTags("paused");
+      await syncLifecycleToGhl(env, log, actions, customerId, {
+        eventCreated,
+        tags: statusTags.add,
+        removeTags: statusTags.remove,
+        custom: {
+          stripe_subscription_id: subscriptionId,
+          stripe_subscription_status: "paused",
+          r4_paused_at: pausedAt,
+        },
+      });
+    }
+
+    log.info("Subscription paused", { customerId, subscriptionId });
   }
 
-  const customFields = Object.entries(input.custom)
-    .map(([key, val]) => ({ key, field_value: String(val ?? "").trim() }))
-    .filter((x) => x.field_value.length > 0);
+  if (type === "charge.refunded") {
+    const charge = obj;
+
+    const customerId = charge?.customer ? String(charge.customer) : "";
+    const chargeId = String(charge?.id || "");
+    const refundedCents = Number(charge?.amount_refunded ?? 0);
+    const refundedAmount = (refundedCents / 100).toFixed(2);
+    const fullRefund = Boolean(charge?.refunded);
+    const refundedAt = unixToIso(eventCreated);
+
+    if (chargeId) {
+      await recordBillingIssue(env.DB, {
+        kind: "refund",
+        objectId: chargeId,
+        customerId,
+        amountCents: refundedCents,
+        currency: String(charge?.currency || ""),
+        status: fullRefund ? "full" : "partial",
+        reason: String(charge?.refunds?.data?.[0]?.reason || ""),
+        occurredAt: refundedAt,
+      });
+      actions.push(`d1.billing_issues refund ${chargeId}`);
+    }
 
-  const payload: any = {
-    locationId: env.GHL_LOCATION_ID,
-    tags: input.tags || [],
-    customFields,
-    source: "stripe-webhook",
-  };
+    if (customerId) {
+      const ok = await stripeUpdateCustomerMetadata(env, log, customerId, {
+        lastRefundAt: refundedAt,
+        lastRefundAmount: refundedAmount,
+        lastRefundCharge: chargeId,
+      });
+      actions.push(`stripe.customer.metadata ${customerId}: ${ok ? "ok" : "failed"}`);
 
-  if (input.email?.trim()) payload.email = input.email.trim();
-  if (input.phone?.trim()) payload.phone = input.phone.trim();
-  if (input.name?.trim()) payload.name = input.name.trim();
+      await syncLifecycleToGhl(env, log, actions, customerId, {
+        eventCreated,
+        tags: [GHL_TAGS.refunded],
+        removeTags: [],
+        custom: {
+          r4_last_refund_amount: refundedAmount,
+          r4_last_refund_at: refundedAt,
+        },
+      });
+    }
 
-  const res = await fetch("https://services.leadconnectorhq.com/contacts/upsert", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${env.GHL_PRIVATE_TOKEN}`,
-      "Content-Type": "application/json",
-      Version: "2021-07-28",
-    },
-    body: JSON.stringify(payload),
-  });
+    log.info("Charge refunded", { chargeId, refundedAmount, fullRefund, customerId });
+  }
 
-  if (!res.ok) {
-    const text = await res.text().catch(() => "");
-    console.log("GHL upsert failed:", res.status, text);
-    return;
+  if (type === "charge.dispute.created") {
+    const dispute = obj;
+
+    const disputeId = String(dispute?.id || "");
+    const chargeId = typeof dispute?.charge === "string" ? dispute.charge : String(dispute?.charge?.id || "");
+    const amountCents = Number(dispute?.amount ?? 0);
+    const reason = String(dispute?.reason || "");
+    const disputeStatus = String(dispute?.status || "");
+    const disputedAt = unixToIso(dispute?.created) || unixToIso(eventCreated);
+
+    // Disputes reference the charge, not the customer.
+    let customerId = dispute?.charge?.customer ? String(dispute.charge.customer) : "";
+    if (!customerId && chargeId) {
+      const charge = await stripeGetCharge(env, log, chargeId);
+      customerId = charge?.customer ? String(charge.customer) : "";
+    }
+
+    if (disputeId) {
+      await recordBillingIssue(env.DB, {
+        kind: "dispute",
+        objectId: disputeId,
+        customerId,
+        amountCents,
+        currency: String(dispute?.currency || ""),
+        status: disputeStatus,
+        reason,
+        occurredAt: disputedAt,
+      });
+      actions.push(`d1.billing_issues dispute ${disputeId}`);
+    }
+
+    if (customerId) {
+      const ok = await stripeUpdateCustomerMetadata(env, log, customerId, {
+        disputeStatus,
+        lastDisputeAt: disputedAt,
+        lastDisputeReason: reason,
+        lastDisputeCharge: chargeId,
+      });
+      actions.push(`stripe.customer.metadata ${customerId}: ${ok ? "ok" : "failed"}`);
+
+      await syncLifecycleToGhl(env, log, actions, customerId, {
+        eventCreated,
+        tags: [GHL_TAGS.disputed],
+        removeTags: [],
+        custom: {
+          r4_dispute_status: disputeStatus,
+          r4_dispute_reason: reason,
+          r4_dispute_at: disputedAt,
+          r4_dispute_amount: (amountCents / 100).toFixed(2),
+        },
+      });
+    }
+
+    log.info("Charge disputed", { disputeId, chargeId, reason, customerId });
   }
 
-  const j = await res.json().catch(() => null);
-  console.log("GHL upsert success:", j);
+  if (!actions.length) actions.push(`no-op: ${type || "unknown event type"}`);
 }
 
-// =====================================================
-// Stripe helper: Get customer
-// =====================================================
-async function stripeGetCustomer(stripeSecretKey: string, customerId: string): Promise<any> {
-  const res = await fetch(`https://api.stripe.com/v1/customers/${encodeURIComponent(customerId)}`, {
-    headers: { Authorization: `Bearer ${stripeSecretKey}` },
-  });
-  const j = await res.json().catch(() => null);
-  if (!res.ok) {
-    console.log("Stripe get customer failed:", res.status, j);
-    return null;
+// Lifecycle events only carry the Stripe customer id; find the contact's
+// email/phone in the local mirror first, then Stripe, and push the update.
+async function syncLifecycleToGhl(
+  env: Env,
+  log: Logger,
+  actions: string[],
+  customerId: string,
+  update: { tags: string[]; removeTags: string[]; custom: Record<string, string>; eventCreated?: number }
+): Promise<void> {
+  let contact = await getCustomer(env.DB, customerId);
+  if (!contact?.email && !contact?.phone) {
+    const cust = await stripeGetCustomer(env, log, customerId);
+    if (cust) {
+      contact = {
+        id: customerId,
+        email: String(cust?.email || "").trim() || null,
+        name: String(cust?.name || "").trim() || null,
+        phone: canonicalPhone(cust?.phone || cust?.metadata?.selectorPhone, env.DEFAULT_PHONE_COUNTRY) || null,
+      };
+    }
+  }
+
+  if (!contact?.email && !contact?.phone) {
+    log.warn("Skipping GHL lifecycle sync: no email/phone for customer", { customerId });
+    actions.push("ghl.upsert: skipped (no email/phone)");
+    return;
   }
-  return j;
+
+  const result = await ghlUpsertContact(
+    env,
+    log,
+    {
+      email: contact.email || "",
+      // Mirror rows written before normalization may hold raw input.
+      phone: canonicalPhone(contact.phone, env.DEFAULT_PHONE_COUNTRY),
+      name: contact.name || "",
+      tags: update.tags,
+      removeTags: update.removeTags,
+      custom: { stripe_customer_id: customerId, ...update.custom },
+    },
+    { customerId, eventCreated: update.eventCreated }
+  );
+  actions.push(`ghl.upsert: ${result}`);
+  await recordGhlSync(env.DB, customerId, result);
 }
 
 // =====================================================
-// Stripe: Update Customer metadata
+// Stripe helpers (webhook side: a failed lookup just means less data)
 // =====================================================
+async function stripeGetCustomer(env: Env, log: Logger, customerId: string): Promise<StripeCustomer | null> {
+  const res = await stripeClient(env, log).retrieveCustomer(customerId);
+  return res.ok ? res.data : null;
+}
+
+async function stripeGetCharge(env: Env, log: Logger, chargeId: string): Promise<StripeCharge | null> {
+  const res = await stripeClient(env, log).retrieveCharge(chargeId);
+  return res.ok ? res.data : null;
+}
+
+// Blank values are dropped so an event that doesn't know a field can't erase it.
 async function stripeUpdateCustomerMetadata(
-  stripeSecretKey: string,
+  env: Env,
+  log: Logger,
   customerId: string,
   metadata: Record<string, string>
-) {
+): Promise<boolean> {
   const clean: Record<string, string> = {};
   for (const [k, v] of Object.entries(metadata)) {
     const vv = String(v ?? "").trim();
     if (vv) clean[k] = vv;
   }
-  if (!Object.keys(clean).length) return;
-
-  const form = new URLSearchParams();
-  for (const [k, v] of Object.entries(clean)) {
-    form.append(`metadata[${k}]`, v);
-  }
+  if (!Object.keys(clean).length) return true;
 
-  const res = await fetch(`https://api.stripe.com/v1/customers/${encodeURIComponent(customerId)}`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${stripeSecretKey}`,
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
-    body: form,
-  });
+  const res = await stripeClient(env, log).updateCustomer(customerId, { metadata: clean });
+  return res.ok;
+}
 
-  if (!res.ok) {
-    const j = await res.json().catch(() => ({}));
-    console.log("Stripe customer metadata update failed:", res.status, j);
-  }
+// Client-facing error: Stripe's own message, 502 when Stripe itself is down.
+function stripeErrorResponse(e: StripeError): Response {
+  const status = e.status === 0 || e.status >= 500 ? 502 : 400;
+  return json({ error: "Stripe error", details: { type: e.type, code: e.code, message: e.message } }, status);
 }
 
 // =====================================================
 // Stripe signature verification (v1 HMAC SHA256)
+//  - rejects timestamps outside the tolerance window (replay protection)
+//  - accepts any of several secrets (endpoint secret rotation)
 // =====================================================
-async function verifyStripeSignature(payload: string, sigHeader: string, secret: string): Promise<boolean> {
+const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 300;
+
+type SignatureResult = { ok: true } | { ok: false; reason: string };
+
+function parseWebhookSecrets(v: string): string[] {
+  return String(v || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function parseToleranceSeconds(v: string | undefined): number {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_WEBHOOK_TOLERANCE_SECONDS;
+}
+
+async function verifyStripeSignature(
+  payload: string,
+  sigHeader: string,
+  secrets: string[],
+  opts: { toleranceSeconds: number; nowSeconds?: number }
+): Promise<SignatureResult> {
+  if (!secrets.length) return { ok: false, reason: "no webhook secret configured" };
+
   const parts = sigHeader.split(",").map((p) => p.trim());
   const tPart = parts.find((p) => p.startsWith("t="));
   const v1Parts = parts.filter((p) => p.startsWith("v1="));
-  if (!tPart || !v1Parts.length) return false;
+  if (!tPart) return { ok: false, reason: "missing timestamp" };
+  if (!v1Parts.length) return { ok: false, reason: "missing v1 signature" };
 
   const timestamp = tPart.slice(2);
-  const signedPayload = `${timestamp}.${payload}`;
-  const expected = await hmacSHA256Hex(secret, signedPayload);
-
-  for (const v1 of v1Parts) {
-    const sig = v1.slice(3);
-    if (timingSafeEqualHex(sig, expected)) return true;
+  const timestampNum = Number(timestamp);
+  if (!/^\d+$/.test(timestamp) || !Number.isSafeInteger(timestampNum)) {
+    return { ok: false, reason: "malformed timestamp" };
   }
-  return false;
-}
 
-async function hmacSHA256Hex(secret: string, message: string): Promise<string> {
-  const enc = new TextEncoder();
-  const key = await crypto.subtle.importKey("raw", enc.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [
-    "sign",
-  ]);
-  const sigBuf = await crypto.subtle.sign("HMAC", key, enc.encode(message));
-  return bufferToHex(sigBuf);
-}
+  const now = opts.nowSeconds ?? Math.floor(Date.now() / 1000);
+  const age = now - timestampNum;
+  if (age > opts.toleranceSeconds) {
+    return { ok: false, reason: `timestamp too old (${age}s > ${opts.toleranceSeconds}s tolerance)` };
+  }
+  if (-age > opts.toleranceSeconds) {
+    return { ok: false, reason: `timestamp in the future (${-age}s > ${opts.toleranceSeconds}s tolerance)` };
+  }
 
-function bufferToHex(buf: ArrayBuffer): string {
-  const bytes = new Uint8Array(buf);
-  let out = "";
-  for (let i = 0; i < bytes.length; i++) out += bytes[i].toString(16).padStart(2, "0");
-  return out;
+  const signedPayload = `${timestamp}.${payload}`;
+  for (const secret of secrets) {
+    const expected = await hmacSHA256Hex(secret, signedPayload);
+    for (const v1 of v1Parts) {
+      const sig = v1.slice(3);
+      if (timingSafeEqualHex(sig, expected)) return { ok: true };
+    }
+  }
+  return { ok: false, reason: "no matching v1 signature" };
 }
 
-function timingSafeEqualHex(a: string, b: string): boolean {
-  const aa = a.toLowerCase();
-  const bb = b.toLowerCase();
-  if (aa.length !== bb.length) return false;
-  let res = 0;
-  for (let i = 0; i < aa.length; i++) res |= aa.charCodeAt(i) ^ bb.charCodeAt(i);
-  return res === 0;
+// =====================================================
+// Health check (uptime monitors, post-deploy smoke test)
+// =====================================================
+// Credential checks against Stripe / GHL only run in the admin diagnostics (src/diagnostics.ts).
+async function handleHealth(request: Request, env: Env, log: Logger): Promise<Response> {
+  if (request.method !== "GET") return json({ error: "Method not allowed" }, 405);
+
+  const report = publicHealthReport(await buildDiagnostics(env, log, { credentials: false }));
+  const res = json(report, report.status === "down" ? 503 : 200);
+  res.headers.set("Cache-Control", "no-store");
+  return res;
 }
 
 // =====================================================
 // Utility
 // =====================================================
-function corsHeaders(request: Request) {
-  const origin = request.headers.get("Origin") || "*";
-  return {
-    "Access-Control-Allow-Origin": origin,
-    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-    "Access-Control-Allow-Headers": "Content-Type, Stripe-Signature",
-    Vary: "Origin",
-  };
-}
-
-function json(obj: unknown, status: number, request: Request) {
+// CORS headers are added by the router for browser-facing routes (src/cors.ts).
+function json(obj: unknown, status: number) {
   return new Response(JSON.stringify(obj), {
     status,
     headers: {
       "Content-Type": "application/json",
-      ...corsHeaders(request),
     },
   });
 }
@@ -665,34 +1749,26 @@ function json(obj: unknown, status: number, request: Request) {
 //=======================================================
 // Fetch Stripe Info and Place into Orientation Form
 //=======================================================
-async function handleGetCheckoutContact(request: Request, env: Env): Promise<Response> {
-  if (request.method !== "GET") return json({ error: "Method not allowed" }, 405, request);
-  if (!env.STRIPE_SECRET_KEY) return json({ error: "Missing STRIPE_SECRET_KEY" }, 500, request);
+async function handleGetCheckoutContact(request: Request, env: Env, log: Logger): Promise<Response> {
+  if (request.method !== "GET") return json({ error: "Method not allowed" }, 405);
+  if (!env.STRIPE_SECRET_KEY) return json({ error: "Missing STRIPE_SECRET_KEY" }, 500);
 
-  const url = new URL(request.url);
-  const sessionId = String(url.searchParams.get("session_id") || "").trim();
-  if (!sessionId) return json({ error: "Missing session_id" }, 400, request);
+  const parsed = parseQuery(new URL(request.url), checkoutContactQuery);
+  if (!parsed.ok) return fieldErrorResponse(parsed.errors);
+  const sessionId = parsed.value.session_id;
 
-  const stripeUrl =
-    "https://api.stripe.com/v1/checkout/sessions/" +
-    encodeURIComponent(sessionId) +
-    "?expand[]=customer&expand[]=subscription";
+  const res = await stripeClient(env, log).retrieveCheckoutSession(sessionId, ["customer", "subscription"]);
+  if (!res.ok) return stripeErrorResponse(res.error);
 
-  const res = await fetch(stripeUrl, {
-    headers: { Authorization: `Bearer ${env.STRIPE_SECRET_KEY}` },
-  });
-
-  const s: any = await res.json().catch(() => null);
-  if (!res.ok) {
-    console.log("Stripe session lookup failed:", res.status, s);
-    return json({ error: "Stripe lookup failed", details: s }, 400, request);
-  }
+  const s = res.data;
+  const customer = s.customer && typeof s.customer === "object" ? s.customer : null;
 
-  const email = String(s?.customer_details?.email || s?.customer_email || s?.customer?.email || "").trim();
-  const phone = String(s?.customer_details?.phone || s?.customer?.phone || "").trim();
-  const name = String(s?.customer_details?.name || s?.customer?.name || "").trim();
+  const email = String(s.customer_details?.email || s.customer_email || customer?.email || "").trim();
+  const phone = canonicalPhone(s.customer_details?.phone || customer?.phone, env.DEFAULT_PHONE_COUNTRY);
+  const name = String(s.customer_details?.name || customer?.name || "").trim();
 
-  const md = s?.metadata || {};
+  const md = s.metadata || {};
+  const cadence = parseCadenceMetadata(md);
 
   return json(
     {
@@ -702,10 +1778,13 @@ async function handleGetCheckoutContact(request: Request, env: Env): Promise<Res
       purchaseType: String(md.purchaseType || ""),
       partNumber: String(md.partNumber || ""),
       serviceSummary: String(md.serviceSummary || ""),
-      monthlyAmount: String(md.monthlyAmount || ""),
+      amount: cadence.amount,
+      interval: cadence.interval,
+      intervalCount: cadence.interval ? cadence.intervalCount : null,
+      cadence: cadence.cadence,
+      monthlyAmount: cadence.monthlyAmount,
       oneTimeAmount: String(md.oneTimeAmount || ""),
     },
-    200,
-    request
+    200
   );
 }
@@ -0,0 +1,102 @@
+// src/log.ts
+// =====================================================
+// Structured logging: one JSON line per event
+//
+//   {"time":"…","level":"info","msg":"Stripe event received","requestId":"…","eventId":"evt_…",…}
+//
+// The router makes one Logger per request (requestLogger) and the cron handler
+// one per run; child() adds fields to every later line, so a webhook delivery
+// can be followed end to end by requestId + eventId. Outbound calls (Stripe,
+// GHL, verification webhook) log their status and durationMs.
+//
+// Fields are redacted before anything is written:
+//   - keys naming an email, phone or person name     -> "[redacted]"
+//   - email addresses / phone numbers inside strings -> "[email]" / "[phone]"
+//     (Stripe error messages, GHL response bodies)
+//
+// LOG_LEVEL (debug | info | warn | error, default info) drops lower levels.
+// =====================================================
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  // Same sink and level, with `fields` added to every line.
+  child(fields: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Normalized (lowercase, letters only) keys whose values are always dropped.
+const PII_KEY = /email|phone|^name$|^(customer|first|last|full|display|contact)name$|^to$|address/;
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+const PHONE_PATTERNS = [/\+\d{8,15}\b/g, /\(?\b\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/g];
+
+const MAX_DEPTH = 6;
+
+export function createLogger(env: { LOG_LEVEL?: string }, fields: LogFields = {}): Logger {
+  const min = LEVELS[String(env.LOG_LEVEL || "").trim().toLowerCase() as LogLevel] ?? LEVELS.info;
+
+  const make = (base: LogFields): Logger => {
+    const write = (level: LogLevel, msg: string, extra?: LogFields) => {
+      if (LEVELS[level] < min) return;
+      const line = JSON.stringify({
+        time: new Date().toISOString(),
+        level,
+        msg: scrubString(msg),
+        ...(redact({ ...base, ...extra }) as LogFields),
+      });
+      if (level === "error") console.error(line);
+      else if (level === "warn") console.warn(line);
+      else console.log(line);
+    };
+    return {
+      debug: (msg, extra) => write("debug", msg, extra),
+      info: (msg, extra) => write("info", msg, extra),
+      warn: (msg, extra) => write("warn", msg, extra),
+      error: (msg, extra) => write("error", msg, extra),
+      child: (extra) => make({ ...base, ...extra }),
+    };
+  };
+  return make(fields);
+}
+
+// Per-request logger; Cloudflare's Ray ID doubles as the request id so lines
+// can be matched with the dashboard's request logs.
+export function requestLogger(request: Request, env: { LOG_LEVEL?: string }): Logger {
+  const url = new URL(request.url);
+  return createLogger(env, {
+    requestId: request.headers.get("CF-Ray") || crypto.randomUUID(),
+    method: request.method,
+    path: url.pathname,
+  });
+}
+
+// For pure helpers called from many places (no request to correlate with).
+export const defaultLogger: Logger = createLogger({});
+
+// Errors become { name, message }; PII keys and PII-looking substrings are masked.
+export function redact(value: unknown, key = "", depth = 0): unknown {
+  const present = value !== null && value !== undefined && value !== "";
+  if (key && present && PII_KEY.test(key.toLowerCase().replace(/[^a-z]/g, ""))) return "[redacted]";
+  if (typeof value === "string") return scrubString(value);
+  if (value instanceof Error) return { name: value.name, message: scrubString(value.message) };
+  if (value === null || typeof value !== "object") return value;
+  if (depth >= MAX_DEPTH) return "[truncated]";
+  if (Array.isArray(value)) return value.map((v) => redact(v, "", depth + 1));
+
+  const out: LogFields = {};
+  for (const [k, v] of Object.entries(value)) out[k] = redact(v, k, depth + 1);
+  return out;
+}
+
+function scrubString(s: string): string {
+  let out = s.replace(EMAIL_PATTERN, "[email]");
+  for (const pattern of PHONE_PATTERNS) out = out.replace(pattern, "[phone]");
+  return out;
+}
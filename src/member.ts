@@ -0,0 +1,241 @@
+// src/member.ts
+// =====================================================
+// Self-service subscription changes for signed-in members (src/memberAuth.ts)
+//
+//   change   swap the subscription's items for another catalog bundle
+//            (upgrade, downgrade, or another cadence), prorated. The preview
+//            runs Stripe's invoice preview with the same items; sending its
+//            prorationDate back with the change bills exactly what was shown.
+//   pause    pause_collection (invoices voided) until N months from now, e.g.
+//            snowbirds away for the winter; Stripe resumes billing by itself
+//   cancel   cancel_at_period_end, with the member's reason as Stripe
+//            cancellation_details
+//
+// Prices come from the catalog exactly as at checkout (src/cart.ts). Unlike
+// Checkout, subscription items can't take product_data, so each catalog item
+// gets a Stripe product with a fixed id (catalog-<partNumber>), created on
+// first use and kept in step with the catalog's name after that. Every change
+// is also logged to D1 subscription_changes.
+// =====================================================
+
+import { Cart, SubscriptionCadence, cartMetadata, cartPartNumbers, cartSummary, parseCadenceMetadata } from "./cart";
+import { billingCadence } from "./catalog";
+import type { StripeClient, StripeError, StripeParams, StripeSubscription } from "./stripe";
+
+// Stripe's cancellation_details[feedback] values.
+export const CANCEL_REASONS = [
+  "customer_service",
+  "low_quality",
+  "missing_features",
+  "other",
+  "switched_service",
+  "too_complex",
+  "too_expensive",
+  "unused",
+] as const;
+export type CancelReason = (typeof CANCEL_REASONS)[number];
+
+export const MAX_PAUSE_MONTHS = 12;
+
+// Statuses a member can still change; anything else needs a new checkout.
+const LIVE_STATUSES = ["active", "trialing", "past_due"];
+
+export type SubscriptionChangeAction = "change" | "pause" | "cancel";
+
+// What the member pages show; amounts in dollars per billing period.
+export interface MemberSubscriptionView {
+  id: string;
+  status: string;
+  partNumber: string;
+  serviceSummary: string;
+  amount: string;
+  interval: string;
+  intervalCount: number;
+  cadence: string;
+  currentPeriodEnd: string;
+  cancelAtPeriodEnd: boolean;
+  cancelReason: string;
+  pausedUntil: string;
+}
+
+// A catalog cart as a plan: what the preview offers and the change writes.
+export interface PlanView extends SubscriptionCadence {
+  partNumber: string;
+  serviceSummary: string;
+}
+
+// The member's live subscriptions, newest first (Stripe's list order).
+export async function listMemberSubscriptions(
+  client: StripeClient,
+  customerId: string
+): Promise<{ ok: true; subscriptions: StripeSubscription[] } | { ok: false; error: StripeError }> {
+  const res = await client.listSubscriptions({ customer: customerId, status: "all", limit: 10 });
+  if (!res.ok) return res;
+  return {
+    ok: true,
+    subscriptions: res.data.data.filter((s) => s.customer === customerId && LIVE_STATUSES.includes(s.status)),
+  };
+}
+
+// `subscriptionId` when given (and theirs), else the newest live one.
+export async function findMemberSubscription(
+  client: StripeClient,
+  customerId: string,
+  subscriptionId?: string
+): Promise<{ ok: true; subscription: StripeSubscription | null } | { ok: false; error: StripeError }> {
+  const res = await listMemberSubscriptions(client, customerId);
+  if (!res.ok) return res;
+  const subscription = subscriptionId ? res.subscriptions.find((s) => s.id === subscriptionId) : res.subscriptions[0];
+  return { ok: true, subscription: subscription ?? null };
+}
+
+export function cartPlan(cart: Cart): PlanView {
+  return {
+    partNumber: cartPartNumbers(cart),
+    serviceSummary: cartSummary(cart),
+    ...parseCadenceMetadata({
+      amount: (cart.totalCents / 100).toFixed(2),
+      interval: cart.interval || "month",
+      intervalCount: String(cart.intervalCount),
+    }),
+  };
+}
+
+export function memberSubscriptionView(sub: StripeSubscription): MemberSubscriptionView {
+  const items = sub.items?.data || [];
+  const recurring = items[0]?.price?.recurring;
+  const totalCents = items.reduce((sum, i) => sum + (i.price?.unit_amount ?? 0) * (i.quantity || 1), 0);
+  const interval = recurring?.interval || "";
+  const intervalCount = recurring?.interval_count || 1;
+  const periodEnd = sub.current_period_end ?? items[0]?.current_period_end;
+  const resumesAt = sub.pause_collection?.resumes_at;
+  return {
+    id: sub.id,
+    status: sub.status,
+    partNumber: sub.metadata?.partNumber || "",
+    serviceSummary: sub.metadata?.serviceSummary || "",
+    amount: (totalCents / 100).toFixed(2),
+    interval,
+    intervalCount,
+    cadence: billingCadence(interval, intervalCount),
+    currentPeriodEnd: periodEnd ? new Date(periodEnd * 1000).toISOString() : "",
+    cancelAtPeriodEnd: Boolean(sub.cancel_at_period_end),
+    cancelReason: sub.cancel_at_period_end ? sub.cancellation_details?.feedback || "" : "",
+    pausedUntil: resumesAt ? new Date(resumesAt * 1000).toISOString() : sub.pause_collection ? "indefinitely" : "",
+  };
+}
+
+// Stripe product ids allow letters, digits, "_" and "-".
+export function catalogProductId(partNumber: string): string {
+  return `catalog-${partNumber.replace(/[^A-Za-z0-9_-]/g, "_")}`;
+}
+
+// Creates the products the cart's prices hang off, or brings an existing one's
+// name and description up to date with the catalog. No fixed idempotency key:
+// a retry just finds the product already there, while a reused key with a
+// renamed item would be refused by Stripe.
+export async function ensureCatalogProducts(
+  client: StripeClient,
+  cart: Cart
+): Promise<{ ok: true } | { ok: false; error: StripeError }> {
+  const seen = new Set<string>();
+  for (const { item } of cart.lines) {
+    const id = catalogProductId(item.partNumber);
+    if (seen.has(id)) continue;
+    seen.add(id);
+
+    const details = { name: item.name, description: item.description || undefined };
+    const res = await client.createProduct({ id, ...details, metadata: { partNumber: item.partNumber } });
+    if (res.ok) continue;
+    if (res.error.code !== "resource_already_exists") return res;
+
+    const updated = await client.updateProduct(id, details);
+    if (!updated.ok) return updated;
+  }
+  return { ok: true };
+}
+
+// `items` for a subscription update / invoice preview: drop every current item, add the cart's.
+export function swapItems(sub: StripeSubscription, cart: Cart): StripeParams[] {
+  const removed: StripeParams[] = (sub.items?.data || []).map((i) => ({ id: i.id, deleted: true }));
+  const added: StripeParams[] = cart.lines.map((l) => ({
+    quantity: l.quantity,
+    price_data: {
+      currency: l.item.currency,
+      unit_amount: l.item.amountCents,
+      product: catalogProductId(l.item.partNumber),
+      recurring: {
+        interval: l.item.interval || "month",
+        interval_count: l.item.intervalCount > 1 ? l.item.intervalCount : undefined,
+      },
+    },
+    metadata: { partNumber: l.item.partNumber, addOnTo: l.addOnTo || undefined },
+  }));
+  return [...removed, ...added];
+}
+
+// The new cart's metadata, in the same keys checkout writes. "" deletes a
+// Stripe metadata key: the old plan's extra line_<i> and a monthlyAmount that
+// no longer applies.
+export function swapMetadata(sub: StripeSubscription, cart: Cart): Record<string, string> {
+  const plan = cartPlan(cart);
+  const md: Record<string, string> = {
+    partNumber: plan.partNumber,
+    serviceSummary: plan.serviceSummary,
+    amount: plan.amount,
+    interval: plan.interval,
+    intervalCount: String(plan.intervalCount),
+    monthlyAmount: plan.monthlyAmount,
+    ...cartMetadata(cart),
+  };
+  const oldCount = Number(sub.metadata?.lineCount) || 0;
+  for (let i = cart.lines.length; i < oldCount; i++) md[`line_${i}`] = "";
+  return md;
+}
+
+// Same day of month N months on (clamped: Jan 31 + 1 month = Feb 28/29), UTC.
+export function addMonths(from: Date, months: number): Date {
+  const day = from.getUTCDate();
+  const d = new Date(from);
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+  d.setUTCDate(Math.min(day, lastDay));
+  return d;
+}
+
+export async function recordSubscriptionChange(
+  db: D1Database,
+  c: {
+    subscriptionId: string;
+    customerId: string;
+    action: SubscriptionChangeAction;
+    fromPartNumber?: string;
+    toPartNumber?: string;
+    amountCents?: number;
+    pausedUntil?: string;
+    reason?: string;
+    comment?: string;
+  }
+): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO subscription_changes
+         (subscription_id, customer_id, action, from_part_number, to_part_number, amount_cents,
+          paused_until, reason, comment, created_at)
+       VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10)`
+    )
+    .bind(
+      c.subscriptionId,
+      c.customerId,
+      c.action,
+      c.fromPartNumber || null,
+      c.toPartNumber || null,
+      c.amountCents ?? null,
+      c.pausedUntil || null,
+      c.reason || null,
+      c.comment || null,
+      new Date().toISOString()
+    )
+    .run();
+}
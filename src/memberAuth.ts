@@ -0,0 +1,74 @@
+// src/memberAuth.ts
+// =====================================================
+// Member sessions for the self-service /api/member/* routes (D1: member_sessions)
+//
+//   issueMemberSession   -> random bearer token for a customer whose portal
+//                           code was just verified (src/portalAuth.ts)
+//   authenticateMember   -> Authorization: Bearer <token> -> the customer
+//
+// Only a hash of the token is stored. Sessions last SESSION_TTL_SECONDS:
+// long enough to preview a change and confirm it, not to stay signed in.
+// =====================================================
+
+import { bufferToHex, sha256Hex } from "./crypto";
+
+export const SESSION_TTL_SECONDS = 30 * 60;
+// Expired rows are kept this long for support lookups, then purged by the cron.
+const RETENTION_SECONDS = 24 * 60 * 60;
+
+export interface MemberSession {
+  id: string;
+  customerId: string;
+  email: string;
+}
+
+function isoIn(seconds: number): string {
+  return new Date(Date.now() + seconds * 1000).toISOString();
+}
+
+function generateToken(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return `mst_${bufferToHex(bytes.buffer)}`;
+}
+
+export async function issueMemberSession(
+  db: D1Database,
+  req: { email: string; customerId: string }
+): Promise<{ token: string; expiresAt: string }> {
+  const token = generateToken();
+  const expiresAt = isoIn(SESSION_TTL_SECONDS);
+
+  await db
+    .prepare(
+      `INSERT INTO member_sessions (id, token_hash, customer_id, email, expires_at, created_at)
+       VALUES (?1, ?2, ?3, ?4, ?5, ?6)`
+    )
+    .bind(crypto.randomUUID(), await sha256Hex(token), req.customerId, req.email, expiresAt, new Date().toISOString())
+    .run();
+
+  return { token, expiresAt };
+}
+
+// null for a missing, unknown, expired or revoked token.
+export async function authenticateMember(db: D1Database, request: Request): Promise<MemberSession | null> {
+  const m = (request.headers.get("Authorization") || "").match(/^Bearer\s+(mst_[0-9a-f]{64})$/i);
+  if (!m) return null;
+
+  const row = await db
+    .prepare(
+      `SELECT id, customer_id, email FROM member_sessions
+       WHERE token_hash = ?1 AND revoked_at IS NULL AND expires_at > ?2`
+    )
+    .bind(await sha256Hex(m[1]), new Date().toISOString())
+    .first<{ id: string; customer_id: string; email: string }>();
+  return row ? { id: row.id, customerId: row.customer_id, email: row.email } : null;
+}
+
+export async function purgeMemberSessions(db: D1Database): Promise<number> {
+  const res = await db
+    .prepare("DELETE FROM member_sessions WHERE expires_at < ?1")
+    .bind(isoIn(-RETENTION_SECONDS))
+    .run();
+  return res.meta.changes ?? 0;
+}
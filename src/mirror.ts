@@ -0,0 +1,297 @@
+// src/mirror.ts
+// =====================================================
+// Local mirror of Stripe customers / subscriptions / invoices / purchases (D1)
+// plus billing issues (payment failures, pauses, refunds, disputes)
+//
+// Upserted from webhook events, keyed by Stripe ids. Columns passed as null
+// keep their current value, so each event only writes what it knows.
+// Subscription rows also track the Stripe event `created` time so an older
+// event delivered late can't overwrite newer state.
+// =====================================================
+
+export interface CustomerUpsert {
+  id: string;
+  email?: string | null;
+  name?: string | null;
+  phone?: string | null;
+  smsOptIn?: string | null;
+  lastPurchaseType?: string | null;
+  lastCheckoutSession?: string | null;
+}
+
+export interface SubscriptionUpsert {
+  id: string;
+  customerId?: string | null;
+  status?: string | null;
+  partNumber?: string | null;
+  serviceSummary?: string | null;
+  amountCents?: number | null;
+  interval?: string | null;
+  intervalCount?: number | null;
+  cancelAtPeriodEnd?: boolean | null;
+  currentPeriodEnd?: string | null;
+  canceledAt?: string | null;
+  // Stripe event.created (unix seconds); omitted for our own writes after a
+  // Stripe call, which must not move the out-of-order watermark.
+  eventCreated?: number;
+}
+
+export interface InvoiceUpsert {
+  id: string;
+  customerId?: string | null;
+  subscriptionId?: string | null;
+  status?: string | null;
+  amountPaidCents?: number | null;
+  currency?: string | null;
+  paidAt?: string | null;
+}
+
+export interface PurchaseRecord {
+  sessionId: string;
+  purchaseType: string;
+  customerId?: string | null;
+  subscriptionId?: string | null;
+  partNumber?: string | null;
+  serviceSummary?: string | null;
+  amountCents?: number | null;
+  currency?: string | null;
+  paymentStatus?: string | null;
+}
+
+export type BillingIssueKind = "payment_failed" | "subscription_paused" | "refund" | "dispute";
+
+export interface BillingIssue {
+  kind: BillingIssueKind;
+  objectId: string;
+  customerId?: string | null;
+  subscriptionId?: string | null;
+  amountCents?: number | null;
+  currency?: string | null;
+  status?: string | null;
+  reason?: string | null;
+  attemptCount?: number | null;
+  nextAttemptAt?: string | null;
+  occurredAt: string;
+}
+
+// "" / undefined -> null so COALESCE keeps the stored value.
+function v<T>(x: T | null | undefined): T | null {
+  if (x === undefined || x === null) return null;
+  if (typeof x === "string" && !x.trim()) return null;
+  return x;
+}
+
+function boolToInt(x: boolean | null | undefined): number | null {
+  return x === undefined || x === null ? null : x ? 1 : 0;
+}
+
+export async function upsertCustomer(db: D1Database, c: CustomerUpsert): Promise<void> {
+  const now = new Date().toISOString();
+  await db
+    .prepare(
+      `INSERT INTO customers (id, email, name, phone, sms_opt_in, last_purchase_type, last_checkout_session, created_at, updated_at)
+       VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?8)
+       ON CONFLICT(id) DO UPDATE SET
+         email = COALESCE(excluded.email, customers.email),
+         name = COALESCE(excluded.name, customers.name),
+         phone = COALESCE(excluded.phone, customers.phone),
+         sms_opt_in = COALESCE(excluded.sms_opt_in, customers.sms_opt_in),
+         last_purchase_type = COALESCE(excluded.last_purchase_type, customers.last_purchase_type),
+         last_checkout_session = COALESCE(excluded.last_checkout_session, customers.last_checkout_session),
+         updated_at = excluded.updated_at`
+    )
+    .bind(
+      c.id,
+      v(c.email?.toLowerCase()),
+      v(c.name),
+      v(c.phone),
+      v(c.smsOptIn),
+      v(c.lastPurchaseType),
+      v(c.lastCheckoutSession),
+      now
+    )
+    .run();
+}
+
+export async function upsertSubscription(db: D1Database, s: SubscriptionUpsert): Promise<void> {
+  const now = new Date().toISOString();
+  await db
+    .prepare(
+      `INSERT INTO subscriptions
+         (id, customer_id, status, part_number, service_summary, amount_cents, interval, interval_count,
+          cancel_at_period_end, current_period_end, canceled_at, last_event_created, created_at, updated_at)
+       VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13, ?13)
+       ON CONFLICT(id) DO UPDATE SET
+         customer_id = COALESCE(excluded.customer_id, subscriptions.customer_id),
+         status = COALESCE(excluded.status, subscriptions.status),
+         part_number = COALESCE(excluded.part_number, subscriptions.part_number),
+         service_summary = COALESCE(excluded.service_summary, subscriptions.service_summary),
+         amount_cents = COALESCE(excluded.amount_cents, subscriptions.amount_cents),
+         interval = COALESCE(excluded.interval, subscriptions.interval),
+         interval_count = COALESCE(excluded.interval_count, subscriptions.interval_count),
+         cancel_at_period_end = COALESCE(excluded.cancel_at_period_end, subscriptions.cancel_at_period_end),
+         current_period_end = COALESCE(excluded.current_period_end, subscriptions.current_period_end),
+         canceled_at = COALESCE(excluded.canceled_at, subscriptions.canceled_at),
+         last_event_created = MAX(excluded.last_event_created, subscriptions.last_event_created),
+         updated_at = excluded.updated_at
+       WHERE excluded.last_event_created = 0 OR excluded.last_event_created >= subscriptions.last_event_created`
+    )
+    .bind(
+      s.id,
+      v(s.customerId),
+      v(s.status),
+      v(s.partNumber),
+      v(s.serviceSummary),
+      v(s.amountCents),
+      v(s.interval),
+      v(s.intervalCount),
+      boolToInt(s.cancelAtPeriodEnd),
+      v(s.currentPeriodEnd),
+      v(s.canceledAt),
+      s.eventCreated ?? 0,
+      now
+    )
+    .run();
+}
+
+export async function upsertInvoice(db: D1Database, i: InvoiceUpsert): Promise<void> {
+  const now = new Date().toISOString();
+  await db
+    .prepare(
+      `INSERT INTO invoices (id, customer_id, subscription_id, status, amount_paid_cents, currency, paid_at, created_at, updated_at)
+       VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?8)
+       ON CONFLICT(id) DO UPDATE SET
+         customer_id = COALESCE(excluded.customer_id, invoices.customer_id),
+         subscription_id = COALESCE(excluded.subscription_id, invoices.subscription_id),
+         status = COALESCE(excluded.status, invoices.status),
+         amount_paid_cents = COALESCE(excluded.amount_paid_cents, invoices.amount_paid_cents),
+         currency = COALESCE(excluded.currency, invoices.currency),
+         paid_at = COALESCE(excluded.paid_at, invoices.paid_at),
+         updated_at = excluded.updated_at`
+    )
+    .bind(
+      i.id,
+      v(i.customerId),
+      v(i.subscriptionId),
+      v(i.status),
+      v(i.amountPaidCents),
+      v(i.currency),
+      v(i.paidAt),
+      now
+    )
+    .run();
+}
+
+export async function recordPurchase(db: D1Database, p: PurchaseRecord): Promise<void> {
+  await db
+    .prepare(
+      `INSERT OR IGNORE INTO purchases
+         (session_id, purchase_type, customer_id, subscription_id, part_number, service_summary,
+          amount_cents, currency, payment_status, created_at)
+       VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10)`
+    )
+    .bind(
+      p.sessionId,
+      p.purchaseType,
+      v(p.customerId),
+      v(p.subscriptionId),
+      v(p.partNumber),
+      v(p.serviceSummary),
+      v(p.amountCents),
+      v(p.currency),
+      v(p.paymentStatus),
+      new Date().toISOString()
+    )
+    .run();
+}
+
+export async function recordGhlSync(db: D1Database, customerId: string, status: string): Promise<void> {
+  await db
+    .prepare("UPDATE customers SET ghl_sync_status = ?2, ghl_synced_at = ?3 WHERE id = ?1")
+    .bind(customerId, status, new Date().toISOString())
+    .run();
+}
+
+// STOP / unsubscribe: every mirrored customer with this phone. Returns their ids.
+export async function markSmsOptOut(db: D1Database, phone: string): Promise<string[]> {
+  const { results } = await db
+    .prepare("UPDATE customers SET sms_opt_in = 'no', updated_at = ?2 WHERE phone = ?1 RETURNING id")
+    .bind(phone, new Date().toISOString())
+    .all<{ id: string }>();
+  return results.map((r) => r.id);
+}
+
+export async function getCustomer(
+  db: D1Database,
+  id: string
+): Promise<{ id: string; email: string | null; name: string | null; phone: string | null } | null> {
+  return db.prepare("SELECT id, email, name, phone FROM customers WHERE id = ?1").bind(id).first();
+}
+
+// Of these customers (e.g. every Stripe customer sharing an email), the one
+// whose live subscription changed most recently, per the mirror.
+export async function findSubscribedCustomer(db: D1Database, customerIds: string[]): Promise<string | null> {
+  if (!customerIds.length) return null;
+  const row = await db
+    .prepare(
+      `SELECT customer_id FROM subscriptions
+       WHERE status IN ('active', 'trialing', 'past_due')
+         AND customer_id IN (${customerIds.map((_, i) => `?${i + 1}`).join(", ")})
+       ORDER BY updated_at DESC
+       LIMIT 1`
+    )
+    .bind(...customerIds)
+    .first<{ customer_id: string }>();
+  return row?.customer_id ?? null;
+}
+
+// Re-delivered / repeated events for the same object (e.g. retried payment failures) update the row.
+export async function recordBillingIssue(db: D1Database, b: BillingIssue): Promise<void> {
+  const now = new Date().toISOString();
+  await db
+    .prepare(
+      `INSERT INTO billing_issues
+         (kind, object_id, customer_id, subscription_id, amount_cents, currency, status, reason,
+          attempt_count, next_attempt_at, occurred_at, updated_at)
+       VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12)
+       ON CONFLICT(kind, object_id) DO UPDATE SET
+         customer_id = COALESCE(excluded.customer_id, billing_issues.customer_id),
+         subscription_id = COALESCE(excluded.subscription_id, billing_issues.subscription_id),
+         amount_cents = COALESCE(excluded.amount_cents, billing_issues.amount_cents),
+         currency = COALESCE(excluded.currency, billing_issues.currency),
+         status = COALESCE(excluded.status, billing_issues.status),
+         reason = COALESCE(excluded.reason, billing_issues.reason),
+         attempt_count = COALESCE(excluded.attempt_count, billing_issues.attempt_count),
+         next_attempt_at = excluded.next_attempt_at,
+         occurred_at = excluded.occurred_at,
+         resolved_at = NULL,
+         updated_at = excluded.updated_at`
+    )
+    .bind(
+      b.kind,
+      b.objectId,
+      v(b.customerId),
+      v(b.subscriptionId),
+      v(b.amountCents),
+      v(b.currency),
+      v(b.status),
+      v(b.reason),
+      v(b.attemptCount),
+      v(b.nextAttemptAt),
+      b.occurredAt,
+      now
+    )
+    .run();
+}
+
+export async function resolveBillingIssue(db: D1Database, kind: BillingIssueKind, objectId: string): Promise<boolean> {
+  const now = new Date().toISOString();
+  const res = await db
+    .prepare(
+      `UPDATE billing_issues SET resolved_at = ?3, updated_at = ?3
+       WHERE kind = ?1 AND object_id = ?2 AND resolved_at IS NULL`
+    )
+    .bind(kind, objectId, now)
+    .run();
+  return res.meta.changes > 0;
+}
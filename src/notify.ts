@@ -0,0 +1,103 @@
+// src/notify.ts
+// =====================================================
+// Verification code delivery (pluggable)
+//
+// VERIFICATION_SENDER picks the transport:
+//   ghl       GoHighLevel Conversations (SMS or email from the location)
+//   webhook   POST JSON to VERIFICATION_WEBHOOK_URL (Zapier / Make / mail API relay)
+//             body: { channel, to, subject, message, code, expiresAt }
+//             optional VERIFICATION_WEBHOOK_TOKEN sent as Bearer
+//   log       print the code to the Worker log (local dev only)
+//
+// Unset / unknown -> no sender; the portal code endpoint refuses to run.
+// =====================================================
+
+import type { Env } from "./index";
+import { ghlSendMessage } from "./ghl";
+import type { Logger } from "./log";
+import type { VerificationChannel } from "./portalAuth";
+
+export interface VerificationMessage {
+  // BRAND_NAME (src/config.ts), for the message wording.
+  brandName: string;
+  channel: VerificationChannel;
+  to: string;
+  // Email of the customer, so senders that key contacts by email (GHL) can find them.
+  email: string;
+  code: string;
+  expiresAt: string;
+}
+
+export type CodeSender = (
+  env: Env,
+  log: Logger,
+  msg: VerificationMessage
+) => Promise<{ ok: true } | { ok: false; error: string }>;
+
+const SENDERS: Record<string, CodeSender> = {
+  ghl: sendViaGhl,
+  webhook: sendViaWebhook,
+  log: sendViaLog,
+};
+
+export function getCodeSender(env: Env): CodeSender | null {
+  const name = String(env.VERIFICATION_SENDER || "").trim().toLowerCase();
+  return SENDERS[name] || null;
+}
+
+function renderMessage(msg: VerificationMessage): { subject: string; text: string } {
+  const minutes = Math.max(1, Math.round((Date.parse(msg.expiresAt) - Date.now()) / 60000));
+  return {
+    subject: `Your ${msg.brandName} verification code`,
+    text: `Your ${msg.brandName} code is ${msg.code}. It expires in ${minutes} minutes. If you didn't ask for it, ignore this message.`,
+  };
+}
+
+async function sendViaGhl(
+  env: Env,
+  log: Logger,
+  msg: VerificationMessage
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  const { subject, text } = renderMessage(msg);
+  return ghlSendMessage(env, log, {
+    channel: msg.channel,
+    email: msg.email,
+    phone: msg.channel === "sms" ? msg.to : "",
+    subject,
+    message: text,
+  });
+}
+
+async function sendViaWebhook(
+  env: Env,
+  log: Logger,
+  msg: VerificationMessage
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  if (!env.VERIFICATION_WEBHOOK_URL) return { ok: false, error: "missing VERIFICATION_WEBHOOK_URL" };
+  const { subject, text } = renderMessage(msg);
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (env.VERIFICATION_WEBHOOK_TOKEN) headers.Authorization = `Bearer ${env.VERIFICATION_WEBHOOK_TOKEN}`;
+
+  const started = Date.now();
+  try {
+    const res = await fetch(env.VERIFICATION_WEBHOOK_URL, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ channel: msg.channel, to: msg.to, subject, message: text, code: msg.code, expiresAt: msg.expiresAt }),
+    });
+    const durationMs = Date.now() - started;
+    log.info("Verification webhook request", { channel: msg.channel, status: res.status, durationMs });
+    if (!res.ok) return { ok: false, error: `HTTP ${res.status}: ${(await res.text().catch(() => "")).slice(0, 200)}` };
+    return { ok: true };
+  } catch (err) {
+    const error = `network: ${err instanceof Error ? err.message : String(err)}`;
+    log.warn("Verification webhook request failed", { channel: msg.channel, durationMs: Date.now() - started, error });
+    return { ok: false, error };
+  }
+}
+
+async function sendViaLog(_env: Env, log: Logger, msg: VerificationMessage): Promise<{ ok: true }> {
+  log.info("Verification code (log sender, dev only)", { channel: msg.channel, code: msg.code });
+  return { ok: true };
+}
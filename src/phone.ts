@@ -0,0 +1,124 @@
+// src/phone.ts
+// =====================================================
+// Phone normalization -> canonical E.164 ("+15555550123")
+//
+// Every phone that reaches Stripe metadata, D1 or GHL goes through here, so
+// "+1 (555) 555-0123", "555.555.0123" and "15555550123" all become the same
+// GHL contact instead of three.
+//
+// Accepts:
+//   +<country code> ...            international, any common punctuation
+//   00 / 011 <country code> ...    international dialing prefixes
+//   national numbers               read in DEFAULT_PHONE_COUNTRY (US, CA, PR, MX, GB,
+//                                  IE, AU, NZ; default / unknown -> US), with or
+//                                  without the trunk prefix (1 / 0)
+//   "+44 (0)20 ..."                the UK-style "(0)" is dropped
+//
+// Rejects letters, extensions, wrong lengths for known countries and
+// impossible North American numbers (area / exchange codes starting 0 or 1,
+// N11 service codes).
+// =====================================================
+
+import { defaultLogger } from "./log";
+
+interface CountryRule {
+  callingCode: string;
+  nationalLengths: number[];
+  trunkPrefix: string;
+  // International prefix dialed from this country (besides "+").
+  idd: string;
+}
+
+const NANP: CountryRule = { callingCode: "1", nationalLengths: [10], trunkPrefix: "1", idd: "011" };
+
+const COUNTRIES: Record<string, CountryRule> = {
+  US: NANP,
+  CA: NANP,
+  PR: NANP,
+  MX: { callingCode: "52", nationalLengths: [10], trunkPrefix: "", idd: "00" },
+  GB: { callingCode: "44", nationalLengths: [9, 10], trunkPrefix: "0", idd: "00" },
+  IE: { callingCode: "353", nationalLengths: [7, 8, 9], trunkPrefix: "0", idd: "00" },
+  AU: { callingCode: "61", nationalLengths: [9], trunkPrefix: "0", idd: "0011" },
+  NZ: { callingCode: "64", nationalLengths: [8, 9, 10], trunkPrefix: "0", idd: "00" },
+};
+
+export const DEFAULT_PHONE_COUNTRY = "US";
+
+export type PhoneResult = { ok: true; e164: string } | { ok: false; error: string };
+
+function phoneCountry(v: string | undefined): CountryRule {
+  const code = String(v || DEFAULT_PHONE_COUNTRY).trim().toUpperCase();
+  return COUNTRIES[code] || COUNTRIES[DEFAULT_PHONE_COUNTRY];
+}
+
+export function normalizePhone(input: string, defaultCountry?: string): PhoneResult {
+  const raw = String(input ?? "").trim();
+  if (!raw) return { ok: false, error: "is empty" };
+  if (/(ext\.?|x|#)\s*\d+$/i.test(raw)) return { ok: false, error: "must not include an extension" };
+
+  const cleaned = raw.replace(/\(0\)/g, "");
+  if (!/^\+?[\d\s().\-/]+$/.test(cleaned)) {
+    return { ok: false, error: "contains characters that aren't part of a phone number" };
+  }
+
+  const country = phoneCountry(defaultCountry);
+  const digits = cleaned.replace(/\D/g, "");
+
+  if (cleaned.startsWith("+")) return checkInternational(digits);
+  if (country.idd && digits.startsWith(country.idd)) return checkInternational(digits.slice(country.idd.length));
+  return checkNational(digits, country);
+}
+
+// E.164 or "" when the value is absent or can't be normalized (webhook side: never block on a bad phone).
+export function canonicalPhone(input: unknown, defaultCountry?: string): string {
+  const s = String(input ?? "").trim();
+  if (!s) return "";
+  const result = normalizePhone(s, defaultCountry);
+  if (!result.ok) defaultLogger.warn("Dropping unusable phone number", { reason: result.error });
+  return result.ok ? result.e164 : "";
+}
+
+function checkNational(digits: string, country: CountryRule): PhoneResult {
+  let national = digits;
+  if (country.trunkPrefix && national.startsWith(country.trunkPrefix)) {
+    const stripped = national.slice(country.trunkPrefix.length);
+    // NANP "1" is only a trunk prefix on 11-digit input; "0" never starts a national number elsewhere.
+    if (country !== NANP || stripped.length === 10) national = stripped;
+  }
+  return checkCountry(national, country);
+}
+
+function checkInternational(digits: string): PhoneResult {
+  if (digits.startsWith("0")) return { ok: false, error: "has an invalid country code" };
+
+  // Calling codes are prefix-free, so at most one known code matches.
+  const known = Object.values(COUNTRIES).find((c) => digits.startsWith(c.callingCode));
+  if (known) {
+    let national = digits.slice(known.callingCode.length);
+    // "+44 020 ..." — trunk zero written after the country code.
+    if (known.trunkPrefix === "0" && national.startsWith("0")) national = national.slice(1);
+    return checkCountry(national, known);
+  }
+
+  // Anywhere else: E.164 allows at most 15 digits; nothing real is shorter than 8.
+  if (digits.length < 8 || digits.length > 15) return { ok: false, error: "has the wrong number of digits" };
+  return { ok: true, e164: `+${digits}` };
+}
+
+function checkCountry(national: string, country: CountryRule): PhoneResult {
+  if (!country.nationalLengths.includes(national.length)) {
+    return { ok: false, error: "has the wrong number of digits" };
+  }
+  if (country === NANP && !isPossibleNanp(national)) {
+    return { ok: false, error: "is not a valid North American number" };
+  }
+  return { ok: true, e164: `+${country.callingCode}${national}` };
+}
+
+// NPA-NXX-XXXX: area code and exchange start with 2-9, and neither is an N11 service code.
+function isPossibleNanp(national: string): boolean {
+  const area = national.slice(0, 3);
+  const exchange = national.slice(3, 6);
+  const nxx = /^[2-9]\d\d$/;
+  return nxx.test(area) && nxx.test(exchange) && !area.endsWith("11") && !exchange.endsWith("11");
+}
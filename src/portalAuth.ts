@@ -0,0 +1,120 @@
+// src/portalAuth.ts
+// =====================================================
+// One-time codes for the billing portal (D1: portal_verifications)
+//
+//   issuePortalCode   -> new 6-digit code for an email (supersedes older ones)
+//   verifyPortalCode  -> checks the latest live code; single use
+//
+// Only a salted hash of the code is stored. Codes expire after
+// CODE_TTL_SECONDS and are burned after MAX_ATTEMPTS wrong guesses.
+// Sending the code is in src/notify.ts.
+// =====================================================
+
+import { sha256Hex, timingSafeEqualHex } from "./crypto";
+
+export type VerificationChannel = "email" | "sms";
+
+export const CODE_TTL_SECONDS = 10 * 60;
+const MAX_ATTEMPTS = 5;
+const RESEND_INTERVAL_SECONDS = 60;
+// Expired rows are kept this long for support lookups, then purged by the cron.
+const RETENTION_SECONDS = 24 * 60 * 60;
+
+function isoIn(seconds: number): string {
+  return new Date(Date.now() + seconds * 1000).toISOString();
+}
+
+function hashCode(id: string, code: string): Promise<string> {
+  return sha256Hex(`${id}:${code}`);
+}
+
+// 6 digits, uniform (rejection sampling avoids modulo bias).
+function generateCode(): string {
+  const buf = new Uint32Array(1);
+  const limit = Math.floor(0x100000000 / 1_000_000) * 1_000_000;
+  do {
+    crypto.getRandomValues(buf);
+  } while (buf[0] >= limit);
+  return String(buf[0] % 1_000_000).padStart(6, "0");
+}
+
+export async function issuePortalCode(
+  db: D1Database,
+  req: { email: string; customerId: string; channel: VerificationChannel }
+): Promise<{ ok: true; code: string; expiresAt: string } | { ok: false; retryAfterSeconds: number }> {
+  const now = new Date().toISOString();
+
+  const recent = await db
+    .prepare(
+      `SELECT created_at FROM portal_verifications
+       WHERE email = ?1 AND created_at > ?2
+       ORDER BY created_at DESC LIMIT 1`
+    )
+    .bind(req.email, isoIn(-RESEND_INTERVAL_SECONDS))
+    .first<{ created_at: string }>();
+  if (recent) {
+    const elapsed = (Date.now() - Date.parse(recent.created_at)) / 1000;
+    return { ok: false, retryAfterSeconds: Math.max(1, Math.ceil(RESEND_INTERVAL_SECONDS - elapsed)) };
+  }
+
+  const id = crypto.randomUUID();
+  const code = generateCode();
+  const expiresAt = isoIn(CODE_TTL_SECONDS);
+
+  await db.batch([
+    // A new code supersedes any still-live one for the same email.
+    db
+      .prepare("UPDATE portal_verifications SET consumed_at = ?2 WHERE email = ?1 AND consumed_at IS NULL")
+      .bind(req.email, now),
+    db
+      .prepare(
+        `INSERT INTO portal_verifications (id, email, customer_id, channel, code_hash, attempts, expires_at, created_at)
+         VALUES (?1, ?2, ?3, ?4, ?5, 0, ?6, ?7)`
+      )
+      .bind(id, req.email, req.customerId, req.channel, await hashCode(id, code), expiresAt, now),
+  ]);
+
+  return { ok: true, code, expiresAt };
+}
+
+export async function verifyPortalCode(
+  db: D1Database,
+  email: string,
+  code: string
+): Promise<{ ok: true; customerId: string } | { ok: false }> {
+  const now = new Date().toISOString();
+
+  const row = await db
+    .prepare(
+      `SELECT id, customer_id, code_hash FROM portal_verifications
+       WHERE email = ?1 AND consumed_at IS NULL AND expires_at > ?2 AND attempts < ?3
+       ORDER BY created_at DESC LIMIT 1`
+    )
+    .bind(email, now, MAX_ATTEMPTS)
+    .first<{ id: string; customer_id: string; code_hash: string }>();
+  if (!row) return { ok: false };
+
+  if (!timingSafeEqualHex(await hashCode(row.id, code), row.code_hash)) {
+    await db.prepare("UPDATE portal_verifications SET attempts = attempts + 1 WHERE id = ?1").bind(row.id).run();
+    return { ok: false };
+  }
+
+  // Conditional update so two concurrent requests can't both redeem the same code.
+  const consumed = await db
+    .prepare(
+      `UPDATE portal_verifications SET consumed_at = ?2
+       WHERE id = ?1 AND consumed_at IS NULL
+       RETURNING id`
+    )
+    .bind(row.id, now)
+    .first();
+  return consumed ? { ok: true, customerId: row.customer_id } : { ok: false };
+}
+
+export async function purgePortalVerifications(db: D1Database): Promise<number> {
+  const res = await db
+    .prepare("DELETE FROM portal_verifications WHERE expires_at < ?1")
+    .bind(isoIn(-RETENTION_SECONDS))
+    .run();
+  return res.meta.changes ?? 0;
+}
@@ -0,0 +1,168 @@
+// src/rateLimit.ts
+// =====================================================
+// Rate limits for the public /api/* routes (D1 fixed-window counters)
+//
+// Each route belongs to a group; each group has an ".ip" rule (keyed by
+// CF-Connecting-IP) and optionally an ".identifier" rule (keyed by every
+// email / phone in the JSON body, so rotating IPs doesn't help).
+//
+// RATE_LIMITS overrides the defaults, comma-separated "<rule>=<limit>/<seconds>":
+//   RATE_LIMITS="checkout.ip=30/600,portal.identifier=3/900"
+// A limit of 0 disables that rule.
+//
+// Throttled requests get 429 + Retry-After and are logged to rate_limit_events.
+// If D1 is unavailable the request is let through (logged): checkout must not
+// go down because the limiter did.
+// =====================================================
+
+import type { Env } from "./index";
+import type { Logger } from "./log";
+import { normalizePhone } from "./phone";
+
+export interface RateLimitRule {
+  limit: number;
+  windowSeconds: number;
+}
+
+const ROUTE_GROUPS: Record<string, string> = {
+  "/api/create-checkout-session": "checkout",
+  "/api/create-one-time-checkout-session": "checkout",
+  "/api/billing-portal/request-code": "portal",
+  "/api/create-billing-portal": "portal",
+  "/api/get-checkout-contact": "contact",
+  "/api/sms-opt-out": "optout",
+  "/api/member/session": "member",
+  "/api/member/subscription": "member",
+  "/api/member/subscription/preview": "member",
+  "/api/member/subscription/change": "member",
+  "/api/member/subscription/pause": "member",
+  "/api/member/subscription/cancel": "member",
+};
+
+const DEFAULT_RULES: Record<string, RateLimitRule> = {
+  "checkout.ip": { limit: 20, windowSeconds: 600 },
+  "checkout.identifier": { limit: 10, windowSeconds: 600 },
+  "portal.ip": { limit: 10, windowSeconds: 600 },
+  "portal.identifier": { limit: 5, windowSeconds: 900 },
+  "contact.ip": { limit: 30, windowSeconds: 600 },
+  "optout.ip": { limit: 10, windowSeconds: 600 },
+  "member.ip": { limit: 30, windowSeconds: 600 },
+  "member.identifier": { limit: 5, windowSeconds: 900 },
+};
+
+// Throttle log is for review, not forever.
+const EVENT_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+const IDENTIFIER_FIELDS = ["email", "customerEmail", "phone"];
+
+export function parseRateLimits(v: string | undefined, log: Logger): Record<string, RateLimitRule> {
+  const rules: Record<string, RateLimitRule> = { ...DEFAULT_RULES };
+  for (const part of String(v || "").split(",")) {
+    const m = part.trim().match(/^([a-z]+\.(?:ip|identifier))=(\d+)\/(\d+)$/);
+    if (!m) {
+      if (part.trim()) log.warn("Ignoring malformed RATE_LIMITS entry", { entry: part.trim() });
+      continue;
+    }
+    const windowSeconds = Number(m[3]);
+    if (windowSeconds > 0) rules[m[1]] = { limit: Number(m[2]), windowSeconds };
+  }
+  return rules;
+}
+
+// Returns a 429 response when any rule for the route is exceeded, else null.
+export async function enforceRateLimit(
+  request: Request,
+  env: Env,
+  log: Logger,
+  pathname: string
+): Promise<Response | null> {
+  const group = ROUTE_GROUPS[pathname];
+  if (!group || request.method === "OPTIONS") return null;
+
+  const rules = parseRateLimits(env.RATE_LIMITS, log);
+  const ip = request.headers.get("CF-Connecting-IP") || "unknown";
+  const identifiers = request.method === "POST" ? await readIdentifiers(request, env.DEFAULT_PHONE_COUNTRY) : [];
+
+  const checks: { rule: string; key: string }[] = [{ rule: `${group}.ip`, key: ip }];
+  for (const id of identifiers) checks.push({ rule: `${group}.identifier`, key: id });
+  const active = checks.filter((c) => rules[c.rule] && rules[c.rule].limit > 0);
+  if (!active.length) return null;
+
+  const now = Math.floor(Date.now() / 1000);
+
+  try {
+    const results = await env.DB.batch<{ count: number }>(
+      active.map((c) => {
+        const { windowSeconds } = rules[c.rule];
+        const windowStart = now - (now % windowSeconds);
+        return env.DB.prepare(
+          `INSERT INTO rate_limit_counters (bucket, window_start, count, expires_at)
+           VALUES (?1, ?2, 1, ?3)
+           ON CONFLICT(bucket, window_start) DO UPDATE SET count = count + 1
+           RETURNING count`
+        ).bind(`${c.rule}:${c.key}`, windowStart, windowStart + windowSeconds);
+      })
+    );
+
+    const exceeded = active
+      .map((c, i) => ({ ...c, count: Number(results[i].results[0]?.count ?? 0), ...rules[c.rule] }))
+      .filter((c) => c.count > c.limit);
+    if (!exceeded.length) return null;
+
+    const createdAt = new Date().toISOString();
+    await env.DB.batch(
+      exceeded.map((c) =>
+        env.DB.prepare(
+          `INSERT INTO rate_limit_events (route, rule, ip, identifier, count, limit_count, window_seconds, created_at)
+           VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8)`
+        ).bind(pathname, c.rule, ip, c.rule.endsWith(".identifier") ? c.key : null, c.count, c.limit, c.windowSeconds, createdAt)
+      )
+    );
+
+    const retryAfter = Math.max(...exceeded.map((c) => c.windowSeconds - (now % c.windowSeconds)));
+    log.warn("Rate limited", { route: pathname, ip, rules: exceeded.map((c) => c.rule), retryAfter });
+
+    return new Response(JSON.stringify({ error: "Too many requests", retryAfter }), {
+      status: 429,
+      headers: { "Content-Type": "application/json", "Retry-After": String(retryAfter) },
+    });
+  } catch (err) {
+    log.error("Rate limiter unavailable, allowing request", { error: err });
+    return null;
+  }
+}
+
+// Emails lowercased, phones normalized (or reduced to digits), so formatting tricks land in one bucket.
+async function readIdentifiers(request: Request, defaultCountry: string | undefined): Promise<string[]> {
+  let body: any;
+  try {
+    body = await request.clone().json();
+  } catch {
+    return [];
+  }
+  if (!body || typeof body !== "object") return [];
+
+  const out = new Set<string>();
+  for (const field of IDENTIFIER_FIELDS) {
+    const raw = String(body[field] ?? "").trim();
+    if (!raw) continue;
+    if (field === "phone") {
+      const normalized = normalizePhone(raw, defaultCountry);
+      const key = normalized.ok ? normalized.e164 : raw.replace(/\D/g, "");
+      if (key) out.add(`phone:${key}`);
+    } else {
+      out.add(`email:${raw.toLowerCase()}`);
+    }
+  }
+  return [...out];
+}
+
+export async function purgeRateLimits(db: D1Database): Promise<void> {
+  const now = Math.floor(Date.now() / 1000);
+  await db.batch([
+    db.prepare("DELETE FROM rate_limit_counters WHERE expires_at <= ?1").bind(now),
+    db
+      .prepare("DELETE FROM rate_limit_events WHERE created_at < ?1")
+      .bind(new Date((now - EVENT_RETENTION_SECONDS) * 1000).toISOString()),
+  ]);
+}
@@ -1,29 +1,103 @@
-export function renderHtml(content: string) {
-	return `
-    <!DOCTYPE html>
-    <html lang="en">
-      <head>
-        <meta charset="UTF-8" />
-        <meta name="viewport" content="width=device-width, initial-scale=1.0" />
-        <title>D1</title>
-        <link rel="stylesheet" type="text/css" href="https://static.integrations.cloudflare.com/styles.css">
-      </head>
-    
-      <body>
-        <header>
-          <img
-            src="https://imagedelivery.net/wSMYJvS3Xw-n339CbDyDIA/30e0d3f6-6076-40f8-7abb-8a7676f83c00/public"
-          />
-          <h1>🎉 Successfully connected d1-template to D1</h1>
-        </header>
-        <main>
-          <p>Your D1 Database contains the following data:</p>
-          <pre><code><span style="color: #0E838F">&gt; </span>SELECT * FROM comments LIMIT 3;<br>${content}</code></pre>
-          <small class="blue">
-            <a target="_blank" href="https://developers.cloudflare.com/d1/tutorials/build-a-comments-api/">Build a comments API with Workers and D1</a>
-          </small>
-        </main>
-      </body>
-    </html>
+// src/renderHtml.ts
+// =====================================================
+// Server-rendered HTML for the admin dashboard (no client framework).
+// Every dynamic value goes through escapeHtml before it is interpolated.
+// =====================================================
+
+export const ADMIN_NAV: { href: string; label: string }[] = [
+	{ href: "/admin", label: "Overview" },
+	{ href: "/admin/checkouts", label: "Recent checkouts" },
+	{ href: "/admin/subscriptions", label: "Active subscriptions" },
+	{ href: "/admin/ghl-failures", label: "Failed GHL syncs" },
+	{ href: "/admin/events", label: "Webhook events" },
+	{ href: "/admin/throttles", label: "Throttled requests" },
+	{ href: "/admin/diagnostics", label: "Diagnostics" },
+];
+
+export function escapeHtml(value: unknown): string {
+	return String(value ?? "")
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&#39;");
+}
+
+// `body` must already be escaped HTML (build it with the helpers below).
+export function renderHtml(title: string, body: string, activePath = "") {
+	const nav = ADMIN_NAV.map(
+		(n) =>
+			`<a href="${escapeHtml(n.href)}"${n.href === activePath ? ' class="active"' : ""}>${escapeHtml(n.label)}</a>`
+	).join("");
+
+	return `<!DOCTYPE html>
+<html lang="en">
+	<head>
+		<meta charset="UTF-8" />
+		<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+		<meta name="robots" content="noindex" />
+		<title>${escapeHtml(title)} · R4 Admin</title>
+		<style>
+			body { font-family: system-ui, sans-serif; margin: 0; color: #1d1d1f; background: #f6f7f9; }
+			header { background: #0e3a5b; color: #fff; padding: 12px 24px; }
+			header h1 { margin: 0; font-size: 18px; }
+			nav { display: flex; gap: 16px; padding: 8px 24px; background: #fff; border-bottom: 1px solid #dde1e6; }
+			nav a { color: #0e3a5b; text-decoration: none; }
+			nav a.active { font-weight: 600; text-decoration: underline; }
+			main { padding: 16px 24px; }
+			table { border-collapse: collapse; width: 100%; background: #fff; font-size: 13px; }
+			th, td { border: 1px solid #dde1e6; padding: 6px 8px; text-align: left; vertical-align: top; }
+			th { background: #eef1f4; }
+			.cards { display: flex; gap: 16px; flex-wrap: wrap; }
+			.card { background: #fff; border: 1px solid #dde1e6; padding: 12px 16px; min-width: 180px; }
+			.card .n { font-size: 28px; font-weight: 600; }
+			.bad { color: #b42318; font-weight: 600; }
+			.ok { color: #067647; }
+			.muted { color: #6b7280; }
+			.pager { margin-top: 12px; display: flex; gap: 16px; }
+		</style>
+	</head>
+	<body>
+		<header><h1>R4 Home Service · Admin</h1></header>
+		<nav>${nav}</nav>
+		<main>
+			<h2>${escapeHtml(title)}</h2>
+			${body}
+		</main>
+	</body>
+</html>
 `;
 }
+
+export type Column<T> = {
+	label: string;
+	// Returns already-escaped HTML; use `text` for plain values.
+	cell: (row: T) => string;
+};
+
+export function text(value: unknown): string {
+	const s = String(value ?? "");
+	return s ? escapeHtml(s) : '<span class="muted">—</span>';
+}
+
+export function renderTable<T>(columns: Column<T>[], rows: T[], empty = "Nothing to show."): string {
+	if (!rows.length) return `<p class="muted">${escapeHtml(empty)}</p>`;
+
+	const head = columns.map((c) => `<th>${escapeHtml(c.label)}</th>`).join("");
+	const body = rows.map((r) => `<tr>${columns.map((c) => `<td>${c.cell(r)}</td>`).join("")}</tr>`).join("\n");
+	return `<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`;
+}
+
+export function renderPager(path: string, params: URLSearchParams, offset: number, limit: number, nextOffset: number | null) {
+	const link = (o: number, label: string) => {
+		const p = new URLSearchParams(params);
+		p.set("offset", String(o));
+		p.set("limit", String(limit));
+		return `<a href="${escapeHtml(`${path}?${p.toString()}`)}">${escapeHtml(label)}</a>`;
+	};
+
+	const parts: string[] = [];
+	if (offset > 0) parts.push(link(Math.max(0, offset - limit), "← Newer"));
+	if (nextOffset !== null) parts.push(link(nextOffset, "Older →"));
+	return parts.length ? `<div class="pager">${parts.join("")}</div>` : "";
+}
@@ -0,0 +1,145 @@
+// src/requests.ts
+// =====================================================
+// Request schemas for the public /api/* endpoints (see src/schema.ts)
+// =====================================================
+
+import { BILLING_INTERVALS } from "./catalog";
+import { RETURN_URL_KEY } from "./config";
+import { CANCEL_REASONS, MAX_PAUSE_MONTHS } from "./member";
+import { FORMATS, Infer, array, flag, integer, numeric, object, oneOf, optional, phone, string } from "./schema";
+
+const MAX_CART_ITEMS = 20;
+const MAX_QUANTITY = 20;
+const MAX_PART_NUMBER_LENGTH = 64;
+// Stripe caps a billing period at three years (36 months, 156 weeks).
+const MAX_INTERVAL_COUNT = 156;
+// 2100-01-01; anything later is not a timestamp from us.
+const MAX_UNIX_SECONDS = 4_102_444_800;
+
+const partNumber = string({ max: MAX_PART_NUMBER_LENGTH });
+
+// Key of a pre-approved page in RETURN_URLS (src/config.ts); browsers never send a URL.
+const returnUrlKey = string({
+  max: 32,
+  format: { pattern: RETURN_URL_KEY, message: "must be a return URL key" },
+  lower: true,
+});
+
+const cartItem = object({
+  partNumber,
+  quantity: optional(integer({ min: 1, max: MAX_QUANTITY })),
+  addOns: optional(array(partNumber, { max: MAX_CART_ITEMS })),
+});
+
+// Shared by both checkout endpoints. `items` or the legacy single `partNumber` is required
+// (checked in buildCart, src/cart.ts). `phone` comes out as E.164, read in `defaultCountry`
+// when it has no country code.
+function checkoutFields(defaultCountry: string | undefined) {
+  return {
+    customerEmail: optional(string({ max: 254, format: FORMATS.email })),
+    phone: phone(defaultCountry),
+    smsOptIn: optional(flag()),
+    items: optional(array(cartItem, { max: MAX_CART_ITEMS })),
+    partNumber: optional(partNumber),
+    serviceSummary: optional(string({ max: 500 })),
+    // Which consent wording the page showed next to the SMS checkbox, and the page itself.
+    smsConsentVersion: optional(string({ max: 64 })),
+    sourcePage: optional(string({ max: 500 })),
+    successUrlKey: optional(returnUrlKey),
+    cancelUrlKey: optional(returnUrlKey),
+  };
+}
+
+export function checkoutRequest(defaultCountry: string | undefined) {
+  return object({
+    ...checkoutFields(defaultCountry),
+    // Cross-checks only: price and cadence come from the catalog. monthlyAmount is the
+    // legacy name for `amount` (the price per billing period).
+    amount: optional(numeric()),
+    monthlyAmount: optional(numeric()),
+    interval: optional(oneOf(BILLING_INTERVALS)),
+    intervalCount: optional(integer({ min: 1, max: MAX_INTERVAL_COUNT })),
+    // Checked against the PROMO_CODES allowlist (src/config.ts).
+    promoCode: optional(string({ max: 32, format: { pattern: /^[A-Za-z0-9_-]+$/, message: "must be a promo code" } })),
+  });
+}
+
+export function oneTimeCheckoutRequest(defaultCountry: string | undefined) {
+  return object({
+    ...checkoutFields(defaultCountry),
+    oneTimeAmount: optional(numeric()),
+  });
+}
+
+// STOP / unsubscribe. `source` says where it came from, e.g. "sms-stop" from a GHL workflow.
+export function smsOptOutRequest(defaultCountry: string | undefined) {
+  return object({
+    phone: phone(defaultCountry),
+    source: optional(string({ max: 200 })),
+  });
+}
+
+export const portalCodeRequest = object({
+  email: string({ max: 254, format: FORMATS.email, lower: true }),
+  channel: optional(oneOf(["email", "sms"] as const)),
+});
+
+export const billingPortalRequest = object({
+  email: string({ max: 254, format: FORMATS.email, lower: true }),
+  code: string({ max: 12, format: { pattern: /^\d{3}\s?\d{3}$/, message: "must be the 6-digit code" } }),
+  returnUrlKey: optional(returnUrlKey),
+});
+
+// Same email + code as the billing portal, exchanged for a member session token.
+export const memberSessionRequest = object({
+  email: string({ max: 254, format: FORMATS.email, lower: true }),
+  code: string({ max: 12, format: { pattern: /^\d{3}\s?\d{3}$/, message: "must be the 6-digit code" } }),
+});
+
+// Members with more than one live subscription say which; otherwise the newest is meant.
+const subscriptionId = string({ max: 255, format: { pattern: /^sub_\w+$/, message: "must be a subscription id" } });
+
+// The new bundle, in the same shape as checkout (`items` or the legacy `partNumber`).
+export const subscriptionPreviewRequest = object({
+  subscriptionId: optional(subscriptionId),
+  items: optional(array(cartItem, { max: MAX_CART_ITEMS })),
+  partNumber: optional(partNumber),
+});
+
+export const subscriptionChangeRequest = object({
+  subscriptionId: optional(subscriptionId),
+  items: optional(array(cartItem, { max: MAX_CART_ITEMS })),
+  partNumber: optional(partNumber),
+  // Unix seconds from the preview, so the prorations match what the member was shown.
+  prorationDate: optional(integer({ min: 1, max: MAX_UNIX_SECONDS })),
+});
+
+export const subscriptionPauseRequest = object({
+  subscriptionId: optional(subscriptionId),
+  months: integer({ min: 1, max: MAX_PAUSE_MONTHS }),
+});
+
+export const subscriptionCancelRequest = object({
+  subscriptionId: optional(subscriptionId),
+  reason: oneOf(CANCEL_REASONS),
+  comment: optional(string({ max: 500 })),
+});
+
+// Query string; other params (utm_*, cache busters) are ignored.
+export const checkoutContactQuery = object(
+  { session_id: string({ max: 255, format: { pattern: /^cs_\w+$/, message: "must be a Checkout Session id" } }) },
+  { allowUnknown: true }
+);
+
+export type CartItemInput = Infer<typeof cartItem>;
+export type CheckoutRequest = Infer<ReturnType<typeof checkoutRequest>>;
+export type OneTimeCheckoutRequest = Infer<ReturnType<typeof oneTimeCheckoutRequest>>;
+export type SmsOptOutRequest = Infer<ReturnType<typeof smsOptOutRequest>>;
+export type PortalCodeRequest = Infer<typeof portalCodeRequest>;
+export type BillingPortalRequest = Infer<typeof billingPortalRequest>;
+export type MemberSessionRequest = Infer<typeof memberSessionRequest>;
+export type SubscriptionPreviewRequest = Infer<typeof subscriptionPreviewRequest>;
+export type SubscriptionChangeRequest = Infer<typeof subscriptionChangeRequest>;
+export type SubscriptionPauseRequest = Infer<typeof subscriptionPauseRequest>;
+export type SubscriptionCancelRequest = Infer<typeof subscriptionCancelRequest>;
+export type CheckoutContactQuery = Infer<typeof checkoutContactQuery>;
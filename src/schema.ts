@@ -0,0 +1,264 @@
+// src/schema.ts
+// =====================================================
+// Request body validation (tiny, dependency-free)
+//
+// Schemas collect every problem instead of stopping at the first, so the
+// frontend can highlight all bad fields at once:
+//
+//   400 {
+//     "error": "Invalid request",
+//     "fields": [
+//       { "field": "phone", "code": "invalid_format", "message": "has the wrong number of digits" },
+//       { "field": "items[1].quantity", "code": "out_of_range", "message": "must be from 1 to 20" },
+//       { "field": "partNumbr", "code": "unknown_field", "message": "is not a recognized field" }
+//     ]
+//   }
+//
+// Missing, null and blank-string values all count as "not provided".
+// Endpoint schemas live in src/requests.ts.
+// =====================================================
+
+import { normalizePhone } from "./phone";
+
+export type FieldErrorCode =
+  | "invalid_json"
+  | "required"
+  | "invalid_type"
+  | "invalid_format"
+  | "invalid_value"
+  | "too_long"
+  | "too_many_items"
+  | "out_of_range"
+  | "unknown_field"
+  // business rules checked after the shape is valid (src/cart.ts, src/catalog.ts, src/config.ts)
+  | "unknown_part_number"
+  | "wrong_kind"
+  | "currency_mismatch"
+  | "interval_mismatch"
+  | "amount_mismatch"
+  | "unknown_return_url"
+  | "unknown_promo_code";
+
+export interface FieldError {
+  field: string;
+  code: FieldErrorCode;
+  message: string;
+}
+
+export type Parsed<T> = { ok: true; value: T } | { ok: false; errors: FieldError[] };
+
+export interface Schema<T> {
+  optional: boolean;
+  // Returns undefined (and pushes to `errors`) when the value is invalid.
+  check(value: unknown, field: string, errors: FieldError[]): T | undefined;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+
+export type ObjectOf<S extends Shape> = { [K in keyof S]: Infer<S[K]> };
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const FORMATS = {
+  email: { pattern: EMAIL, message: "must be an email address" },
+};
+
+function isMissing(v: unknown): boolean {
+  return v === undefined || v === null || (typeof v === "string" && v.trim() === "");
+}
+
+function fail(errors: FieldError[], field: string, code: FieldErrorCode, message: string): undefined {
+  errors.push({ field: field || "body", code, message });
+  return undefined;
+}
+
+function join(parent: string, key: string | number): string {
+  if (typeof key === "number") return `${parent}[${key}]`;
+  return parent ? `${parent}.${key}` : key;
+}
+
+// =====================================================
+// Primitives
+// =====================================================
+export function string(
+  opts: { max?: number; format?: { pattern: RegExp; message: string }; lower?: boolean } = {}
+): Schema<string> {
+  return {
+    optional: false,
+    check(value, field, errors) {
+      if (typeof value !== "string" && typeof value !== "number") {
+        return fail(errors, field, "invalid_type", "must be a string");
+      }
+      let s = String(value).trim();
+      if (opts.lower) s = s.toLowerCase();
+      if (opts.max !== undefined && s.length > opts.max) {
+        return fail(errors, field, "too_long", `must be at most ${opts.max} characters`);
+      }
+      if (opts.format && !opts.format.pattern.test(s)) return fail(errors, field, "invalid_format", opts.format.message);
+      return s;
+    },
+  };
+}
+
+export function integer(opts: { min: number; max: number }): Schema<number> {
+  return {
+    optional: false,
+    check(value, field, errors) {
+      const n = typeof value === "string" ? Number(value.trim()) : value;
+      if (typeof n !== "number" || !Number.isInteger(n)) {
+        return fail(errors, field, "invalid_type", "must be a whole number");
+      }
+      if (n < opts.min || n > opts.max) {
+        return fail(errors, field, "out_of_range", `must be from ${opts.min} to ${opts.max}`);
+      }
+      return n;
+    },
+  };
+}
+
+// Any common format; the parsed value is canonical E.164 (src/phone.ts).
+export function phone(defaultCountry?: string): Schema<string> {
+  return {
+    optional: false,
+    check(value, field, errors) {
+      if (typeof value !== "string" && typeof value !== "number") {
+        return fail(errors, field, "invalid_type", "must be a string");
+      }
+      const result = normalizePhone(String(value), defaultCountry);
+      return result.ok ? result.e164 : fail(errors, field, "invalid_format", result.error);
+    },
+  };
+}
+
+// Number or numeric string (amounts typed into forms arrive as "49.00").
+export function numeric(): Schema<number> {
+  return {
+    optional: false,
+    check(value, field, errors) {
+      const n = typeof value === "string" ? Number(value.trim()) : value;
+      if (typeof n !== "number" || !Number.isFinite(n)) return fail(errors, field, "invalid_type", "must be a number");
+      return n;
+    },
+  };
+}
+
+// true/false, 1/0, "yes"/"no", "y"/"n", "true"/"false", "1"/"0"
+export function flag(): Schema<boolean> {
+  return {
+    optional: false,
+    check(value, field, errors) {
+      if (value === true || value === 1) return true;
+      if (value === false || value === 0) return false;
+      const s = typeof value === "string" ? value.trim().toLowerCase() : "";
+      if (s === "true" || s === "yes" || s === "y" || s === "1") return true;
+      if (s === "false" || s === "no" || s === "n" || s === "0") return false;
+      return fail(errors, field, "invalid_type", "must be true or false");
+    },
+  };
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Schema<T> {
+  return {
+    optional: false,
+    check(value, field, errors) {
+      const s = typeof value === "string" ? value.trim().toLowerCase() : "";
+      if ((values as readonly string[]).includes(s)) return s as T;
+      return fail(errors, field, "invalid_value", `must be one of: ${values.join(", ")}`);
+    },
+  };
+}
+
+// =====================================================
+// Combinators
+// =====================================================
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return { ...schema, optional: true };
+}
+
+export function array<T>(item: Schema<T>, opts: { max: number }): Schema<T[]> {
+  return {
+    optional: false,
+    check(value, field, errors) {
+      if (!Array.isArray(value)) return fail(errors, field, "invalid_type", "must be an array");
+      if (value.length > opts.max) return fail(errors, field, "too_many_items", `must have at most ${opts.max} entries`);
+
+      const before = errors.length;
+      const out: T[] = [];
+      value.forEach((v, i) => {
+        const path = join(field, i);
+        if (isMissing(v)) {
+          fail(errors, path, "required", "is required");
+          return;
+        }
+        const parsed = item.check(v, path, errors);
+        if (parsed !== undefined) out.push(parsed);
+      });
+      return errors.length === before ? out : undefined;
+    },
+  };
+}
+
+// Unknown keys are errors (catches typos like "partNumbr") unless allowUnknown is set.
+export function object<S extends Shape>(shape: S, opts: { allowUnknown?: boolean } = {}): Schema<ObjectOf<S>> {
+  return {
+    optional: false,
+    check(value, field, errors) {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return fail(errors, field, "invalid_type", "must be an object");
+      }
+      const input = value as Record<string, unknown>;
+      const before = errors.length;
+      const out: Record<string, unknown> = {};
+
+      for (const [key, schema] of Object.entries(shape)) {
+        const path = join(field, key);
+        if (isMissing(input[key])) {
+          if (!schema.optional) fail(errors, path, "required", "is required");
+          continue;
+        }
+        out[key] = schema.check(input[key], path, errors);
+      }
+
+      if (!opts.allowUnknown) {
+        for (const key of Object.keys(input)) {
+          if (Object.prototype.hasOwnProperty.call(shape, key)) continue;
+          fail(errors, join(field, key), "unknown_field", "is not a recognized field");
+        }
+      }
+
+      return errors.length === before ? (out as ObjectOf<S>) : undefined;
+    },
+  };
+}
+
+// =====================================================
+// Entry points
+// =====================================================
+export function parse<T>(schema: Schema<T>, input: unknown): Parsed<T> {
+  const errors: FieldError[] = [];
+  const value = schema.check(input, "", errors);
+  return value === undefined || errors.length ? { ok: false, errors } : { ok: true, value };
+}
+
+export async function parseJsonBody<T>(request: Request, schema: Schema<T>): Promise<Parsed<T>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { ok: false, errors: [{ field: "body", code: "invalid_json", message: "must be valid JSON" }] };
+  }
+  return parse(schema, body);
+}
+
+export function parseQuery<T>(url: URL, schema: Schema<T>): Parsed<T> {
+  return parse(schema, Object.fromEntries(url.searchParams));
+}
+
+export function fieldErrorResponse(errors: FieldError[], status = 400): Response {
+  return new Response(JSON.stringify({ error: "Invalid request", fields: errors }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
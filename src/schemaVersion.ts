@@ -0,0 +1,62 @@
+// src/schemaVersion.ts
+// =====================================================
+// D1 schema version check
+//
+// Migrations in migrations/ are numbered forward-only (NNNN_description.sql,
+// no gaps, never edited once applied; fix mistakes with a new migration).
+// wrangler records every applied file in the d1_migrations table, so the
+// newest row there is the deployed schema version.
+//
+// EXPECTED_MIGRATION is the newest migration this code was written against;
+// bump it in the same change that adds a migration. GET /api/health and the
+// cron trigger report a mismatch:
+//   behind  -> the deploy skipped `wrangler d1 migrations apply` (predeploy)
+//   ahead   -> the database has migrations this code doesn't know (rollback?)
+//   unknown -> d1_migrations is missing or unreadable
+// =====================================================
+
+import type { Logger } from "./log";
+
+export const EXPECTED_MIGRATION = "0019_add_ghl_outbox_event_created.sql";
+
+export type SchemaState = "current" | "behind" | "ahead" | "unknown";
+
+export interface SchemaStatus {
+  state: SchemaState;
+  expected: string;
+  applied: string | null;
+  error?: string;
+}
+
+function migrationNumber(name: string): number {
+  const m = name.match(/^(\d{4})_/);
+  return m ? Number(m[1]) : NaN;
+}
+
+export async function checkSchemaVersion(db: D1Database): Promise<SchemaStatus> {
+  const expected = EXPECTED_MIGRATION;
+  let applied: string | null;
+  try {
+    const row = await db
+      .prepare("SELECT name FROM d1_migrations ORDER BY id DESC LIMIT 1")
+      .first<{ name: string }>();
+    applied = row?.name ?? null;
+  } catch (err) {
+    return { state: "unknown", expected, applied: null, error: err instanceof Error ? err.message : String(err) };
+  }
+  if (!applied) return { state: "unknown", expected, applied };
+
+  const have = migrationNumber(applied);
+  const want = migrationNumber(expected);
+  if (applied === expected) return { state: "current", expected, applied };
+  if (have < want) return { state: "behind", expected, applied };
+  if (have > want) return { state: "ahead", expected, applied };
+  // Same number, different file name: a migration was renamed after being applied.
+  return { state: "unknown", expected, applied, error: "migration name mismatch" };
+}
+
+// Cron-side check: one log line per run while the schema is off.
+export async function logSchemaMismatch(db: D1Database, log: Logger): Promise<void> {
+  const status = await checkSchemaVersion(db);
+  if (status.state !== "current") log.error("D1 schema version mismatch", { schema: status });
+}
@@ -0,0 +1,299 @@
+// src/stripe.ts
+// =====================================================
+// Minimal typed Stripe API client (only what this Worker calls)
+//
+//   - nested params are form-encoded the way Stripe expects:
+//       { metadata: { a: "1" }, line_items: [{ quantity: 1 }] }
+//       -> metadata[a]=1&line_items[0][quantity]=1
+//   - every POST carries an Idempotency-Key (caller-supplied or random), reused
+//     across retries so a retried create can't double-charge / double-create
+//   - 429, 5xx and network errors are retried with exponential backoff
+//     (Stripe-Should-Retry wins when present)
+//   - failures come back as { ok: false, error } instead of throwing
+//   - every attempt is logged with its status and durationMs (src/log.ts)
+//
+// STRIPE_API_BASE_URL overrides https://api.stripe.com (tests / local fake).
+// =====================================================
+
+import type { Env } from "./index";
+import type { Logger } from "./log";
+
+const DEFAULT_BASE_URL = "https://api.stripe.com";
+const MAX_RETRIES = 2;
+const BACKOFF_BASE_MS = 250;
+
+// =====================================================
+// Types (fields this Worker reads; Stripe sends more)
+// =====================================================
+export type StripeParamValue = string | number | boolean | null | undefined | StripeParams | StripeParamValue[];
+export interface StripeParams {
+  [key: string]: StripeParamValue;
+}
+
+export type StripeMetadata = Record<string, string>;
+
+export interface StripeCustomer {
+  id: string;
+  object: "customer";
+  email: string | null;
+  name: string | null;
+  phone: string | null;
+  metadata: StripeMetadata;
+  deleted?: boolean;
+}
+
+export interface StripeCheckoutSession {
+  id: string;
+  object: "checkout.session";
+  url: string | null;
+  mode: "payment" | "setup" | "subscription";
+  customer: string | StripeCustomer | null;
+  customer_email: string | null;
+  customer_details: { email: string | null; name: string | null; phone: string | null } | null;
+  subscription: string | Record<string, unknown> | null;
+  metadata: StripeMetadata | null;
+}
+
+export interface StripeBillingPortalSession {
+  id: string;
+  object: "billing_portal.session";
+  url: string;
+}
+
+export interface StripeCharge {
+  id: string;
+  object: "charge";
+  customer: string | null;
+  amount: number;
+  currency: string;
+}
+
+export interface StripeSubscriptionItem {
+  id: string;
+  quantity: number;
+  price: {
+    id: string;
+    product: string;
+    currency: string;
+    unit_amount: number | null;
+    recurring: { interval: string; interval_count: number } | null;
+  };
+  // Newer API versions report the billing period per item.
+  current_period_end?: number;
+}
+
+export interface StripeSubscription {
+  id: string;
+  object: "subscription";
+  customer: string;
+  status: string;
+  items: StripeList<StripeSubscriptionItem>;
+  metadata: StripeMetadata;
+  cancel_at_period_end: boolean;
+  current_period_end?: number;
+  pause_collection: { behavior: string; resumes_at: number | null } | null;
+  cancellation_details?: { feedback: string | null; comment: string | null } | null;
+}
+
+export interface StripeInvoicePreview {
+  object: "invoice";
+  amount_due: number;
+  currency: string;
+  lines: StripeList<{ description: string | null; amount: number; proration?: boolean }>;
+}
+
+export interface StripeProduct {
+  id: string;
+  object: "product";
+  name: string;
+}
+
+export interface StripeList<T> {
+  object: "list";
+  data: T[];
+  has_more: boolean;
+}
+
+export interface StripeError {
+  // 0 when the request never got an HTTP response
+  status: number;
+  // Stripe error type (card_error, invalid_request_error, ...) or "network_error"
+  type: string;
+  code: string;
+  message: string;
+  requestId: string;
+}
+
+export type StripeResult<T> = { ok: true; data: T } | { ok: false; error: StripeError };
+
+// =====================================================
+// Client
+// =====================================================
+export interface StripeClient {
+  createCheckoutSession(params: StripeParams, idempotencyKey?: string): Promise<StripeResult<StripeCheckoutSession>>;
+  retrieveCheckoutSession(id: string, expand?: string[]): Promise<StripeResult<StripeCheckoutSession>>;
+  createBillingPortalSession(
+    params: { customer: string; return_url: string },
+    idempotencyKey?: string
+  ): Promise<StripeResult<StripeBillingPortalSession>>;
+  retrieveCustomer(id: string): Promise<StripeResult<StripeCustomer>>;
+  listCustomers(query: { limit: number }): Promise<StripeResult<StripeList<StripeCustomer>>>;
+  // Stripe doesn't keep emails unique: one-time checkouts create a customer each time.
+  findCustomersByEmail(email: string, limit: number): Promise<StripeResult<StripeCustomer[]>>;
+  updateCustomer(id: string, params: StripeParams, idempotencyKey?: string): Promise<StripeResult<StripeCustomer>>;
+  retrieveCharge(id: string): Promise<StripeResult<StripeCharge>>;
+  listSubscriptions(query: {
+    customer: string;
+    status?: string;
+    limit: number;
+  }): Promise<StripeResult<StripeList<StripeSubscription>>>;
+  updateSubscription(id: string, params: StripeParams, idempotencyKey?: string): Promise<StripeResult<StripeSubscription>>;
+  createInvoicePreview(params: StripeParams): Promise<StripeResult<StripeInvoicePreview>>;
+  createProduct(params: StripeParams, idempotencyKey?: string): Promise<StripeResult<StripeProduct>>;
+  updateProduct(id: string, params: StripeParams, idempotencyKey?: string): Promise<StripeResult<StripeProduct>>;
+}
+
+export function stripeClient(env: Env, log: Logger): StripeClient {
+  const config: StripeConfig = {
+    secretKey: env.STRIPE_SECRET_KEY,
+    baseUrl: (env.STRIPE_API_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, ""),
+    log,
+  };
+  const get = <T>(path: string, query?: StripeParams) => stripeRequest<T>(config, "GET", path, query);
+  const post = <T>(path: string, params: StripeParams, key?: string) =>
+    stripeRequest<T>(config, "POST", path, params, key || crypto.randomUUID());
+  const id = (v: string) => encodeURIComponent(v);
+
+  return {
+    createCheckoutSession: (params, key) => post("/v1/checkout/sessions", params, key),
+    retrieveCheckoutSession: (sessionId, expand = []) => get(`/v1/checkout/sessions/${id(sessionId)}`, { expand }),
+    createBillingPortalSession: (params, key) => post("/v1/billing_portal/sessions", params, key),
+    retrieveCustomer: (customerId) => get(`/v1/customers/${id(customerId)}`),
+    listCustomers: (query) => get("/v1/customers", query),
+    findCustomersByEmail: async (email, limit) => {
+      const res = await get<StripeList<StripeCustomer>>("/v1/customers", { email, limit });
+      return res.ok ? { ok: true, data: res.data.data } : res;
+    },
+    updateCustomer: (customerId, params, key) => post(`/v1/customers/${id(customerId)}`, params, key),
+    retrieveCharge: (chargeId) => get(`/v1/charges/${id(chargeId)}`),
+    listSubscriptions: (query) => get("/v1/subscriptions", query),
+    updateSubscription: (subscriptionId, params, key) => post(`/v1/subscriptions/${id(subscriptionId)}`, params, key),
+    // A read despite the POST: nothing is created, so a fresh key each time is fine.
+    createInvoicePreview: (params) => post("/v1/invoices/create_preview", params),
+    createProduct: (params, key) => post("/v1/products", params, key),
+    updateProduct: (productId, params, key) => post(`/v1/products/${id(productId)}`, params, key),
+  };
+}
+
+// "type: message (status, req_...)" for logs and event ledger actions.
+export function describeStripeError(e: StripeError): string {
+  return `${e.type}${e.code ? `/${e.code}` : ""}: ${e.message} (${e.status || "no response"}${e.requestId ? `, ${e.requestId}` : ""})`;
+}
+
+// =====================================================
+// Transport
+// =====================================================
+interface StripeConfig {
+  secretKey: string;
+  baseUrl: string;
+  log: Logger;
+}
+
+async function stripeRequest<T>(
+  config: StripeConfig,
+  method: "GET" | "POST",
+  path: string,
+  params: StripeParams = {},
+  idempotencyKey?: string
+): Promise<StripeResult<T>> {
+  const encoded = encodeStripeParams(params);
+  const url = method === "GET" && encoded ? `${config.baseUrl}${path}?${encoded}` : config.baseUrl + path;
+
+  const headers: Record<string, string> = { Authorization: `Bearer ${config.secretKey}` };
+  if (method === "POST") {
+    headers["Content-Type"] = "application/x-www-form-urlencoded";
+    if (idempotencyKey) headers["Idempotency-Key"] = idempotencyKey;
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const started = Date.now();
+    const call = { endpoint: `${method} ${path}`, attempt };
+    let res: Response;
+    try {
+      res = await fetch(url, { method, headers, body: method === "POST" ? encoded : undefined });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      const durationMs = Date.now() - started;
+      if (attempt < MAX_RETRIES) {
+        config.log.warn("Stripe request failed (network), retrying", { ...call, durationMs, error: message });
+        await sleep(backoffMs(attempt));
+        continue;
+      }
+      config.log.error("Stripe request failed (network)", { ...call, durationMs, error: message });
+      return { ok: false, error: { status: 0, type: "network_error", code: "", message, requestId: "" } };
+    }
+
+    const body: any = await res.json().catch(() => null);
+    const durationMs = Date.now() - started;
+    if (res.ok) {
+      config.log.info("Stripe request", { ...call, status: res.status, durationMs });
+      return { ok: true, data: body as T };
+    }
+
+    const error: StripeError = {
+      status: res.status,
+      type: String(body?.error?.type || "api_error"),
+      code: String(body?.error?.code || ""),
+      message: String(body?.error?.message || `HTTP ${res.status}`),
+      requestId: res.headers.get("Request-Id") || "",
+    };
+
+    if (attempt < MAX_RETRIES && shouldRetry(res)) {
+      config.log.warn("Stripe request failed, retrying", { ...call, status: res.status, durationMs });
+      await sleep(backoffMs(attempt));
+      continue;
+    }
+
+    config.log.warn("Stripe request failed", {
+      ...call,
+      status: res.status,
+      durationMs,
+      error: describeStripeError(error),
+    });
+    return { ok: false, error };
+  }
+}
+
+function shouldRetry(res: Response): boolean {
+  const hint = res.headers.get("Stripe-Should-Retry");
+  if (hint === "true") return true;
+  if (hint === "false") return false;
+  return res.status === 429 || res.status >= 500;
+}
+
+// 250ms, 500ms, ... with up to 50% jitter
+function backoffMs(attempt: number): number {
+  const base = BACKOFF_BASE_MS * 2 ** attempt;
+  return base + Math.floor(Math.random() * base * 0.5);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Nested objects -> a[b][c]=v, arrays -> a[0]=v / a[0][b]=v. null / undefined are skipped.
+export function encodeStripeParams(params: StripeParams): string {
+  const form = new URLSearchParams();
+  const walk = (prefix: string, value: StripeParamValue) => {
+    if (value === undefined || value === null) return;
+    if (Array.isArray(value)) {
+      value.forEach((v, i) => walk(`${prefix}[${i}]`, v));
+    } else if (typeof value === "object") {
+      for (const [k, v] of Object.entries(value)) walk(prefix ? `${prefix}[${k}]` : k, v);
+    } else {
+      form.append(prefix, String(value));
+    }
+  };
+  walk("", params);
+  return form.toString();
+}
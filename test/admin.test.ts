@@ -0,0 +1,163 @@
+// test/admin.test.ts
+// Admin JSON API (/admin/api/*) and HTML dashboard (/admin/*): auth, lists fed
+// by webhook events, the SMS consent export and the GHL outbox replay.
+import { env } from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import { Fakes, adminGet, callWorker, deliver, installFakes, postJson, stripeEvent } from "./helpers";
+
+let fakes: Fakes;
+
+beforeEach(() => {
+  fakes = installFakes();
+});
+
+describe("auth", () => {
+  it("requires the bearer token", async () => {
+    const res = await callWorker("/admin/api/customers");
+    expect(res.status).toBe(401);
+    expect(res.headers.get("WWW-Authenticate")).toBe('Bearer realm="R4 Admin"');
+
+    const wrong = await callWorker("/admin/api/customers", { headers: { Authorization: "Bearer nope" } });
+    expect(wrong.status).toBe(401);
+  });
+
+  it("is disabled until ADMIN_API_TOKEN is set", async () => {
+    const res = await callWorker("/admin/api/customers", { headers: { Authorization: "Bearer " } }, { ADMIN_API_TOKEN: "" });
+    expect(res.status).toBe(500);
+  });
+
+  it("asks browsers for Basic auth on the dashboard", async () => {
+    const res = await callWorker("/admin");
+    expect(res.status).toBe(401);
+    expect(res.headers.get("WWW-Authenticate")).toBe('Basic realm="R4 Admin"');
+
+    const ok = await callWorker("/admin", { headers: { Authorization: `Basic ${btoa(`staff:${env.ADMIN_API_TOKEN}`)}` } });
+    expect(ok.status).toBe(200);
+    expect(ok.headers.get("Content-Type")).toMatch(/^text\/html/);
+  });
+
+  it("refuses Basic credentials on the JSON API", async () => {
+    const basic = { Authorization: `Basic ${btoa(`staff:${env.ADMIN_API_TOKEN}`)}` };
+    expect((await callWorker("/admin/api/customers", { headers: basic })).status).toBe(401);
+    expect((await callWorker("/admin/api/ghl-outbox/1/replay", { method: "POST", headers: basic })).status).toBe(401);
+  });
+});
+
+describe("JSON API", () => {
+  beforeEach(async () => {
+    fakes.stripe.addCustomer({ id: "cus_a" });
+    await deliver(
+      stripeEvent("checkout.session.completed", {
+        id: "cs_test_a",
+        mode: "subscription",
+        customer: "cus_a",
+        subscription: "sub_a",
+        amount_total: 4900,
+        currency: "usd",
+        customer_details: { email: "pat@example.com", name: "Pat Doe", phone: "+15552345678" },
+        metadata: { purchaseType: "subscription", partNumber: "R4-PLAN", monthlyAmount: "49.00", smsOptIn: "yes" },
+      })
+    );
+  });
+
+  it("lists what the webhook mirrored", async () => {
+    const customers = await (await adminGet("/admin/api/customers?email=PAT@example.com")).json<any>();
+    expect(customers.data).toHaveLength(1);
+    expect(customers.data[0]).toMatchObject({ id: "cus_a", email: "pat@example.com", ghl_sync_status: "ok" });
+    expect(customers.page).toEqual({ limit: 50, offset: 0, nextOffset: null });
+
+    const subs = await (await adminGet("/admin/api/subscriptions?status=active")).json<any>();
+    expect(subs.data.map((s: any) => s.id)).toEqual(["sub_a"]);
+
+    const purchases = await (await adminGet("/admin/api/purchases?type=subscription")).json<any>();
+    expect(purchases.data.map((p: any) => p.session_id)).toEqual(["cs_test_a"]);
+
+    const events = await (await adminGet("/admin/api/events?type=checkout.session.completed")).json<any>();
+    expect(events.data).toHaveLength(1);
+    expect(events.data[0]).toMatchObject({ status: "processed" });
+  });
+
+  it("404s unknown endpoints and rejects writes", async () => {
+    expect((await adminGet("/admin/api/nope")).status).toBe(404);
+    const res = await callWorker("/admin/api/customers", {
+      method: "POST",
+      headers: { Authorization: `Bearer ${env.ADMIN_API_TOKEN}` },
+    });
+    expect(res.status).toBe(405);
+  });
+
+  it("renders the dashboard pages", async () => {
+    for (const path of ["/admin", "/admin/checkouts", "/admin/subscriptions", "/admin/ghl-failures", "/admin/events", "/admin/throttles"]) {
+      const res = await callWorker(path, { headers: { Authorization: `Bearer ${env.ADMIN_API_TOKEN}` } });
+      expect(res.status, path).toBe(200);
+    }
+  });
+});
+
+describe("GET /admin/api/sms-consent", () => {
+  beforeEach(async () => {
+    await postJson("/api/sms-opt-out", { phone: "555-234-5678", source: "=HYPERLINK(\"x\")" }, { "User-Agent": "agent" });
+  });
+
+  it("returns the history and current state for a phone", async () => {
+    const res = await adminGet("/admin/api/sms-consent?phone=(555)%20234-5678");
+    expect(res.status).toBe(200);
+    const body = await res.json<any>();
+    expect(body.phone).toBe("+15552345678");
+    expect(body.current).toBe("opt_out");
+    expect(body.history).toHaveLength(1);
+  });
+
+  it("exports CSV with formula injection neutralized", async () => {
+    const res = await adminGet("/admin/api/sms-consent?phone=%2B15552345678&format=csv");
+    expect(res.headers.get("Content-Type")).toBe("text/csv; charset=utf-8");
+    expect(res.headers.get("Content-Disposition")).toBe('attachment; filename="sms-consent-15552345678.csv"');
+
+    const [header, row] = (await res.text()).trim().split("\r\n");
+    expect(header).toBe("id,created_at,phone,channel,action,consent_version,source,ip,user_agent,email,checkout_session_id");
+    expect(row).toContain(`,+15552345678,sms,opt_out,,"'=HYPERLINK(""x"")",203.0.113.7,agent,,`);
+  });
+
+  it("requires a valid phone", async () => {
+    expect((await adminGet("/admin/api/sms-consent?phone=123")).status).toBe(400);
+  });
+});
+
+describe("POST /admin/api/ghl-outbox/:id/replay", () => {
+  it("re-sends a dead-lettered upsert", async () => {
+    fakes.stripe.addCustomer({ id: "cus_dead", email: "dead@example.com" });
+    fakes.ghl.failNext(422);
+    await deliver(stripeEvent("charge.refunded", { id: "ch_dead", customer: "cus_dead", amount_refunded: 100 }));
+
+    const outbox = await (await adminGet("/admin/api/ghl-outbox?status=dead")).json<any>();
+    expect(outbox.data).toHaveLength(1);
+    const id = outbox.data[0].id;
+
+    const replay = (n: number) =>
+      callWorker(`/admin/api/ghl-outbox/${n}/replay`, { method: "POST", headers: { Authorization: `Bearer ${env.ADMIN_API_TOKEN}` } });
+
+    const res = await replay(id);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ id, status: "succeeded" });
+    expect(fakes.ghl.upserts()).toHaveLength(2);
+    expect(fakes.ghl.upserts()[1]).toEqual(fakes.ghl.upserts()[0]);
+
+    expect((await replay(id)).status).toBe(404);
+  });
+
+  it("refuses to replay a sync that was merged into a newer one", async () => {
+    fakes.stripe.addCustomer({ id: "cus_old", email: "old@example.com" });
+    fakes.ghl.failNext(503, 2);
+    await deliver(stripeEvent("customer.subscription.updated", { id: "sub_old", customer: "cus_old", status: "active" }));
+    await deliver(stripeEvent("customer.subscription.deleted", { id: "sub_old", customer: "cus_old" }, 1_760_000_060));
+
+    const outbox = await (await adminGet("/admin/api/ghl-outbox?status=superseded")).json<any>();
+    expect(outbox.data).toHaveLength(1);
+    const res = await callWorker(`/admin/api/ghl-outbox/${outbox.data[0].id}/replay`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${env.ADMIN_API_TOKEN}` },
+    });
+    expect(res.status).toBe(404);
+    expect(fakes.ghl.upserts()).toHaveLength(2);
+  });
+});
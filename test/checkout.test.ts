@@ -0,0 +1,499 @@
+// test/checkout.test.ts
+// POST /api/create-checkout-session and /api/create-one-time-checkout-session:
+// validation, catalog pricing, the exact Checkout Session params sent to Stripe,
+// Stripe error mapping, the SMS consent log and per-environment config (src/config.ts).
+import { env } from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import { Fakes, callWorker, deliver, installFakes, postJson, rows, runCron, seedCatalog, seedSetting, stripeEvent } from "./helpers";
+import { formObject } from "./fakes/stripe";
+
+const ISO_TIMESTAMP = expect.stringMatching(/^\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d\.\d{3}Z$/);
+
+let fakes: Fakes;
+
+beforeEach(async () => {
+  fakes = installFakes();
+  await seedCatalog([
+    { partNumber: "R4-PLAN", kind: "subscription", name: "Basic plan", amountCents: 4900 },
+    { partNumber: "R4-FILTER", kind: "subscription", name: "Filter", amountCents: 900 },
+    { partNumber: "R4-YEARLY", kind: "subscription", name: "Yearly plan", amountCents: 49000, interval: "year" },
+    { partNumber: "R4-QUARTERLY", kind: "subscription", name: "Quarterly plan", amountCents: 13900, intervalCount: 3 },
+    { partNumber: "R4-TUNEUP", kind: "one_time", name: "Tune-up", amountCents: 12900 },
+  ]);
+});
+
+function sentForm(): Record<string, string> {
+  const call = fakes.stripe.calls.find((c) => c.path === "/v1/checkout/sessions");
+  return Object.fromEntries(call!.form);
+}
+
+describe("POST /api/create-checkout-session", () => {
+  const body = {
+    customerEmail: "pat@example.com",
+    phone: "(555) 234-5678",
+    smsOptIn: true,
+    items: [{ partNumber: "R4-PLAN", addOns: ["R4-FILTER"] }],
+    smsConsentVersion: "sms-v3",
+    sourcePage: "https://r4homeservice.com/plans",
+  };
+
+  it("creates a subscription session priced from the catalog", async () => {
+    const res = await postJson("/api/create-checkout-session", body, { "User-Agent": "vitest" });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ url: "https://checkout.stripe.test/c/pay/cs_test_1" });
+
+    const metadata = {
+      purchaseType: "subscription",
+      partNumber: "R4-PLAN",
+      serviceSummary: "Basic plan, + Filter",
+      amount: "58.00",
+      interval: "month",
+      intervalCount: "1",
+      monthlyAmount: "58.00",
+      selectorPhone: "+15552345678",
+      smsOptIn: "yes",
+      smsOptInTs: ISO_TIMESTAMP,
+      lineCount: "2",
+      line_0: JSON.stringify({ partNumber: "R4-PLAN", quantity: 1, unitAmountCents: 4900 }),
+      line_1: JSON.stringify({ partNumber: "R4-FILTER", quantity: 1, unitAmountCents: 900, addOnTo: "R4-PLAN" }),
+    };
+    const prefixed = (prefix: string) =>
+      Object.fromEntries(Object.entries(metadata).map(([k, v]) => [`${prefix}[${k}]`, v]));
+
+    expect(sentForm()).toEqual({
+      mode: "subscription",
+      success_url: "https://r4homeservice.com/stripe-success?session_id={CHECKOUT_SESSION_ID}",
+      cancel_url: "https://r4homeservice.com/stripe-cancel",
+      "line_items[0][quantity]": "1",
+      "line_items[0][price_data][currency]": "usd",
+      "line_items[0][price_data][unit_amount]": "4900",
+      "line_items[0][price_data][recurring][interval]": "month",
+      "line_items[0][price_data][product_data][name]": "Basic plan",
+      "line_items[0][price_data][product_data][metadata][partNumber]": "R4-PLAN",
+      "line_items[1][quantity]": "1",
+      "line_items[1][price_data][currency]": "usd",
+      "line_items[1][price_data][unit_amount]": "900",
+      "line_items[1][price_data][recurring][interval]": "month",
+      "line_items[1][price_data][product_data][name]": "Filter",
+      "line_items[1][price_data][product_data][metadata][partNumber]": "R4-FILTER",
+      "line_items[1][price_data][product_data][metadata][addOnTo]": "R4-PLAN",
+      customer_email: "pat@example.com",
+      ...prefixed("metadata"),
+      ...prefixed("subscription_data[metadata]"),
+    });
+
+    const call = fakes.stripe.calls[0];
+    expect(call.authorization).toBe("Bearer sk_test_fake");
+    expect(call.idempotencyKey).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it("logs the SMS opt-in with the consent wording version and request context once checkout completes", async () => {
+    await postJson("/api/create-checkout-session", body, { "User-Agent": "vitest" });
+    const consent = { consent_version: "sms-v3", source: "https://r4homeservice.com/plans", ip: "203.0.113.7", user_agent: "vitest" };
+    expect(await rows("SELECT id FROM sms_consent_log")).toEqual([]);
+    expect(await rows("SELECT checkout_session_id, phone, consent_version, source, ip, user_agent FROM sms_consent_pending")).toEqual([
+      { checkout_session_id: "cs_test_1", phone: "+15552345678", ...consent },
+    ]);
+
+    const completed = stripeEvent("checkout.session.completed", {
+      id: "cs_test_1",
+      mode: "subscription",
+      metadata: formObject(new URLSearchParams(sentForm()), "metadata"),
+    });
+    expect((await deliver(completed)).status).toBe(200);
+    await deliver({ ...completed, id: `${completed.id}_again` });
+
+    expect(
+      await rows("SELECT phone, channel, action, consent_version, source, ip, user_agent, email, checkout_session_id FROM sms_consent_log")
+    ).toEqual([
+      {
+        phone: "+15552345678",
+        channel: "sms",
+        action: "opt_in",
+        ...consent,
+        email: "pat@example.com",
+        checkout_session_id: "cs_test_1",
+      },
+    ]);
+    expect(await rows("SELECT checkout_session_id FROM sms_consent_pending")).toEqual([]);
+  });
+
+  it("keeps an abandoned checkout's opt-in out of the consent log", async () => {
+    await postJson("/api/create-checkout-session", body);
+    expect(await rows("SELECT id FROM sms_consent_log")).toEqual([]);
+
+    await env.DB.prepare("UPDATE sms_consent_pending SET created_at = ?1").bind(new Date(Date.now() - 3 * 86400 * 1000).toISOString()).run();
+    await runCron();
+    expect(await rows("SELECT checkout_session_id FROM sms_consent_pending")).toEqual([]);
+    expect(await rows("SELECT id FROM sms_consent_log")).toEqual([]);
+  });
+
+  it("does not log consent without an opt-in", async () => {
+    await postJson("/api/create-checkout-session", { ...body, smsOptIn: false });
+    expect(sentForm()["metadata[smsOptIn]"]).toBe("no");
+    expect(await rows("SELECT checkout_session_id FROM sms_consent_pending")).toEqual([]);
+  });
+
+  it("accepts the legacy single partNumber", async () => {
+    const res = await postJson("/api/create-checkout-session", { phone: "5552345678", partNumber: "R4-PLAN" });
+    expect(res.status).toBe(200);
+    expect(sentForm()).toMatchObject({ "metadata[partNumber]": "R4-PLAN", "metadata[monthlyAmount]": "49.00" });
+    expect(sentForm()).not.toHaveProperty("customer_email");
+  });
+
+  it("returns every field error at once", async () => {
+    const res = await postJson("/api/create-checkout-session", {
+      customerEmail: "not-an-email",
+      phone: "555-0100",
+      items: [{ partNumber: "R4-PLAN", quantity: 0 }],
+      partNumbr: "typo",
+    });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      error: "Invalid request",
+      fields: [
+        { field: "customerEmail", code: "invalid_format", message: "must be an email address" },
+        { field: "phone", code: "invalid_format", message: "has the wrong number of digits" },
+        { field: "items[0].quantity", code: "out_of_range", message: "must be from 1 to 20" },
+        { field: "partNumbr", code: "unknown_field", message: "is not a recognized field" },
+      ],
+    });
+    expect(fakes.stripe.calls).toEqual([]);
+  });
+
+  it("rejects invalid JSON", async () => {
+    const res = await postJson("/api/create-checkout-session", undefined);
+    expect(res.status).toBe(400);
+    expect((await res.json<any>()).fields).toEqual([{ field: "body", code: "invalid_json", message: "must be valid JSON" }]);
+  });
+
+  it("checks part numbers against the catalog", async () => {
+    const res = await postJson("/api/create-checkout-session", {
+      phone: "5552345678",
+      items: [{ partNumber: "R4-NOPE" }, { partNumber: "R4-TUNEUP" }],
+    });
+    expect(res.status).toBe(400);
+    expect((await res.json<any>()).fields).toEqual([
+      { field: "items[0].partNumber", code: "unknown_part_number", message: "unknown partNumber: R4-NOPE" },
+      { field: "items[1].partNumber", code: "wrong_kind", message: "R4-TUNEUP is not a subscription plan" },
+    ]);
+  });
+
+  it("rejects mixed billing intervals", async () => {
+    const res = await postJson("/api/create-checkout-session", {
+      phone: "5552345678",
+      items: [{ partNumber: "R4-PLAN" }, { partNumber: "R4-YEARLY" }],
+    });
+    expect((await res.json<any>()).fields).toEqual([
+      { field: "items", code: "interval_mismatch", message: "must all share the same billing interval" },
+    ]);
+  });
+
+  it("bills a quarterly plan every 3 months and reports the amount per period", async () => {
+    const res = await postJson("/api/create-checkout-session", {
+      phone: "5552345678",
+      partNumber: "R4-QUARTERLY",
+      amount: 139,
+      interval: "month",
+      intervalCount: 3,
+    });
+    expect(res.status).toBe(200);
+
+    const form = sentForm();
+    expect(form).toMatchObject({
+      "line_items[0][price_data][recurring][interval]": "month",
+      "line_items[0][price_data][recurring][interval_count]": "3",
+      "metadata[amount]": "139.00",
+      "metadata[interval]": "month",
+      "metadata[intervalCount]": "3",
+      "subscription_data[metadata][intervalCount]": "3",
+    });
+    expect(form).not.toHaveProperty("metadata[monthlyAmount]");
+  });
+
+  it("rejects a client cadence that doesn't match the catalog", async () => {
+    const quarterly = { phone: "5552345678", partNumber: "R4-QUARTERLY" };
+    const monthly = await postJson("/api/create-checkout-session", { ...quarterly, interval: "month" });
+    expect((await monthly.json<any>()).fields).toEqual([
+      { field: "intervalCount", code: "interval_mismatch", message: "does not match the plan's billing interval (quarterly)" },
+    ]);
+
+    const yearly = await postJson("/api/create-checkout-session", { ...quarterly, interval: "year", intervalCount: 1 });
+    expect((await yearly.json<any>()).fields).toEqual([
+      { field: "interval", code: "interval_mismatch", message: "does not match the plan's billing interval (quarterly)" },
+    ]);
+    expect(fakes.stripe.calls).toEqual([]);
+  });
+
+  it("rejects mixing monthly and quarterly lines", async () => {
+    const res = await postJson("/api/create-checkout-session", {
+      phone: "5552345678",
+      items: [{ partNumber: "R4-PLAN" }, { partNumber: "R4-QUARTERLY" }],
+    });
+    expect((await res.json<any>()).fields).toEqual([
+      { field: "items", code: "interval_mismatch", message: "must all share the same billing interval" },
+    ]);
+  });
+
+  it("rejects a client amount that doesn't match the catalog", async () => {
+    const res = await postJson("/api/create-checkout-session", { ...body, monthlyAmount: "49.00" });
+    expect(res.status).toBe(400);
+    expect((await res.json<any>()).fields).toEqual([
+      { field: "monthlyAmount", code: "amount_mismatch", message: "does not match the current price (58.00)" },
+    ]);
+  });
+
+  it("passes Stripe's own error through as a 400", async () => {
+    fakes.stripe.failNext(400, { type: "invalid_request_error", code: "email_invalid", message: "Invalid email address" });
+    const res = await postJson("/api/create-checkout-session", body);
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      error: "Stripe error",
+      details: { type: "invalid_request_error", code: "email_invalid", message: "Invalid email address" },
+    });
+    expect(fakes.stripe.calls).toHaveLength(1);
+    expect(await rows("SELECT checkout_session_id FROM sms_consent_pending")).toEqual([]);
+  });
+
+  it("retries Stripe 5xx with the same idempotency key, then reports 502", async () => {
+    fakes.stripe.failNext(503, {}, 3);
+    const res = await postJson("/api/create-checkout-session", body);
+    expect(res.status).toBe(502);
+
+    expect(fakes.stripe.calls).toHaveLength(3);
+    const keys = new Set(fakes.stripe.calls.map((c) => c.idempotencyKey));
+    expect(keys.size).toBe(1);
+  });
+
+  it("recovers when a retry succeeds", async () => {
+    fakes.stripe.failNext(500);
+    const res = await postJson("/api/create-checkout-session", body);
+    expect(res.status).toBe(200);
+    expect(fakes.stripe.calls).toHaveLength(2);
+  });
+
+  it("rejects GET", async () => {
+    expect((await callWorker("/api/create-checkout-session")).status).toBe(405);
+  });
+});
+
+describe("promo codes and trials", () => {
+  const body = { phone: "5552345678", partNumber: "R4-PLAN" };
+  const promos = { PROMO_CODES: "FIRSTMONTH=promo_1Q2w3E,REFER20=referral-20", ALLOW_PROMOTION_CODES: "true" };
+
+  it("applies an allowlisted promotion code and records it in both metadata sets", async () => {
+    const res = await postJson("/api/create-checkout-session", { ...body, promoCode: "firstmonth" }, {}, promos);
+    expect(res.status).toBe(200);
+
+    const form = sentForm();
+    expect(form).toMatchObject({
+      "discounts[0][promotion_code]": "promo_1Q2w3E",
+      "metadata[promoCode]": "FIRSTMONTH",
+      "metadata[discount]": "promo_1Q2w3E",
+      "subscription_data[metadata][promoCode]": "FIRSTMONTH",
+      "subscription_data[metadata][discount]": "promo_1Q2w3E",
+    });
+    // Stripe rejects allow_promotion_codes together with discounts.
+    expect(form).not.toHaveProperty("allow_promotion_codes");
+  });
+
+  it("maps other ids to coupons", async () => {
+    await postJson("/api/create-checkout-session", { ...body, promoCode: "REFER20" }, {}, promos);
+    expect(sentForm()).toMatchObject({ "discounts[0][coupon]": "referral-20", "metadata[discount]": "referral-20" });
+  });
+
+  it("refuses codes that aren't on the allowlist", async () => {
+    const res = await postJson("/api/create-checkout-session", { ...body, promoCode: "HALFOFF" }, {}, promos);
+    expect(res.status).toBe(400);
+    expect((await res.json<any>()).fields).toEqual([
+      { field: "promoCode", code: "unknown_promo_code", message: "unknown promo code: HALFOFF" },
+    ]);
+    expect(fakes.stripe.calls).toEqual([]);
+  });
+
+  it("lets Stripe's page take codes when none was sent and ALLOW_PROMOTION_CODES is on", async () => {
+    await postJson("/api/create-checkout-session", body, {}, promos);
+    expect(sentForm().allow_promotion_codes).toBe("true");
+    expect(sentForm()).not.toHaveProperty("metadata[promoCode]");
+
+    fakes.stripe.calls.length = 0;
+    await postJson("/api/create-checkout-session", body);
+    expect(sentForm()).not.toHaveProperty("allow_promotion_codes");
+  });
+
+  it("starts the subscription with the longest trial in the cart", async () => {
+    await seedCatalog([
+      { partNumber: "R4-TRIAL", kind: "subscription", name: "Trial plan", amountCents: 2900, trialPeriodDays: 30 },
+      { partNumber: "R4-TRIAL-ADDON", kind: "subscription", name: "Add-on", amountCents: 500, trialPeriodDays: 7 },
+    ]);
+    await postJson("/api/create-checkout-session", {
+      phone: "5552345678",
+      items: [{ partNumber: "R4-TRIAL", addOns: ["R4-TRIAL-ADDON"] }],
+    });
+    expect(sentForm()).toMatchObject({
+      "subscription_data[trial_period_days]": "30",
+      "metadata[trialPeriodDays]": "30",
+      "subscription_data[metadata][trialPeriodDays]": "30",
+    });
+  });
+
+  it("sends no trial for plans without one", async () => {
+    await postJson("/api/create-checkout-session", body);
+    expect(sentForm()).not.toHaveProperty("subscription_data[trial_period_days]");
+  });
+
+  it("isn't offered on one-time checkout", async () => {
+    const oneTime = { phone: "5552345678", partNumber: "R4-TUNEUP", promoCode: "REFER20" };
+    const res = await postJson("/api/create-one-time-checkout-session", oneTime, {}, promos);
+    expect((await res.json<any>()).fields).toEqual([
+      { field: "promoCode", code: "unknown_field", message: "is not a recognized field" },
+    ]);
+  });
+});
+
+describe("POST /api/create-one-time-checkout-session", () => {
+  it("creates a payment session with PaymentIntent metadata", async () => {
+    const res = await postJson("/api/create-one-time-checkout-session", {
+      customerEmail: "sam@example.com",
+      phone: "+1 555 345 6789",
+      items: [{ partNumber: "R4-TUNEUP", quantity: 2 }],
+      oneTimeAmount: 258,
+    });
+    expect(res.status).toBe(200);
+
+    const metadata = {
+      purchaseType: "one_time",
+      partNumber: "R4-TUNEUP",
+      serviceSummary: "Tune-up x2",
+      oneTimeAmount: "258.00",
+      selectorPhone: "+15553456789",
+      smsOptIn: "no",
+      smsOptInTs: ISO_TIMESTAMP,
+      lineCount: "1",
+      line_0: JSON.stringify({ partNumber: "R4-TUNEUP", quantity: 2, unitAmountCents: 12900 }),
+    };
+    const prefixed = (prefix: string) =>
+      Object.fromEntries(Object.entries(metadata).map(([k, v]) => [`${prefix}[${k}]`, v]));
+
+    expect(sentForm()).toEqual({
+      mode: "payment",
+      customer_creation: "always",
+      success_url: "https://r4homeservice.com/stripe-success?session_id={CHECKOUT_SESSION_ID}",
+      cancel_url: "https://r4homeservice.com/stripe-cancel",
+      "line_items[0][quantity]": "2",
+      "line_items[0][price_data][currency]": "usd",
+      "line_items[0][price_data][unit_amount]": "12900",
+      "line_items[0][price_data][product_data][name]": "Tune-up",
+      "line_items[0][price_data][product_data][metadata][partNumber]": "R4-TUNEUP",
+      customer_email: "sam@example.com",
+      ...prefixed("metadata"),
+      ...prefixed("payment_intent_data[metadata]"),
+    });
+  });
+
+  it("keeps the joined part numbers within Stripe's 500-char metadata limit", async () => {
+    const partNumbers = Array.from({ length: 20 }, (_, i) => `R4-PART-${String(i).padStart(2, "0")}-${"X".repeat(52)}`);
+    await seedCatalog(partNumbers.map((partNumber) => ({ partNumber, kind: "one_time", name: "Part", amountCents: 100 })));
+
+    const res = await postJson("/api/create-one-time-checkout-session", {
+      customerEmail: "sam@example.com",
+      phone: "+1 555 345 6789",
+      items: partNumbers.map((partNumber) => ({ partNumber })),
+    });
+    expect(res.status).toBe(200);
+    const partNumber = sentForm()["metadata[partNumber]"];
+    expect(partNumber).toHaveLength(500);
+    expect(partNumber.startsWith(partNumbers.slice(0, 7).join(", "))).toBe(true);
+  });
+
+  it("refuses subscription plans", async () => {
+    const res = await postJson("/api/create-one-time-checkout-session", { phone: "5552345678", partNumber: "R4-PLAN" });
+    expect((await res.json<any>()).fields).toEqual([
+      { field: "partNumber", code: "wrong_kind", message: "R4-PLAN is not a one-time service" },
+    ]);
+  });
+});
+
+describe("per-environment config", () => {
+  const body = { phone: "5552345678", partNumber: "R4-PLAN" };
+  const urls = {
+    RETURN_URLS: "plans=https://staging.r4homeservice.com/plans,thanks=https://staging.r4homeservice.com/thanks",
+  };
+
+  it("uses the environment's success and cancel URLs", async () => {
+    const res = await postJson("/api/create-checkout-session", body, {}, {
+      CHECKOUT_SUCCESS_URL: "https://staging.r4homeservice.com/done?from=checkout",
+      CHECKOUT_CANCEL_URL: "https://staging.r4homeservice.com/plans",
+    });
+    expect(res.status).toBe(200);
+    expect(sentForm()).toMatchObject({
+      success_url: "https://staging.r4homeservice.com/done?from=checkout&session_id={CHECKOUT_SESSION_ID}",
+      cancel_url: "https://staging.r4homeservice.com/plans",
+    });
+  });
+
+  it("lets the request pick pre-approved pages by key", async () => {
+    const res = await postJson(
+      "/api/create-one-time-checkout-session",
+      { phone: "5552345678", partNumber: "R4-TUNEUP", successUrlKey: "Thanks", cancelUrlKey: "plans" },
+      {},
+      urls
+    );
+    expect(res.status).toBe(200);
+    expect(sentForm()).toMatchObject({
+      success_url: "https://staging.r4homeservice.com/thanks?session_id={CHECKOUT_SESSION_ID}",
+      cancel_url: "https://staging.r4homeservice.com/plans",
+    });
+  });
+
+  it("refuses unknown keys and raw URLs", async () => {
+    const res = await postJson(
+      "/api/create-checkout-session",
+      { ...body, successUrlKey: "https://evil.example", cancelUrlKey: "nope" },
+      {},
+      urls
+    );
+    expect(res.status).toBe(400);
+    expect((await res.json<any>()).fields).toEqual([
+      { field: "successUrlKey", code: "invalid_format", message: "must be a return URL key" },
+    ]);
+
+    const unknown = await postJson("/api/create-checkout-session", { ...body, cancelUrlKey: "nope" }, {}, urls);
+    expect((await unknown.json<any>()).fields).toEqual([
+      { field: "cancelUrlKey", code: "unknown_return_url", message: "unknown return URL key: nope" },
+    ]);
+    expect(fakes.stripe.calls).toEqual([]);
+  });
+
+  it("prefers the D1 settings table over env vars", async () => {
+    await seedSetting("CHECKOUT_CANCEL_URL", "https://brand2.example/cancel");
+    await postJson("/api/create-checkout-session", body, {}, { CHECKOUT_CANCEL_URL: "https://staging.r4homeservice.com/plans" });
+    expect(sentForm().cancel_url).toBe("https://brand2.example/cancel");
+  });
+
+  it("ignores a URL setting that isn't https", async () => {
+    await postJson("/api/create-checkout-session", body, {}, { CHECKOUT_CANCEL_URL: "javascript:alert(1)" });
+    expect(sentForm().cancel_url).toBe("https://r4homeservice.com/stripe-cancel");
+  });
+
+  it("fills the brand into catalog names", async () => {
+    await seedCatalog([{ partNumber: "R4-BRANDED", kind: "subscription", name: "{brand} Plan", amountCents: 2900 }]);
+    await postJson("/api/create-checkout-session", { ...body, partNumber: "R4-BRANDED" }, {}, { BRAND_NAME: "Acme Home" });
+    expect(sentForm()).toMatchObject({
+      "line_items[0][price_data][product_data][name]": "Acme Home Plan",
+      "metadata[serviceSummary]": "Acme Home Plan",
+    });
+  });
+
+  it("only sells items priced in the environment's currency", async () => {
+    await seedCatalog([{ partNumber: "R4-CAD", kind: "subscription", name: "Plan (CAD)", amountCents: 3900, currency: "cad" }]);
+    const res = await postJson("/api/create-checkout-session", { phone: "5552345678", partNumber: "R4-CAD" });
+    expect((await res.json<any>()).fields).toEqual([
+      { field: "partNumber", code: "currency_mismatch", message: "R4-CAD is not priced in USD" },
+    ]);
+
+    const cad = await postJson("/api/create-checkout-session", { phone: "5552345678", partNumber: "R4-CAD" }, {}, { CURRENCY: "CAD" });
+    expect(cad.status).toBe(200);
+    expect(sentForm()["line_items[0][price_data][currency]"]).toBe("cad");
+  });
+});
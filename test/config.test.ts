@@ -0,0 +1,81 @@
+// test/config.test.ts
+// Parsing of the per-environment settings (src/config.ts); the handlers'
+// use of them is covered in checkout.test.ts and portal.test.ts.
+import { describe, expect, it } from "vitest";
+import { ConfigKey, DEFAULT_CONFIG, parseConfig, promoDiscount, returnUrl, withSessionId } from "../src/config";
+import { createLogger } from "../src/log";
+
+const log = createLogger({ LOG_LEVEL: "error" });
+
+function configFrom(values: Partial<Record<ConfigKey, string>>) {
+  return parseConfig((key) => values[key] ?? "", log);
+}
+
+describe("parseConfig", () => {
+  it("falls back to the defaults", () => {
+    expect(configFrom({})).toEqual(DEFAULT_CONFIG);
+  });
+
+  it("normalizes the currency and drops invalid values", () => {
+    expect(configFrom({ CURRENCY: "CAD" }).currency).toBe("cad");
+    expect(configFrom({ CURRENCY: "dollars" }).currency).toBe("usd");
+  });
+
+  it("only accepts https URLs (http for localhost)", () => {
+    expect(configFrom({ PORTAL_RETURN_URL: "http://localhost:8787/manage" }).portalReturnUrl).toBe("http://localhost:8787/manage");
+    for (const bad of ["http://r4homeservice.com/manage", "https://user:pw@r4homeservice.com/", "/manage", "data:text/html,hi"]) {
+      expect(configFrom({ PORTAL_RETURN_URL: bad }).portalReturnUrl).toBe(DEFAULT_CONFIG.portalReturnUrl);
+    }
+  });
+
+  it("parses RETURN_URLS, skipping malformed entries", () => {
+    const config = configFrom({
+      RETURN_URLS: " Plans=https://r4homeservice.com/plans , bad key=https://x.example, nourl, ftp=ftp://x.example/",
+    });
+    expect(config.returnUrls).toEqual({ plans: "https://r4homeservice.com/plans" });
+  });
+});
+
+describe("promo codes", () => {
+  const config = configFrom({ PROMO_CODES: "firstmonth=promo_1Q2w3E, REFER20 = referral-20, BAD CODE=x, EMPTY=" });
+
+  it("parses the allowlist, skipping malformed entries", () => {
+    expect(config.promoCodes).toEqual({
+      FIRSTMONTH: { promotion_code: "promo_1Q2w3E" },
+      REFER20: { coupon: "referral-20" },
+    });
+  });
+
+  it("matches codes case-insensitively, own keys only", () => {
+    expect(promoDiscount(config, " FirstMonth ")).toEqual({ promotion_code: "promo_1Q2w3E" });
+    expect(promoDiscount(config, "constructor")).toBeNull();
+    expect(promoDiscount(config, "HALFOFF")).toBeNull();
+  });
+
+  it("turns on allow_promotion_codes only for \"true\"", () => {
+    expect(configFrom({ ALLOW_PROMOTION_CODES: "TRUE" }).allowPromotionCodes).toBe(true);
+    expect(configFrom({ ALLOW_PROMOTION_CODES: "yes" }).allowPromotionCodes).toBe(false);
+  });
+});
+
+describe("returnUrl", () => {
+  const config = configFrom({ RETURN_URLS: "plans=https://r4homeservice.com/plans" });
+
+  it("resolves a key, or the fallback when none is sent", () => {
+    expect(returnUrl(config, "cancelUrlKey", "plans", "https://fallback.example")).toEqual({
+      ok: true,
+      url: "https://r4homeservice.com/plans",
+    });
+    expect(returnUrl(config, "cancelUrlKey", undefined, "https://fallback.example")).toEqual({
+      ok: true,
+      url: "https://fallback.example",
+    });
+    expect(returnUrl(config, "cancelUrlKey", "constructor", "https://fallback.example").ok).toBe(false);
+  });
+
+  it("adds the session id placeholder to success URLs once", () => {
+    expect(withSessionId("https://x.example/done")).toBe("https://x.example/done?session_id={CHECKOUT_SESSION_ID}");
+    expect(withSessionId("https://x.example/done?a=1")).toBe("https://x.example/done?a=1&session_id={CHECKOUT_SESSION_ID}");
+    expect(withSessionId(DEFAULT_CONFIG.checkoutSuccessUrl)).toBe(DEFAULT_CONFIG.checkoutSuccessUrl);
+  });
+});
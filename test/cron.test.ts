@@ -0,0 +1,202 @@
+// test/cron.test.ts
+// scheduled(): GHL outbox drain (retry of upserts that failed inline) and
+// purging of expired portal codes / rate-limit windows.
+import { env } from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import { Fakes, deliver, installFakes, rows, runCron, seedMirrorCustomer, stripeEvent } from "./helpers";
+
+let fakes: Fakes;
+
+beforeEach(async () => {
+  fakes = installFakes();
+  await seedMirrorCustomer({ id: "cus_q", email: "q@example.com", phone: "+15552345678" });
+  fakes.stripe.addCustomer({ id: "cus_q", email: "q@example.com" });
+});
+
+// Outbox rows are scheduled in the future; pull them forward so the drain picks them up.
+async function makeOutboxDue(): Promise<void> {
+  await env.DB.prepare("UPDATE ghl_outbox SET next_attempt_at = ?1").bind(new Date(Date.now() - 1000).toISOString()).run();
+}
+
+function checkoutSession() {
+  return {
+    id: "cs_q",
+    mode: "subscription",
+    customer: "cus_q",
+    subscription: "sub_q",
+    customer_details: { email: "q@example.com", name: "Quinn Q", phone: "+15552345678" },
+    metadata: { purchaseType: "subscription", partNumber: "R4-PLAN", smsOptIn: "yes", smsOptInTs: "2026-10-01T12:00:00.000Z" },
+  };
+}
+
+function fieldsOf(upsert: any): Record<string, string> {
+  return Object.fromEntries(upsert.customFields.map((f: any) => [f.key, f.field_value]));
+}
+
+async function outbox() {
+  return rows<{ status: string; attempts: number; last_error: string | null }>(
+    "SELECT status, attempts, last_error FROM ghl_outbox ORDER BY id"
+  );
+}
+
+describe("GHL outbox", () => {
+  it("queues a failed upsert and delivers it on the next cron run", async () => {
+    fakes.ghl.failNext(503);
+    const event = stripeEvent("customer.subscription.deleted", { id: "sub_q", customer: "cus_q", canceled_at: 1_760_000_000 });
+    expect((await deliver(event)).status).toBe(200);
+
+    const [ledgerRow] = await rows<{ actions: string }>("SELECT actions FROM stripe_events WHERE id = ?1", event.id);
+    expect(JSON.parse(ledgerRow.actions)).toContain("ghl.upsert: queued");
+    expect(await outbox()).toEqual([{ status: "pending", attempts: 1, last_error: 'upsert: HTTP 503: {"message":"Fake failure"}' }]);
+    expect(await rows("SELECT ghl_sync_status FROM customers")).toEqual([{ ghl_sync_status: "queued" }]);
+
+    // Not due yet: nothing happens.
+    await runCron();
+    expect(fakes.ghl.upserts()).toHaveLength(1);
+
+    await makeOutboxDue();
+    await runCron();
+
+    // The whole sync is replayed: upsert with the same payload, then the tag removal.
+    const [first, retried] = fakes.ghl.upserts();
+    expect(retried).toEqual(first);
+    expect(fakes.ghl.tagRemovals()).toEqual([
+      { contactId: "ghl_contact_1", tags: ["R4-Subscriber", "R4-PastDue", "R4-Paused", "R4-PaymentFailed", "R4-CancelPending"] },
+    ]);
+    expect(await outbox()).toEqual([{ status: "succeeded", attempts: 2, last_error: null }]);
+    expect(await rows("SELECT ghl_sync_status FROM customers")).toEqual([{ ghl_sync_status: "ok" }]);
+  });
+
+  it("retries a failed tag removal as part of the same sync", async () => {
+    // Upsert succeeds, tag removal fails -> the whole sync is queued.
+    fakes.ghl.failNext(502, 1, /\/tags$/);
+    await deliver(stripeEvent("customer.subscription.updated", { id: "sub_q", customer: "cus_q", status: "canceled" }));
+    expect(await outbox()).toEqual([
+      { status: "pending", attempts: 1, last_error: 'remove tags: HTTP 502: {"message":"Fake failure"}' },
+    ]);
+
+    await makeOutboxDue();
+    await runCron();
+    expect(fakes.ghl.calls.map((c) => `${c.method} ${c.path}`)).toEqual([
+      "POST /contacts/upsert",
+      "DELETE /contacts/ghl_contact_1/tags",
+      "POST /contacts/upsert",
+      "DELETE /contacts/ghl_contact_1/tags",
+    ]);
+    expect((await outbox())[0].status).toBe("succeeded");
+  });
+
+  it("dead-letters non-retryable failures without retrying", async () => {
+    fakes.ghl.failNext(422);
+    await deliver(stripeEvent("charge.refunded", { id: "ch_q", customer: "cus_q", amount_refunded: 100 }));
+    expect(await outbox()).toEqual([{ status: "dead", attempts: 1, last_error: 'upsert: HTTP 422: {"message":"Fake failure"}' }]);
+    expect(await rows("SELECT ghl_sync_status FROM customers")).toEqual([{ ghl_sync_status: "failed" }]);
+
+    await makeOutboxDue();
+    await runCron();
+    expect(fakes.ghl.upserts()).toHaveLength(1);
+  });
+
+  it("keeps a queued checkout's fields when a later lifecycle sync goes through", async () => {
+    fakes.ghl.failNext(503);
+    await deliver(stripeEvent("checkout.session.completed", checkoutSession(), 1_760_000_000));
+    expect(await outbox()).toMatchObject([{ status: "pending" }]);
+
+    await deliver(stripeEvent("customer.subscription.updated", { id: "sub_q", customer: "cus_q", status: "past_due" }, 1_760_000_060));
+    expect(fakes.ghl.upserts()).toHaveLength(2);
+
+    await makeOutboxDue();
+    await runCron();
+    // The retry still carries the checkout's contact fields and SMS opt-in, minus
+    // what the newer sync already set (contact name, status tags, subscription ids).
+    const retried = fakes.ghl.upserts()[2];
+    expect(retried.tags).toEqual(["SMS-OptIn"]);
+    expect(retried).toMatchObject({ email: "q@example.com", phone: "+15552345678" });
+    expect(retried).not.toHaveProperty("name");
+    expect(fieldsOf(retried)).toMatchObject({ r4_part_number: "R4-PLAN", r4_sms_opt_in: "yes" });
+    expect(fieldsOf(retried)).not.toHaveProperty("stripe_subscription_id");
+    expect(fakes.ghl.tagRemovals().at(-1)).toEqual({ contactId: "ghl_contact_1", tags: ["R4-Paused", "SMS-OptOut"] });
+    expect(await outbox()).toMatchObject([{ status: "succeeded" }]);
+  });
+
+  it("merges a queued checkout into a later queued lifecycle sync", async () => {
+    fakes.ghl.failNext(503, 2);
+    await deliver(stripeEvent("checkout.session.completed", checkoutSession(), 1_760_000_000));
+    await deliver(stripeEvent("customer.subscription.updated", { id: "sub_q", customer: "cus_q", status: "past_due" }, 1_760_000_060));
+    expect(await outbox()).toMatchObject([{ status: "superseded" }, { status: "pending" }]);
+
+    await makeOutboxDue();
+    await runCron();
+    expect(fakes.ghl.upserts()).toHaveLength(3);
+    const merged = fakes.ghl.upserts()[2];
+    expect(merged.tags).toEqual(["R4-Subscriber", "SMS-OptIn", "R4-PastDue"]);
+    expect(merged.name).toBe("Quinn Q");
+    expect(fieldsOf(merged)).toMatchObject({
+      r4_part_number: "R4-PLAN",
+      r4_sms_opt_in: "yes",
+      stripe_subscription_status: "past_due",
+    });
+    expect(await outbox()).toMatchObject([{ status: "superseded" }, { status: "succeeded" }]);
+  });
+
+  it("orders merged syncs by Stripe event time, not arrival", async () => {
+    fakes.ghl.failNext(503, 2);
+    await deliver(stripeEvent("customer.subscription.updated", { id: "sub_q", customer: "cus_q", status: "past_due" }, 1_760_000_060));
+    // An older event delivered late.
+    await deliver(stripeEvent("customer.subscription.updated", { id: "sub_q", customer: "cus_q", status: "active" }, 1_760_000_000));
+
+    await makeOutboxDue();
+    await runCron();
+    const merged = fakes.ghl.upserts()[2];
+    expect(merged.tags).toEqual(["R4-Subscriber", "R4-PastDue"]);
+    expect(fieldsOf(merged)).toMatchObject({ stripe_subscription_status: "past_due" });
+  });
+
+  it("leaves dead-lettered rows alone for the admin replay", async () => {
+    fakes.ghl.failNext(422);
+    await deliver(stripeEvent("customer.subscription.updated", { id: "sub_q", customer: "cus_q", status: "active" }, 1_760_000_000));
+    fakes.ghl.failNext(503);
+    await deliver(stripeEvent("customer.subscription.deleted", { id: "sub_q", customer: "cus_q" }, 1_760_000_060));
+    await deliver(stripeEvent("customer.subscription.updated", { id: "sub_q", customer: "cus_q", status: "canceled" }, 1_760_000_120));
+    expect(await outbox()).toMatchObject([{ status: "dead" }, { status: "pending" }]);
+  });
+
+  it("gives up after GHL_OUTBOX_MAX_ATTEMPTS", async () => {
+    fakes.ghl.failNext(500, 3);
+    await deliver(stripeEvent("charge.refunded", { id: "ch_q2", customer: "cus_q", amount_refunded: 100 }));
+
+    for (let i = 0; i < 2; i++) {
+      await makeOutboxDue();
+      await runCron({ GHL_OUTBOX_MAX_ATTEMPTS: "3" });
+    }
+
+    expect(await outbox()).toMatchObject([{ status: "dead", attempts: 3 }]);
+    expect(await rows("SELECT ghl_sync_status FROM customers")).toEqual([{ ghl_sync_status: "failed" }]);
+  });
+});
+
+describe("purges", () => {
+  it("removes expired portal codes, member sessions and rate-limit windows", async () => {
+    const longAgo = new Date(Date.now() - 2 * 86400 * 1000).toISOString();
+    await env.DB.batch([
+      env.DB.prepare(
+        `INSERT INTO portal_verifications (id, email, customer_id, channel, code_hash, attempts, expires_at, created_at)
+         VALUES ('old', 'a@example.com', 'cus_q', 'email', 'x', 0, ?1, ?1)`
+      ).bind(longAgo),
+      env.DB.prepare(
+        `INSERT INTO member_sessions (id, token_hash, customer_id, email, expires_at, created_at)
+         VALUES ('old', 'x', 'cus_q', 'a@example.com', ?1, ?1)`
+      ).bind(longAgo),
+      env.DB.prepare("INSERT INTO rate_limit_counters (bucket, window_start, count, expires_at) VALUES ('contact.ip:1', 0, 5, 600)"),
+      env.DB.prepare(
+        `INSERT INTO rate_limit_counters (bucket, window_start, count, expires_at) VALUES ('contact.ip:2', ?1, 1, ?2)`
+      ).bind(Math.floor(Date.now() / 1000), Math.floor(Date.now() / 1000) + 600),
+    ]);
+
+    await runCron();
+
+    expect(await rows("SELECT id FROM portal_verifications")).toEqual([]);
+    expect(await rows("SELECT id FROM member_sessions")).toEqual([]);
+    expect(await rows("SELECT bucket FROM rate_limit_counters")).toEqual([{ bucket: "contact.ip:2" }]);
+  });
+});
@@ -0,0 +1,151 @@
+// test/diagnostics.test.ts
+// GET /api/health (public) and the admin diagnostics (JSON + dashboard page).
+import { env } from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import { Fakes, adminGet, callWorker, deliver, installFakes, stripeEvent } from "./helpers";
+
+let fakes: Fakes;
+
+beforeEach(() => {
+  fakes = installFakes();
+});
+
+async function health(overrides = {}) {
+  const res = await callWorker("/api/health", {}, overrides);
+  return { status: res.status, body: await res.json<any>() };
+}
+
+describe("GET /api/health", () => {
+  it("reports ok without calling Stripe or GHL", async () => {
+    const res = await health();
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      status: "ok",
+      problems: [],
+      secrets: {
+        STRIPE_SECRET_KEY: true,
+        STRIPE_WEBHOOK_SECRET: true,
+        GHL_PRIVATE_TOKEN: true,
+        GHL_LOCATION_ID: true,
+        ADMIN_API_TOKEN: true,
+        VERIFICATION_WEBHOOK_TOKEN: false,
+      },
+      d1: { ok: true },
+      schema: { state: "current" },
+      webhooks: { lastProcessedAt: null, failed: 0 },
+      ghlOutbox: { pending: 0, dead: 0, oldestPendingAt: null },
+    });
+    expect(res.body).not.toHaveProperty("credentials");
+    expect(fakes.stripe.calls).toEqual([]);
+    expect(fakes.ghl.calls).toEqual([]);
+  });
+
+  it("never includes secret values", async () => {
+    const text = await (await callWorker("/api/health")).text();
+    for (const value of [env.STRIPE_SECRET_KEY, env.GHL_PRIVATE_TOKEN, env.ADMIN_API_TOKEN, "whsec_test_current"]) {
+      expect(text).not.toContain(value);
+    }
+  });
+
+  it("is degraded when GHL is not configured", async () => {
+    const res = await health({ GHL_PRIVATE_TOKEN: "" });
+    expect(res.status).toBe(200);
+    expect(res.body.status).toBe("degraded");
+    expect(res.body.problems).toEqual(["GHL not configured: contact sync is skipped"]);
+  });
+
+  it("is down without the Stripe secrets", async () => {
+    const res = await health({ STRIPE_WEBHOOK_SECRET: "" });
+    expect(res.status).toBe(503);
+    expect(res.body.status).toBe("down");
+    expect(res.body.problems).toEqual(["STRIPE_WEBHOOK_SECRET is not set"]);
+  });
+
+  it("names a failing D1 check without its error message", async () => {
+    await env.DB.batch([
+      env.DB.prepare("ALTER TABLE ghl_outbox RENAME TO ghl_outbox_moved"),
+      env.DB.prepare("ALTER TABLE d1_migrations RENAME TO d1_migrations_moved"),
+    ]);
+
+    const res = await callWorker("/api/health");
+    expect(res.status).toBe(503);
+    const text = await res.text();
+    expect(text).not.toContain("no such table");
+    const body = JSON.parse(text);
+    expect(body.problems).toEqual(["D1 unreachable", expect.stringMatching(/^D1 schema unknown/)]);
+    expect(body.d1).toEqual({ ok: false, latencyMs: expect.any(Number) });
+    expect(body.schema).not.toHaveProperty("error");
+
+    const admin = await (await adminGet("/admin/api/diagnostics")).json<any>();
+    expect(admin.d1.error).toContain("no such table");
+    expect(admin.schema.error).toContain("no such table");
+  });
+
+  it("reports the last processed webhook and the GHL backlog", async () => {
+    fakes.stripe.addCustomer({ id: "cus_h", email: "h@example.com" });
+    await deliver(stripeEvent("charge.refunded", { id: "ch_ok", customer: "cus_h", amount_refunded: 100 }));
+    fakes.ghl.failNext(422);
+    await deliver(stripeEvent("charge.refunded", { id: "ch_dead", customer: "cus_h", amount_refunded: 100 }));
+    fakes.ghl.failNext(503);
+    await deliver(stripeEvent("charge.refunded", { id: "ch_retry", customer: "cus_h", amount_refunded: 100 }));
+
+    const res = await health();
+    expect(res.body.status).toBe("degraded");
+    expect(res.body.problems).toEqual(["1 dead-lettered GHL upsert(s)"]);
+    expect(res.body.webhooks.lastProcessedAt).toEqual(expect.any(String));
+    expect(res.body.ghlOutbox).toEqual({ pending: 1, dead: 1, oldestPendingAt: expect.any(String) });
+  });
+});
+
+describe("admin diagnostics", () => {
+  it("requires admin auth", async () => {
+    expect((await callWorker("/admin/api/diagnostics")).status).toBe(401);
+    expect((await callWorker("/admin/diagnostics")).status).toBe(401);
+  });
+
+  it("checks the Stripe and GHL credentials read-only", async () => {
+    const res = await adminGet("/admin/api/diagnostics");
+    expect(res.status).toBe(200);
+    const body = await res.json<any>();
+    expect(body.status).toBe("ok");
+    expect(body.credentials).toEqual({
+      stripe: { ok: true, latencyMs: expect.any(Number) },
+      ghl: { ok: true, latencyMs: expect.any(Number) },
+    });
+
+    expect(fakes.stripe.calls.map((c) => `${c.method} ${c.path}?${c.query} ${c.authorization}`)).toEqual([
+      "GET /v1/customers?limit=1 Bearer sk_test_fake",
+    ]);
+    expect(fakes.ghl.calls.map((c) => `${c.method} ${c.path} ${c.authorization}`)).toEqual([
+      "GET /contacts/ Bearer ghl_test_token",
+    ]);
+  });
+
+  it("reports rejected credentials", async () => {
+    fakes.stripe.failNext(401, { type: "invalid_request_error", message: "Invalid API Key provided" });
+    fakes.ghl.failNext(401);
+
+    const body = await (await adminGet("/admin/api/diagnostics")).json<any>();
+    expect(body.status).toBe("degraded");
+    expect(body.credentials.stripe).toMatchObject({ ok: false, error: expect.stringContaining("Invalid API Key provided") });
+    expect(body.credentials.ghl).toMatchObject({ ok: false, error: 'credential check: HTTP 401: {"message":"Fake failure"}' });
+  });
+
+  it("skips the GHL check when GHL is not configured", async () => {
+    const res = await callWorker(
+      "/admin/api/diagnostics",
+      { headers: { Authorization: `Bearer ${env.ADMIN_API_TOKEN}` } },
+      { GHL_LOCATION_ID: "" }
+    );
+    expect((await res.json<any>()).credentials.ghl).toBeNull();
+    expect(fakes.ghl.calls).toEqual([]);
+  });
+
+  it("renders the dashboard page", async () => {
+    const res = await adminGet("/admin/diagnostics");
+    expect(res.status).toBe(200);
+    const html = await res.text();
+    expect(html).toContain("Stripe credentials");
+    expect(html).not.toContain(env.STRIPE_SECRET_KEY);
+  });
+});
@@ -0,0 +1,9 @@
+// Bindings the tests see: the Worker's Env plus the migrations / seed file read in vitest.config.mts.
+import type { Env } from "../src/index";
+
+declare module "cloudflare:test" {
+  interface ProvidedEnv extends Env {
+    TEST_MIGRATIONS: D1Migration[];
+    TEST_DEV_SEED: string;
+  }
+}
@@ -0,0 +1,91 @@
+// test/fakes/ghl.ts
+// =====================================================
+// In-process fake of the GoHighLevel endpoints src/ghl.ts calls:
+//   POST   /contacts/upsert          -> { contact: { id } } (one id per email / phone)
+//   DELETE /contacts/:id/tags
+//   POST   /conversations/messages
+//   GET    /contacts/?locationId=    (credential check)
+//
+// Every request is recorded with its parsed JSON body. `failNext` queues
+// error responses for the next N requests (optionally only those whose path
+// matches).
+// =====================================================
+
+export interface GhlCall {
+  method: string;
+  path: string;
+  version: string | null;
+  authorization: string | null;
+  body: any;
+}
+
+export interface FakeGhl {
+  calls: GhlCall[];
+  failNext(status: number, times?: number, path?: RegExp): void;
+  // Bodies of POST /contacts/upsert, in order.
+  upserts(): any[];
+  // { contactId, tags } of each tag removal, in order.
+  tagRemovals(): { contactId: string; tags: string[] }[];
+  handle(request: Request): Promise<Response>;
+}
+
+export function createFakeGhl(): FakeGhl {
+  const calls: GhlCall[] = [];
+  const contactIds = new Map<string, string>();
+  const failures: { status: number; path?: RegExp }[] = [];
+
+  const reply = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+  async function handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const text = await request.text();
+    calls.push({
+      method: request.method,
+      path: url.pathname,
+      version: request.headers.get("Version"),
+      authorization: request.headers.get("Authorization"),
+      body: text ? JSON.parse(text) : null,
+    });
+    const body = calls[calls.length - 1].body;
+
+    const i = failures.findIndex((f) => !f.path || f.path.test(url.pathname));
+    if (i >= 0) return reply({ message: "Fake failure" }, failures.splice(i, 1)[0].status);
+
+    if (request.method === "POST" && url.pathname === "/contacts/upsert") {
+      const key = String(body?.email || body?.phone || "");
+      if (!contactIds.has(key)) contactIds.set(key, `ghl_contact_${contactIds.size + 1}`);
+      return reply({ new: false, contact: { id: contactIds.get(key), locationId: body?.locationId } });
+    }
+
+    if (request.method === "DELETE" && /^\/contacts\/[^/]+\/tags$/.test(url.pathname)) {
+      return reply({ tags: [] });
+    }
+
+    if (request.method === "GET" && url.pathname === "/contacts/") {
+      return reply({ contacts: [], meta: { total: 0 } });
+    }
+
+    if (request.method === "POST" && url.pathname === "/conversations/messages") {
+      return reply({ conversationId: "conv_test", messageId: `msg_test_${calls.length}` });
+    }
+
+    return reply({ message: `Not found: ${request.method} ${url.pathname}` }, 404);
+  }
+
+  return {
+    calls,
+    failNext(status, times = 1, path) {
+      for (let i = 0; i < times; i++) failures.push({ status, path });
+    },
+    upserts() {
+      return calls.filter((c) => c.method === "POST" && c.path === "/contacts/upsert").map((c) => c.body);
+    },
+    tagRemovals() {
+      return calls
+        .filter((c) => c.method === "DELETE")
+        .map((c) => ({ contactId: decodeURIComponent(c.path.split("/")[2]), tags: c.body?.tags }));
+    },
+    handle,
+  };
+}
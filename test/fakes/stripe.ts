@@ -0,0 +1,320 @@
+// test/fakes/stripe.ts
+// =====================================================
+// In-process fake of the Stripe endpoints src/stripe.ts calls.
+//
+// Keeps just enough state (customers, checkout sessions, charges,
+// subscriptions, products) to answer the Worker, and records every request so tests can assert exactly what was
+// sent. `failNext` queues error responses for the next N requests.
+// =====================================================
+
+export interface StripeCall {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  form: URLSearchParams;
+  authorization: string | null;
+  idempotencyKey: string | null;
+}
+
+export interface FakeStripe {
+  calls: StripeCall[];
+  customers: Map<string, any>;
+  checkoutSessions: Map<string, any>;
+  charges: Map<string, any>;
+  subscriptions: Map<string, any>;
+  products: Map<string, any>;
+  addCustomer(customer: { id: string; email?: string; name?: string; phone?: string; metadata?: Record<string, string> }): any;
+  addSubscription(subscription: {
+    id: string;
+    customer: string;
+    status?: string;
+    items: { unitAmount: number; quantity?: number; interval?: string; intervalCount?: number }[];
+    metadata?: Record<string, string>;
+    currentPeriodEnd?: number;
+  }): any;
+  failNext(status: number, error?: { type?: string; code?: string; message?: string }, times?: number): void;
+  // Only the customer metadata updates, in order.
+  metadataWrites(): { customerId: string; metadata: Record<string, string> }[];
+  handle(request: Request): Promise<Response>;
+}
+
+// `metadata[a]=1&metadata[b]=2` -> { a: "1", b: "2" } for prefix "metadata"
+export function formObject(form: URLSearchParams, prefix: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [key, value] of form) {
+    if (!key.startsWith(`${prefix}[`)) continue;
+    const rest = key.slice(prefix.length + 1, -1);
+    if (!rest.includes("[")) out[rest] = value;
+  }
+  return out;
+}
+
+// `items[0][id]=si_1&items[1][price_data][unit_amount]=900` ->
+// [{ id: "si_1" }, { "price_data.unit_amount": "900" }] for prefix "items"
+export function formList(form: URLSearchParams, prefix: string): Record<string, string>[] {
+  const out: Record<string, string>[] = [];
+  for (const [key, value] of form) {
+    if (!key.startsWith(`${prefix}[`)) continue;
+    const m = key.slice(prefix.length).match(/^\[(\d+)\]\[(.+)\]$/);
+    if (m) (out[Number(m[1])] ??= {})[m[2].split("][").join(".")] = value;
+  }
+  return out;
+}
+
+export function createFakeStripe(): FakeStripe {
+  const calls: StripeCall[] = [];
+  const customers = new Map<string, any>();
+  const checkoutSessions = new Map<string, any>();
+  const charges = new Map<string, any>();
+  const subscriptions = new Map<string, any>();
+  const products = new Map<string, any>();
+  const failures: { status: number; error: Record<string, string> }[] = [];
+  let seq = 0;
+
+  const reply = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { "Content-Type": "application/json", "Request-Id": `req_fake_${++seq}` },
+    });
+  const missing = (what: string, id: string) =>
+    reply({ error: { type: "invalid_request_error", code: "resource_missing", message: `No such ${what}: '${id}'` } }, 404);
+
+  function addCustomer(c: { id: string; email?: string; name?: string; phone?: string; metadata?: Record<string, string> }) {
+    const customer = {
+      id: c.id,
+      object: "customer",
+      email: c.email ?? null,
+      name: c.name ?? null,
+      phone: c.phone ?? null,
+      metadata: { ...(c.metadata || {}) },
+    };
+    customers.set(c.id, customer);
+    return customer;
+  }
+
+  type FakePrice = { unit_amount: number; currency?: string; interval?: string; interval_count?: number; product?: string };
+  const fakeItem = (price: FakePrice, quantity: number) => ({
+    id: `si_test_${++seq}`,
+    object: "subscription_item",
+    quantity,
+    price: {
+      id: `price_test_${++seq}`,
+      product: price.product ?? `prod_test_${seq}`,
+      currency: price.currency ?? "usd",
+      unit_amount: price.unit_amount,
+      recurring: { interval: price.interval ?? "month", interval_count: price.interval_count ?? 1 },
+    },
+  });
+
+  function addSubscription(s: Parameters<FakeStripe["addSubscription"]>[0]) {
+    const subscription = {
+      id: s.id,
+      object: "subscription",
+      customer: s.customer,
+      status: s.status ?? "active",
+      cancel_at_period_end: false,
+      current_period_end: s.currentPeriodEnd ?? 1_762_600_000,
+      pause_collection: null,
+      cancellation_details: null,
+      metadata: { ...(s.metadata || {}) },
+      items: {
+        object: "list",
+        has_more: false,
+        data: s.items.map((i) =>
+          fakeItem({ unit_amount: i.unitAmount, interval: i.interval, interval_count: i.intervalCount }, i.quantity ?? 1)
+        ),
+      },
+    };
+    subscriptions.set(s.id, subscription);
+    return subscription;
+  }
+
+  // Deleted items go, items with price_data are added (what src/member.ts sends).
+  function applyItems(sub: any, items: Record<string, string>[]): any[] {
+    const deleted = new Set(items.filter((i) => i.deleted === "true").map((i) => i.id));
+    const kept = sub.items.data.filter((i: any) => !deleted.has(i.id));
+    const added = items
+      .filter((i) => i["price_data.unit_amount"])
+      .map((i) =>
+        fakeItem(
+          {
+            unit_amount: Number(i["price_data.unit_amount"]),
+            currency: i["price_data.currency"],
+            interval: i["price_data.recurring.interval"],
+            interval_count: Number(i["price_data.recurring.interval_count"] || 1),
+            product: i["price_data.product"],
+          },
+          Number(i.quantity || 1)
+        )
+      );
+    return [...kept, ...added];
+  }
+
+  const itemsTotal = (items: any[]) => items.reduce((sum, i) => sum + i.price.unit_amount * i.quantity, 0);
+
+  async function handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const form = new URLSearchParams(request.method === "POST" ? await request.text() : "");
+    calls.push({
+      method: request.method,
+      path: url.pathname,
+      query: url.searchParams,
+      form,
+      authorization: request.headers.get("Authorization"),
+      idempotencyKey: request.headers.get("Idempotency-Key"),
+    });
+
+    const failure = failures.shift();
+    if (failure) return reply({ error: failure.error }, failure.status);
+
+    const route = `${request.method} ${url.pathname}`;
+    let m: RegExpMatchArray | null;
+
+    if (route === "POST /v1/checkout/sessions") {
+      const id = `cs_test_${++seq}`;
+      const session = {
+        id,
+        object: "checkout.session",
+        url: `https://checkout.stripe.test/c/pay/${id}`,
+        mode: form.get("mode"),
+        customer: null,
+        customer_email: form.get("customer_email"),
+        customer_details: null,
+        subscription: null,
+        metadata: formObject(form, "metadata"),
+      };
+      checkoutSessions.set(id, session);
+      return reply(session);
+    }
+
+    if ((m = route.match(/^GET \/v1\/checkout\/sessions\/([^/]+)$/))) {
+      const session = checkoutSessions.get(decodeURIComponent(m[1]));
+      if (!session) return missing("checkout.session", m[1]);
+      const expand = [...url.searchParams].filter(([k]) => k.startsWith("expand[")).map(([, v]) => v);
+      const customer = expand.includes("customer") && session.customer ? customers.get(session.customer) : session.customer;
+      return reply({ ...session, customer: customer ?? session.customer });
+    }
+
+    if (route === "POST /v1/billing_portal/sessions") {
+      const id = `bps_test_${++seq}`;
+      return reply({ id, object: "billing_portal.session", url: `https://billing.stripe.test/p/session/${id}` });
+    }
+
+    if (route === "GET /v1/customers") {
+      const email = url.searchParams.get("email");
+      // Newest first, like Stripe.
+      const data = [...customers.values()].filter((c) => !email || c.email === email).reverse();
+      return reply({ object: "list", data: data.slice(0, Number(url.searchParams.get("limit") || 10)), has_more: false });
+    }
+
+    if ((m = route.match(/^(GET|POST) \/v1\/customers\/([^/]+)$/))) {
+      const customer = customers.get(decodeURIComponent(m[2]));
+      if (!customer) return missing("customer", m[2]);
+      if (m[1] === "POST") Object.assign(customer.metadata, formObject(form, "metadata"));
+      return reply(customer);
+    }
+
+    if ((m = route.match(/^GET \/v1\/charges\/([^/]+)$/))) {
+      const charge = charges.get(decodeURIComponent(m[1]));
+      return charge ? reply(charge) : missing("charge", m[1]);
+    }
+
+    if (route === "GET /v1/subscriptions") {
+      const customer = url.searchParams.get("customer");
+      const data = [...subscriptions.values()].filter((s) => !customer || s.customer === customer).reverse();
+      return reply({ object: "list", data: data.slice(0, Number(url.searchParams.get("limit") || 10)), has_more: false });
+    }
+
+    if ((m = route.match(/^POST \/v1\/subscriptions\/([^/]+)$/))) {
+      const sub = subscriptions.get(decodeURIComponent(m[1]));
+      if (!sub) return missing("subscription", m[1]);
+      const items = formList(form, "items");
+      if (items.length) sub.items.data = applyItems(sub, items);
+      // "" deletes a metadata key, like Stripe.
+      for (const [k, v] of Object.entries(formObject(form, "metadata"))) {
+        if (v) sub.metadata[k] = v;
+        else delete sub.metadata[k];
+      }
+      if (form.has("cancel_at_period_end")) sub.cancel_at_period_end = form.get("cancel_at_period_end") === "true";
+      if (form.has("cancellation_details[feedback]")) {
+        sub.cancellation_details = {
+          feedback: form.get("cancellation_details[feedback]"),
+          comment: form.get("cancellation_details[comment]"),
+        };
+      }
+      if (form.has("pause_collection[behavior]")) {
+        sub.pause_collection = {
+          behavior: form.get("pause_collection[behavior]"),
+          resumes_at: Number(form.get("pause_collection[resumes_at]")) || null,
+        };
+      }
+      return reply(sub);
+    }
+
+    if (route === "POST /v1/products") {
+      const id = form.get("id") || `prod_test_${++seq}`;
+      if (products.has(id)) {
+        return reply(
+          { error: { type: "invalid_request_error", code: "resource_already_exists", message: "Product already exists." } },
+          400
+        );
+      }
+      const product = { id, object: "product", name: form.get("name"), metadata: formObject(form, "metadata") };
+      products.set(id, product);
+      return reply(product);
+    }
+
+    if ((m = route.match(/^POST \/v1\/products\/([^/]+)$/))) {
+      const product = products.get(decodeURIComponent(m[1]));
+      if (!product) return missing("product", m[1]);
+      if (form.has("name")) product.name = form.get("name");
+      if (form.has("description")) product.description = form.get("description");
+      return reply(product);
+    }
+
+    // Prorations are a flat half of each removed / added item's price.
+    if (route === "POST /v1/invoices/create_preview") {
+      const sub = subscriptions.get(form.get("subscription") || "");
+      if (!sub) return missing("subscription", form.get("subscription") || "");
+      const next = applyItems(sub, formList(form, "subscription_details[items]"));
+      const removed = sub.items.data.filter((i: any) => !next.includes(i));
+      const added = next.filter((i: any) => !sub.items.data.includes(i));
+      const lines = [
+        ...removed.map((i: any) => ({ description: "Unused time", amount: -itemsTotal([i]) / 2, proration: true })),
+        ...added.map((i: any) => ({ description: "Remaining time", amount: itemsTotal([i]) / 2, proration: true })),
+        ...next.map((i: any) => ({ description: "Next period", amount: itemsTotal([i]), proration: false })),
+      ];
+      const amountDue = lines.reduce((sum, l) => sum + l.amount, 0);
+      return reply({
+        object: "invoice",
+        amount_due: amountDue,
+        currency: "usd",
+        lines: { object: "list", data: lines, has_more: false },
+      });
+    }
+
+    return reply({ error: { type: "invalid_request_error", message: `Unrecognized request URL (${route})` } }, 404);
+  }
+
+  return {
+    calls,
+    customers,
+    checkoutSessions,
+    charges,
+    subscriptions,
+    products,
+    addCustomer,
+    addSubscription,
+    failNext(status, error = {}, times = 1) {
+      for (let i = 0; i < times; i++) {
+        failures.push({ status, error: { type: "api_error", message: "Fake failure", ...error } });
+      }
+    },
+    metadataWrites() {
+      return calls
+        .filter((c) => c.method === "POST" && /^\/v1\/customers\/[^/]+$/.test(c.path))
+        .map((c) => ({ customerId: decodeURIComponent(c.path.split("/")[3]), metadata: formObject(c.form, "metadata") }));
+    },
+    handle,
+  };
+}
@@ -0,0 +1,170 @@
+// test/helpers.ts
+// =====================================================
+// Shared test plumbing:
+//   installFakes()     route the Worker's outbound fetch to the Stripe / GHL /
+//                      verification-webhook fakes (anything else fails the test)
+//   callWorker()       run a request through the real fetch handler
+//   signedWebhook()    a Stripe webhook delivery signed like Stripe does
+//   runCron()          run the scheduled handler to completion
+//   seed* / rows()     D1 fixtures (catalog, mirror customers, settings) and reads
+// =====================================================
+
+import { createExecutionContext, createScheduledController, env, waitOnExecutionContext } from "cloudflare:test";
+import { vi } from "vitest";
+import { hmacSHA256Hex } from "../src/crypto";
+import worker from "../src/index";
+import type { Env } from "../src/index";
+import { FakeGhl, createFakeGhl } from "./fakes/ghl";
+import { FakeStripe, createFakeStripe } from "./fakes/stripe";
+
+export const WORKER_ORIGIN = "https://worker.test";
+export const CLIENT_IP = "203.0.113.7";
+
+export interface Fakes {
+  stripe: FakeStripe;
+  ghl: FakeGhl;
+  // JSON bodies POSTed to VERIFICATION_WEBHOOK_URL
+  notifications: any[];
+  // Status the verification webhook answers with (default 200).
+  notifyStatus: number;
+}
+
+export function installFakes(): Fakes {
+  const fakes: Fakes = { stripe: createFakeStripe(), ghl: createFakeGhl(), notifications: [], notifyStatus: 200 };
+  const stripeOrigin = new URL(env.STRIPE_API_BASE_URL!).origin;
+  const ghlOrigin = new URL(env.GHL_API_BASE_URL!).origin;
+  const notifyUrl = env.VERIFICATION_WEBHOOK_URL!;
+
+  vi.spyOn(globalThis, "fetch").mockImplementation(async (input, init) => {
+    const request = new Request(input, init);
+    const origin = new URL(request.url).origin;
+    if (origin === stripeOrigin) return fakes.stripe.handle(request);
+    if (origin === ghlOrigin) return fakes.ghl.handle(request);
+    if (request.url === notifyUrl) {
+      fakes.notifications.push(await request.json());
+      return new Response(null, { status: fakes.notifyStatus });
+    }
+    throw new Error(`Unexpected outbound fetch in test: ${request.method} ${request.url}`);
+  });
+
+  return fakes;
+}
+
+// =====================================================
+// Calling the Worker
+// =====================================================
+export async function callWorker(path: string, init: RequestInit = {}, overrides: Partial<Env> = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  if (!headers.has("CF-Connecting-IP")) headers.set("CF-Connecting-IP", CLIENT_IP);
+  const request = new Request(WORKER_ORIGIN + path, { ...init, headers });
+  return worker.fetch(request, { ...env, ...overrides });
+}
+
+export function postJson(
+  path: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+  overrides: Partial<Env> = {}
+): Promise<Response> {
+  return callWorker(
+    path,
+    { method: "POST", headers: { "Content-Type": "application/json", ...headers }, body: JSON.stringify(body) },
+    overrides
+  );
+}
+
+export function adminGet(path: string): Promise<Response> {
+  return callWorker(path, { headers: { Authorization: `Bearer ${env.ADMIN_API_TOKEN}` } });
+}
+
+export async function runCron(overrides: Partial<Env> = {}): Promise<void> {
+  const ctx = createExecutionContext();
+  await worker.scheduled(createScheduledController({ cron: "*/5 * * * *" }), { ...env, ...overrides }, ctx);
+  await waitOnExecutionContext(ctx);
+}
+
+// =====================================================
+// Stripe webhooks
+// =====================================================
+let eventSeq = 0;
+
+export function stripeEvent(type: string, object: Record<string, unknown>, created = 1_760_000_000): any {
+  return { id: `evt_test_${++eventSeq}`, object: "event", type, created, data: { object } };
+}
+
+// Signed with the first (current) secret unless told otherwise.
+export async function signedWebhook(
+  event: unknown,
+  opts: { secret?: string; timestamp?: number; signature?: string } = {}
+): Promise<Request> {
+  const payload = JSON.stringify(event);
+  const timestamp = opts.timestamp ?? Math.floor(Date.now() / 1000);
+  const secret = opts.secret ?? env.STRIPE_WEBHOOK_SECRET.split(",")[0];
+  const signature = opts.signature ?? (await hmacSHA256Hex(secret, `${timestamp}.${payload}`));
+  return new Request(`${WORKER_ORIGIN}/api/stripe-webhook`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "Stripe-Signature": `t=${timestamp},v1=${signature}` },
+    body: payload,
+  });
+}
+
+export async function deliver(event: unknown): Promise<Response> {
+  return worker.fetch(await signedWebhook(event), env);
+}
+
+// =====================================================
+// D1 fixtures
+// =====================================================
+export async function seedCatalog(
+  items: {
+    partNumber: string;
+    kind: "subscription" | "one_time";
+    name: string;
+    amountCents: number;
+    interval?: string;
+    intervalCount?: number;
+    currency?: string;
+    trialPeriodDays?: number;
+  }[]
+): Promise<void> {
+  await env.DB.batch(
+    items.map((i) =>
+      env.DB.prepare(
+        `INSERT INTO catalog_items (part_number, kind, name, amount_cents, currency, interval, interval_count, trial_period_days)
+         VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8)`
+      ).bind(
+        i.partNumber,
+        i.kind,
+        i.name,
+        i.amountCents,
+        i.currency ?? "usd",
+        i.interval ?? (i.kind === "subscription" ? "month" : null),
+        i.intervalCount ?? 1,
+        i.trialPeriodDays ?? null
+      )
+    )
+  );
+}
+
+// A row in the D1 settings table (src/config.ts); overrides the env var of the same name.
+export async function seedSetting(key: string, value: string): Promise<void> {
+  await env.DB.prepare("INSERT INTO settings (key, value, updated_at) VALUES (?1, ?2, ?3)")
+    .bind(key, value, new Date().toISOString())
+    .run();
+}
+
+export async function seedMirrorCustomer(c: { id: string; email?: string; name?: string; phone?: string }): Promise<void> {
+  const now = new Date().toISOString();
+  await env.DB.prepare(
+    "INSERT INTO customers (id, email, name, phone, sms_opt_in, created_at, updated_at) VALUES (?1, ?2, ?3, ?4, 'yes', ?5, ?5)"
+  )
+    .bind(c.id, c.email ?? null, c.name ?? null, c.phone ?? null, now)
+    .run();
+}
+
+export async function rows<T = Record<string, unknown>>(sql: string, ...params: unknown[]): Promise<T[]> {
+  const { results } = await env.DB.prepare(sql)
+    .bind(...params)
+    .all<T>();
+  return results;
+}
@@ -0,0 +1,132 @@
+// test/log.test.ts
+// src/log.ts: JSON lines, levels, child fields, PII redaction; and the
+// webhook path end to end (one correlated, redacted line per step).
+import { describe, expect, it, vi } from "vitest";
+import { createLogger, redact } from "../src/log";
+import { deliver, installFakes, stripeEvent } from "./helpers";
+
+function captureConsole() {
+  const lines: any[] = [];
+  const spy = (method: "log" | "warn" | "error") =>
+    vi.spyOn(console, method).mockImplementation((line: string) => void lines.push(JSON.parse(line)));
+  return Object.assign(lines, { log: spy("log"), warn: spy("warn"), error: spy("error") });
+}
+
+describe("createLogger", () => {
+  it("writes one JSON line with level, message and fields", () => {
+    const lines = captureConsole();
+    createLogger({}, { requestId: "req_1" }).info("Something happened", { count: 2 });
+    expect([...lines]).toEqual([{ time: expect.any(String), level: "info", msg: "Something happened", requestId: "req_1", count: 2 }]);
+  });
+
+  it("routes warn / error to the matching console method", () => {
+    const lines = captureConsole();
+    const log = createLogger({});
+    log.warn("w");
+    log.error("e");
+    expect(lines.warn).toHaveBeenCalledTimes(1);
+    expect(lines.error).toHaveBeenCalledTimes(1);
+    expect(lines.log).not.toHaveBeenCalled();
+  });
+
+  it("drops lines below LOG_LEVEL", () => {
+    const lines = captureConsole();
+    const log = createLogger({ LOG_LEVEL: "warn" });
+    log.debug("d");
+    log.info("i");
+    log.warn("w");
+    expect(lines.map((l) => l.level)).toEqual(["warn"]);
+
+    createLogger({}).debug("hidden by default");
+    expect(lines).toHaveLength(1);
+  });
+
+  it("adds child fields to every line", () => {
+    const lines = captureConsole();
+    const child = createLogger({}, { requestId: "req_1" }).child({ eventId: "evt_1" });
+    child.info("a");
+    child.child({ outboxId: 3 }).info("b", { eventId: "evt_override" });
+    expect(lines[0]).toMatchObject({ requestId: "req_1", eventId: "evt_1" });
+    expect(lines[1]).toMatchObject({ requestId: "req_1", eventId: "evt_override", outboxId: 3 });
+  });
+});
+
+describe("redact", () => {
+  it("masks PII keys at any depth", () => {
+    expect(
+      redact({
+        email: "pat@example.com",
+        customerEmail: "pat@example.com",
+        phone: "+15552345678",
+        selector_phone: "5552345678",
+        name: "Pat Doe",
+        customer_name: "Pat Doe",
+        to: "pat@example.com",
+        nested: { contact: { firstName: "Pat", email: "" } },
+        customerId: "cus_1",
+        pathname: "/api/x",
+        eventType: "charge.refunded",
+      })
+    ).toEqual({
+      email: "[redacted]",
+      customerEmail: "[redacted]",
+      phone: "[redacted]",
+      selector_phone: "[redacted]",
+      name: "[redacted]",
+      customer_name: "[redacted]",
+      to: "[redacted]",
+      nested: { contact: { firstName: "[redacted]", email: "" } },
+      customerId: "cus_1",
+      pathname: "/api/x",
+      eventType: "charge.refunded",
+    });
+  });
+
+  it("scrubs emails and phone numbers inside strings", () => {
+    expect(redact('HTTP 400: {"message":"duplicate contact pat.doe+r4@example.co.uk / +15552345678"}')).toBe(
+      'HTTP 400: {"message":"duplicate contact [email] / [phone]"}'
+    );
+    expect(redact(["call (555) 234-5678", "or 555.234.5678", "at 2026-10-19T12:00:00.000Z"])).toEqual([
+      "call [phone]",
+      "or [phone]",
+      "at 2026-10-19T12:00:00.000Z",
+    ]);
+  });
+
+  it("flattens errors", () => {
+    expect(redact({ error: new TypeError("bad input from pat@example.com") })).toEqual({
+      error: { name: "TypeError", message: "bad input from [email]" },
+    });
+  });
+});
+
+describe("webhook delivery logs", () => {
+  it("correlates every line and never writes contact details", async () => {
+    const fakes = installFakes();
+    fakes.stripe.addCustomer({ id: "cus_log", email: "pat@example.com", name: "Pat Doe", phone: "+15552345678" });
+    fakes.ghl.failNext(400);
+    const lines = captureConsole();
+
+    const event = stripeEvent("charge.refunded", { id: "ch_log", customer: "cus_log", amount_refunded: 100 });
+    expect((await deliver(event)).status).toBe(200);
+
+    expect(lines.length).toBeGreaterThan(3);
+    expect(new Set(lines.map((l) => l.requestId)).size).toBe(1);
+    expect(lines.every((l) => l.eventId === event.id && l.path === "/api/stripe-webhook")).toBe(true);
+
+    expect(lines.find((l) => l.msg === "Stripe request" && l.endpoint.startsWith("GET"))).toMatchObject({
+      endpoint: "GET /v1/customers/cus_log",
+      status: 200,
+      durationMs: expect.any(Number),
+    });
+    expect(lines.find((l) => l.msg === "GHL request failed")).toMatchObject({
+      endpoint: "POST /contacts/upsert",
+      status: 400,
+      durationMs: expect.any(Number),
+    });
+    expect(lines.at(-1)).toMatchObject({ msg: "Stripe event processed", actions: expect.any(Array) });
+
+    const output = JSON.stringify(lines);
+    for (const pii of ["pat@example.com", "Pat Doe", "5552345678"]) expect(output).not.toContain(pii);
+  });
+});
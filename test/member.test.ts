@@ -0,0 +1,447 @@
+// test/member.test.ts
+// Member self-service: POST /api/member/session (portal code -> bearer token),
+// then the current plan, proration preview, plan change, pause and cancel,
+// each mirrored to Stripe metadata, D1 and GHL.
+import { env } from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import { Fakes, callWorker, deliver, installFakes, postJson, rows, seedCatalog, seedMirrorCustomer, stripeEvent } from "./helpers";
+import { addMonths } from "../src/member";
+import { formList, formObject } from "./fakes/stripe";
+
+const PERIOD_END = 1_762_600_000;
+const iso = (unix: number) => new Date(unix * 1000).toISOString();
+
+let fakes: Fakes;
+
+beforeEach(async () => {
+  fakes = installFakes();
+  const contact = { email: "pat@example.com", name: "Pat Doe", phone: "+15552345678" };
+  fakes.stripe.addCustomer({ id: "cus_member", ...contact });
+  await seedMirrorCustomer({ id: "cus_member", ...contact });
+  await seedCatalog([
+    { partNumber: "R4-PLAN-BASIC", kind: "subscription", name: "{brand} Plan - Basic", amountCents: 4900 },
+    { partNumber: "R4-PLAN-PLUS", kind: "subscription", name: "{brand} Plan - Plus", amountCents: 7900 },
+    { partNumber: "R4-PLAN-PLUS-Q", kind: "subscription", name: "Plus (quarterly)", amountCents: 21900, intervalCount: 3 },
+    { partNumber: "R4-ADDON-FILTER", kind: "subscription", name: "Filter add-on", amountCents: 900 },
+    { partNumber: "R4-TUNEUP", kind: "one_time", name: "Tune-up", amountCents: 12900 },
+  ]);
+  fakes.stripe.addSubscription({
+    id: "sub_member",
+    customer: "cus_member",
+    items: [{ unitAmount: 4900 }, { unitAmount: 900 }],
+    currentPeriodEnd: PERIOD_END,
+    metadata: {
+      purchaseType: "subscription",
+      partNumber: "R4-PLAN-BASIC",
+      serviceSummary: "R4 Home Service Plan - Basic, + Filter add-on",
+      amount: "58.00",
+      interval: "month",
+      intervalCount: "1",
+      monthlyAmount: "58.00",
+      lineCount: "2",
+      line_0: '{"partNumber":"R4-PLAN-BASIC","quantity":1,"unitAmountCents":4900}',
+      line_1: '{"partNumber":"R4-ADDON-FILTER","quantity":1,"unitAmountCents":900,"addOnTo":"R4-PLAN-BASIC"}',
+    },
+  });
+});
+
+// The portal code flow, then the code exchanged for a member session.
+async function signIn(): Promise<string> {
+  await postJson("/api/billing-portal/request-code", { email: "pat@example.com" });
+  const res = await postJson("/api/member/session", { email: "pat@example.com", code: fakes.notifications[0].code });
+  expect(res.status).toBe(200);
+  return (await res.json<{ token: string }>()).token;
+}
+
+function asMember(token: string): Record<string, string> {
+  return { Authorization: `Bearer ${token}` };
+}
+
+function stripeCall(path: string) {
+  return fakes.stripe.calls.find((c) => c.method === "POST" && c.path === path)!;
+}
+
+describe("POST /api/member/session", () => {
+  it("exchanges a portal code for a bearer token, storing only its hash", async () => {
+    await postJson("/api/billing-portal/request-code", { email: "pat@example.com" });
+    const res = await postJson("/api/member/session", { email: "pat@example.com", code: fakes.notifications[0].code });
+    expect(res.status).toBe(200);
+    const body = await res.json<{ token: string; expiresAt: string }>();
+    expect(body.token).toMatch(/^mst_[0-9a-f]{64}$/);
+    expect(Date.parse(body.expiresAt) - Date.now()).toBeGreaterThan(29 * 60 * 1000);
+
+    const [row] = await rows<{ token_hash: string; customer_id: string }>("SELECT token_hash, customer_id FROM member_sessions");
+    expect(row.customer_id).toBe("cus_member");
+    expect(row.token_hash).not.toContain(body.token.slice(4));
+  });
+
+  it("rejects a wrong code", async () => {
+    await postJson("/api/billing-portal/request-code", { email: "pat@example.com" });
+    const wrong = fakes.notifications[0].code === "000000" ? "111111" : "000000";
+    const res = await postJson("/api/member/session", { email: "pat@example.com", code: wrong });
+    expect(res.status).toBe(401);
+    expect(await rows("SELECT id FROM member_sessions")).toEqual([]);
+  });
+});
+
+describe("authentication", () => {
+  it("requires a session token", async () => {
+    const res = await callWorker("/api/member/subscription");
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ error: "Sign-in expired. Request a new code." });
+    expect(fakes.stripe.calls).toEqual([]);
+  });
+
+  it("refuses an expired session", async () => {
+    const token = await signIn();
+    await env.DB.prepare("UPDATE member_sessions SET expires_at = ?1").bind(new Date(Date.now() - 1000).toISOString()).run();
+    const res = await postJson("/api/member/subscription/cancel", { reason: "unused" }, asMember(token));
+    expect(res.status).toBe(401);
+  });
+
+  it("allows the Authorization header cross-origin", async () => {
+    const res = await callWorker("/api/member/subscription", {
+      method: "OPTIONS",
+      headers: { Origin: "https://r4homeservice.com" },
+    });
+    expect(res.headers.get("Access-Control-Allow-Headers")).toBe("Content-Type, Authorization");
+  });
+});
+
+describe("GET /api/member/subscription", () => {
+  it("lists the member's live subscriptions", async () => {
+    const token = await signIn();
+    fakes.stripe.addSubscription({ id: "sub_gone", customer: "cus_member", status: "canceled", items: [{ unitAmount: 4900 }] });
+    fakes.stripe.addSubscription({ id: "sub_other", customer: "cus_other", items: [{ unitAmount: 4900 }] });
+
+    const res = await callWorker("/api/member/subscription", { headers: asMember(token) });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      subscriptions: [
+        {
+          id: "sub_member",
+          status: "active",
+          partNumber: "R4-PLAN-BASIC",
+          serviceSummary: "R4 Home Service Plan - Basic, + Filter add-on",
+          amount: "58.00",
+          interval: "month",
+          intervalCount: 1,
+          cadence: "monthly",
+          currentPeriodEnd: iso(PERIOD_END),
+          cancelAtPeriodEnd: false,
+          cancelReason: "",
+          pausedUntil: "",
+        },
+      ],
+    });
+  });
+
+  it("signs in as the subscriber when one-time checkouts made more customers with the same email", async () => {
+    await deliver(stripeEvent("customer.subscription.updated", { id: "sub_member", customer: "cus_member", status: "active" }));
+    fakes.stripe.addCustomer({ id: "cus_onetime", email: "pat@example.com" });
+    fakes.stripe.addSubscription({ id: "sub_ended", customer: "cus_onetime", status: "canceled", items: [{ unitAmount: 4900 }] });
+
+    const token = await signIn();
+    expect(await rows("SELECT customer_id FROM member_sessions")).toEqual([{ customer_id: "cus_member" }]);
+    const res = await callWorker("/api/member/subscription", { headers: asMember(token) });
+    expect((await res.json<any>()).subscriptions.map((s: any) => s.id)).toEqual(["sub_member"]);
+  });
+});
+
+describe("POST /api/member/subscription/preview", () => {
+  it("previews the prorations for another bundle without changing anything", async () => {
+    const token = await signIn();
+    const res = await postJson("/api/member/subscription/preview", { items: [{ partNumber: "R4-PLAN-PLUS" }] }, asMember(token));
+    expect(res.status).toBe(200);
+    const body = await res.json<any>();
+    expect(body).toEqual({
+      subscriptionId: "sub_member",
+      prorationDate: expect.any(Number),
+      current: expect.objectContaining({ partNumber: "R4-PLAN-BASIC", amount: "58.00" }),
+      plan: {
+        partNumber: "R4-PLAN-PLUS",
+        serviceSummary: "R4 Home Service Plan - Plus",
+        amount: "79.00",
+        interval: "month",
+        intervalCount: 1,
+        cadence: "monthly",
+        monthlyAmount: "79.00",
+      },
+      // Fake prorations: -half of 49 + 9, +half of 79.
+      prorationAmount: "10.50",
+      amountDue: "89.50",
+      currency: "usd",
+    });
+
+    const preview = stripeCall("/v1/invoices/create_preview");
+    expect(preview.form.get("customer")).toBe("cus_member");
+    expect(preview.form.get("subscription_details[proration_behavior]")).toBe("create_prorations");
+    expect(preview.form.get("subscription_details[proration_date]")).toBe(String(body.prorationDate));
+    expect(formList(preview.form, "subscription_details[items]")).toEqual([
+      { id: expect.stringMatching(/^si_/), deleted: "true" },
+      { id: expect.stringMatching(/^si_/), deleted: "true" },
+      {
+        quantity: "1",
+        "price_data.currency": "usd",
+        "price_data.unit_amount": "7900",
+        "price_data.product": "catalog-R4-PLAN-PLUS",
+        "price_data.recurring.interval": "month",
+        "metadata.partNumber": "R4-PLAN-PLUS",
+      },
+    ]);
+
+    expect(Object.fromEntries(stripeCall("/v1/products").form)).toEqual({
+      id: "catalog-R4-PLAN-PLUS",
+      name: "R4 Home Service Plan - Plus",
+      "metadata[partNumber]": "R4-PLAN-PLUS",
+    });
+    expect(fakes.stripe.calls.some((c) => c.path.startsWith("/v1/subscriptions/"))).toBe(false);
+    expect(await rows("SELECT id FROM subscription_changes")).toEqual([]);
+  });
+
+  it("validates the bundle against the catalog", async () => {
+    const token = await signIn();
+    const res = await postJson("/api/member/subscription/preview", { items: [{ partNumber: "R4-TUNEUP" }] }, asMember(token));
+    expect(res.status).toBe(400);
+    expect((await res.json<any>()).fields).toEqual([
+      { field: "items[0].partNumber", code: "wrong_kind", message: "R4-TUNEUP is not a subscription plan" },
+    ]);
+  });
+
+  it("only touches the member's own subscriptions", async () => {
+    const token = await signIn();
+    fakes.stripe.addSubscription({ id: "sub_other", customer: "cus_other", items: [{ unitAmount: 4900 }] });
+    const res = await postJson(
+      "/api/member/subscription/preview",
+      { subscriptionId: "sub_other", partNumber: "R4-PLAN-PLUS" },
+      asMember(token)
+    );
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ error: "No active subscription" });
+  });
+});
+
+describe("POST /api/member/subscription/change", () => {
+  it("swaps the items, rewrites the metadata and mirrors the new plan", async () => {
+    const token = await signIn();
+    const res = await postJson(
+      "/api/member/subscription/change",
+      { items: [{ partNumber: "R4-PLAN-PLUS-Q" }], prorationDate: 1_761_000_000 },
+      asMember(token)
+    );
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({
+      ok: true,
+      subscription: { id: "sub_member", amount: "219.00", interval: "month", intervalCount: 3, cadence: "quarterly" },
+    });
+
+    const update = stripeCall("/v1/subscriptions/sub_member");
+    expect(update.form.get("proration_behavior")).toBe("create_prorations");
+    expect(update.form.get("proration_date")).toBe("1761000000");
+    expect(formList(update.form, "items").map((i) => i["price_data.recurring.interval_count"] ?? i.deleted)).toEqual([
+      "true",
+      "true",
+      "3",
+    ]);
+    // The old plan's second line and the monthly amount are cleared.
+    expect(formObject(update.form, "metadata")).toEqual({
+      partNumber: "R4-PLAN-PLUS-Q",
+      serviceSummary: "Plus (quarterly)",
+      amount: "219.00",
+      interval: "month",
+      intervalCount: "3",
+      monthlyAmount: "",
+      lineCount: "1",
+      line_0: '{"partNumber":"R4-PLAN-PLUS-Q","quantity":1,"unitAmountCents":21900}',
+      line_1: "",
+    });
+    expect(fakes.stripe.subscriptions.get("sub_member").metadata).not.toHaveProperty("line_1");
+
+    expect(fakes.stripe.metadataWrites()).toEqual([
+      {
+        customerId: "cus_member",
+        metadata: { partNumber: "R4-PLAN-PLUS-Q", serviceSummary: "Plus (quarterly)", amount: "219.00", billingCadence: "quarterly" },
+      },
+    ]);
+    expect(await rows("SELECT id, customer_id, part_number, amount_cents, interval, interval_count FROM subscriptions")).toEqual([
+      { id: "sub_member", customer_id: "cus_member", part_number: "R4-PLAN-PLUS-Q", amount_cents: 21900, interval: "month", interval_count: 3 },
+    ]);
+    expect(await rows("SELECT subscription_id, action, from_part_number, to_part_number, amount_cents FROM subscription_changes")).toEqual([
+      { subscription_id: "sub_member", action: "change", from_part_number: "R4-PLAN-BASIC", to_part_number: "R4-PLAN-PLUS-Q", amount_cents: 21900 },
+    ]);
+    expect(fakes.ghl.upserts()).toEqual([
+      expect.objectContaining({
+        email: "pat@example.com",
+        tags: [],
+        customFields: [
+          { key: "stripe_customer_id", field_value: "cus_member" },
+          { key: "stripe_subscription_id", field_value: "sub_member" },
+          { key: "r4_part_number", field_value: "R4-PLAN-PLUS-Q" },
+          { key: "r4_service_summary", field_value: "Plus (quarterly)" },
+          { key: "r4_amount", field_value: "219.00" },
+          { key: "r4_billing_interval", field_value: "quarterly" },
+        ],
+      }),
+    ]);
+  });
+
+  it("reuses the catalog product when it already exists", async () => {
+    const token = await signIn();
+    await postJson("/api/member/subscription/preview", { partNumber: "R4-PLAN-PLUS" }, asMember(token));
+    const res = await postJson("/api/member/subscription/change", { partNumber: "R4-PLAN-PLUS" }, asMember(token));
+    expect(res.status).toBe(200);
+    expect([...fakes.stripe.products.keys()]).toEqual(["catalog-R4-PLAN-PLUS"]);
+  });
+
+  it("renames an existing catalog product without reusing an idempotency key", async () => {
+    const token = await signIn();
+    await postJson("/api/member/subscription/preview", { partNumber: "R4-PLAN-PLUS" }, asMember(token));
+    await env.DB.prepare("UPDATE catalog_items SET name = 'Plus (renamed)' WHERE part_number = 'R4-PLAN-PLUS'").run();
+    const res = await postJson("/api/member/subscription/change", { partNumber: "R4-PLAN-PLUS" }, asMember(token));
+    expect(res.status).toBe(200);
+
+    const creates = fakes.stripe.calls.filter((c) => c.path === "/v1/products");
+    expect(creates).toHaveLength(2);
+    expect(creates[0].idempotencyKey).not.toBe(creates[1].idempotencyKey);
+    expect(fakes.stripe.products.get("catalog-R4-PLAN-PLUS").name).toBe("Plus (renamed)");
+  });
+
+  it("passes a Stripe failure through without mirroring anything", async () => {
+    const token = await signIn();
+    fakes.stripe.failNext(400, { type: "invalid_request_error", message: "Bad request" });
+    const res = await postJson("/api/member/subscription/change", { partNumber: "R4-PLAN-PLUS" }, asMember(token));
+    expect(res.status).toBe(400);
+    expect((await res.json<any>()).details).toMatchObject({ type: "invalid_request_error", message: "Bad request" });
+    expect(fakes.stripe.metadataWrites()).toEqual([]);
+    expect(await rows("SELECT id FROM subscription_changes")).toEqual([]);
+    expect(fakes.ghl.upserts()).toEqual([]);
+  });
+});
+
+describe("POST /api/member/subscription/pause", () => {
+  it("pauses collection for N months and tags the contact as paused", async () => {
+    const token = await signIn();
+    const res = await postJson("/api/member/subscription/pause", { months: 3 }, asMember(token));
+    expect(res.status).toBe(200);
+    const body = await res.json<any>();
+
+    const update = stripeCall("/v1/subscriptions/sub_member");
+    expect(update.form.get("pause_collection[behavior]")).toBe("void");
+    const resumesAt = Number(update.form.get("pause_collection[resumes_at]"));
+    const days = (resumesAt * 1000 - Date.now()) / 86_400_000;
+    expect(days).toBeGreaterThan(88);
+    expect(days).toBeLessThan(93);
+    expect(body.subscription.pausedUntil).toBe(iso(resumesAt));
+    expect(formObject(update.form, "metadata")).toEqual({ pausedUntil: iso(resumesAt), pauseMonths: "3" });
+
+    expect(fakes.stripe.metadataWrites()).toEqual([
+      { customerId: "cus_member", metadata: { subscriptionPausedAt: expect.any(String), pausedUntil: iso(resumesAt) } },
+    ]);
+    expect(await rows("SELECT action, paused_until FROM subscription_changes")).toEqual([
+      { action: "pause", paused_until: iso(resumesAt) },
+    ]);
+    expect(fakes.ghl.upserts()[0]).toMatchObject({
+      tags: ["R4-Subscriber", "R4-Paused"],
+      customFields: expect.arrayContaining([{ key: "r4_paused_until", field_value: iso(resumesAt) }]),
+    });
+    expect(fakes.ghl.tagRemovals()).toEqual([{ contactId: "ghl_contact_1", tags: ["R4-Canceled"] }]);
+  });
+
+  it("resumes on the same day of the month, clamped to the month's end", () => {
+    expect(addMonths(new Date("2026-11-15T12:00:00Z"), 4).toISOString()).toBe("2027-03-15T12:00:00.000Z");
+    expect(addMonths(new Date("2026-10-31T08:00:00Z"), 4).toISOString()).toBe("2027-02-28T08:00:00.000Z");
+  });
+
+  it("refuses a past-due subscription", async () => {
+    const token = await signIn();
+    fakes.stripe.subscriptions.get("sub_member").status = "past_due";
+    const res = await postJson("/api/member/subscription/pause", { months: 2 }, asMember(token));
+    expect(res.status).toBe(409);
+    expect(await res.json()).toEqual({ error: "Only an active subscription can be paused", status: "past_due" });
+  });
+
+  it("limits the pause length", async () => {
+    const token = await signIn();
+    const res = await postJson("/api/member/subscription/pause", { months: 13 }, asMember(token));
+    expect(res.status).toBe(400);
+    expect((await res.json<any>()).fields).toEqual([{ field: "months", code: "out_of_range", message: "must be from 1 to 12" }]);
+  });
+});
+
+describe("POST /api/member/subscription/cancel", () => {
+  it("cancels at period end with the reason in Stripe, D1 and GHL", async () => {
+    const token = await signIn();
+    const res = await postJson(
+      "/api/member/subscription/cancel",
+      { reason: "too_expensive", comment: "Moving in with family" },
+      asMember(token)
+    );
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({
+      subscription: { cancelAtPeriodEnd: true, cancelReason: "too_expensive", currentPeriodEnd: iso(PERIOD_END) },
+    });
+
+    const update = stripeCall("/v1/subscriptions/sub_member");
+    expect(Object.fromEntries(update.form)).toEqual({
+      cancel_at_period_end: "true",
+      "cancellation_details[feedback]": "too_expensive",
+      "cancellation_details[comment]": "Moving in with family",
+      "metadata[cancelReason]": "too_expensive",
+    });
+
+    expect(fakes.stripe.metadataWrites()).toEqual([
+      {
+        customerId: "cus_member",
+        metadata: { cancelAtPeriodEnd: "true", cancelReason: "too_expensive", currentPeriodEnd: iso(PERIOD_END) },
+      },
+    ]);
+    expect(await rows("SELECT cancel_at_period_end, current_period_end FROM subscriptions")).toEqual([
+      { cancel_at_period_end: 1, current_period_end: iso(PERIOD_END) },
+    ]);
+    expect(await rows("SELECT action, from_part_number, reason, comment FROM subscription_changes")).toEqual([
+      { action: "cancel", from_part_number: "R4-PLAN-BASIC", reason: "too_expensive", comment: "Moving in with family" },
+    ]);
+    expect(fakes.ghl.upserts()[0]).toMatchObject({
+      tags: ["R4-CancelPending"],
+      customFields: [
+        { key: "stripe_customer_id", field_value: "cus_member" },
+        { key: "stripe_subscription_id", field_value: "sub_member" },
+        { key: "r4_cancel_at_period_end", field_value: "true" },
+        { key: "r4_cancel_reason", field_value: "too_expensive" },
+        { key: "r4_cancel_comment", field_value: "Moving in with family" },
+        { key: "r4_current_period_end", field_value: iso(PERIOD_END) },
+      ],
+    });
+  });
+
+  it("leaves the webhook ordering watermark to Stripe events", async () => {
+    const token = await signIn();
+    await deliver(stripeEvent("customer.subscription.updated", { id: "sub_member", customer: "cus_member", status: "active" }, 1_760_000_000));
+    await postJson("/api/member/subscription/cancel", { reason: "unused" }, asMember(token));
+    expect(await rows("SELECT cancel_at_period_end, last_event_created FROM subscriptions")).toEqual([
+      { cancel_at_period_end: 1, last_event_created: 1_760_000_000 },
+    ]);
+
+    // The update the cancel triggers, stamped before the Worker's clock.
+    await deliver(
+      stripeEvent("customer.subscription.updated", { id: "sub_member", customer: "cus_member", status: "past_due" }, 1_760_000_001)
+    );
+    expect(await rows("SELECT status, last_event_created FROM subscriptions")).toEqual([
+      { status: "past_due", last_event_created: 1_760_000_001 },
+    ]);
+  });
+
+  it("requires one of Stripe's reasons", async () => {
+    const token = await signIn();
+    const res = await postJson("/api/member/subscription/cancel", { reason: "bored" }, asMember(token));
+    expect(res.status).toBe(400);
+    expect((await res.json<any>()).fields).toEqual([
+      {
+        field: "reason",
+        code: "invalid_value",
+        message:
+          "must be one of: customer_service, low_quality, missing_features, other, switched_service, too_complex, too_expensive, unused",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+// test/migrations.test.ts
+// Forward-only migration numbering, the schema version check behind
+// GET /api/health + the cron log, and the local dev seed file.
+import { env } from "cloudflare:test";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { EXPECTED_MIGRATION } from "../src/schemaVersion";
+import { adminGet, callWorker, installFakes, rows, runCron } from "./helpers";
+
+beforeEach(() => {
+  installFakes();
+});
+
+// seeds/dev.sql as individual statements (comment lines dropped).
+function seedStatements(): D1PreparedStatement[] {
+  return env.TEST_DEV_SEED.split("\n")
+    .filter((line) => !line.trim().startsWith("--"))
+    .join("\n")
+    .split(/;\s*(?:\n|$)/)
+    .map((sql) => sql.trim())
+    .filter(Boolean)
+    .map((sql) => env.DB.prepare(sql));
+}
+
+describe("migrations/", () => {
+  it("is numbered 0001.. with no gaps or duplicates, ending at EXPECTED_MIGRATION", () => {
+    const names = env.TEST_MIGRATIONS.map((m) => m.name);
+    names.forEach((name, i) => expect(name).toMatch(new RegExp(`^${String(i + 1).padStart(4, "0")}_[a-z0-9_]+\\.sql$`)));
+    expect(names[names.length - 1]).toBe(EXPECTED_MIGRATION);
+  });
+
+  it("no longer leaves the template comments table behind", async () => {
+    expect(await rows("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'comments'")).toEqual([]);
+  });
+});
+
+describe("GET /api/health", () => {
+  it("reports the schema as current", async () => {
+    const res = await callWorker("/api/health");
+    expect(res.status).toBe(200);
+    expect((await res.json<any>()).schema).toEqual({
+      state: "current",
+      expected: EXPECTED_MIGRATION,
+      applied: EXPECTED_MIGRATION,
+    });
+  });
+
+  it("503s when migrations haven't been applied", async () => {
+    await env.DB.prepare("DELETE FROM d1_migrations WHERE name = ?1").bind(EXPECTED_MIGRATION).run();
+    const res = await callWorker("/api/health");
+    expect(res.status).toBe(503);
+    expect((await res.json<any>()).schema).toMatchObject({ state: "behind", applied: env.TEST_MIGRATIONS.at(-2)!.name });
+  });
+
+  it("503s when the database is ahead of the code", async () => {
+    await env.DB.prepare("INSERT INTO d1_migrations (name) VALUES ('9999_from_the_future.sql')").run();
+    const res = await callWorker("/api/health");
+    expect(res.status).toBe(503);
+    expect((await res.json<any>()).schema).toMatchObject({ state: "ahead", applied: "9999_from_the_future.sql" });
+  });
+
+  it("only answers GET", async () => {
+    expect((await callWorker("/api/health", { method: "POST" })).status).toBe(405);
+  });
+});
+
+describe("cron", () => {
+  it("logs a schema mismatch", async () => {
+    const errors = vi.spyOn(console, "error").mockImplementation(() => {});
+    await runCron();
+    expect(errors).not.toHaveBeenCalled();
+
+    await env.DB.prepare("DELETE FROM d1_migrations WHERE name = ?1").bind(EXPECTED_MIGRATION).run();
+    await runCron();
+    expect(errors).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(errors.mock.calls[0][0])).toMatchObject({
+      level: "error",
+      msg: "D1 schema version mismatch",
+      cron: "*/5 * * * *",
+      schema: { state: "behind" },
+    });
+  });
+});
+
+describe("seeds/dev.sql", () => {
+  it("loads against the current schema and can be re-run", async () => {
+    await env.DB.batch(seedStatements());
+    await env.DB.batch(seedStatements());
+
+    expect(await rows("SELECT COUNT(*) AS n FROM sms_consent_log")).toEqual([{ n: 2 }]);
+    const customers = await (await adminGet("/admin/api/customers")).json<any>();
+    expect(customers.data.map((c: any) => c.id).sort()).toEqual(["cus_dev_pat", "cus_dev_sam"]);
+    const outbox = await (await adminGet("/admin/api/ghl-outbox?status=dead")).json<any>();
+    expect(outbox.data).toHaveLength(1);
+  });
+});
@@ -0,0 +1,40 @@
+// test/phone.test.ts
+import { describe, expect, it } from "vitest";
+import { canonicalPhone, normalizePhone } from "../src/phone";
+
+describe("normalizePhone", () => {
+  it.each([
+    ["(555) 234-5678", "US", "+15552345678"],
+    ["555.234.5678", "US", "+15552345678"],
+    ["1 555 234 5678", "US", "+15552345678"],
+    ["+1 555-234-5678", "GB", "+15552345678"],
+    ["011 44 20 7946 0958", "US", "+442079460958"],
+    ["+44 (0)20 7946 0958", "US", "+442079460958"],
+    ["020 7946 0958", "GB", "+442079460958"],
+    ["0412 345 678", "AU", "+61412345678"],
+    ["+49 30 901820", "US", "+4930901820"],
+    ["5552345678", "ZZ", "+15552345678"],
+  ])("%s (%s) -> %s", (input, country, e164) => {
+    expect(normalizePhone(input, country)).toEqual({ ok: true, e164 });
+  });
+
+  it.each([
+    ["", "is empty"],
+    ["555-234-5678 ext. 12", "must not include an extension"],
+    ["555-CALL-NOW", "contains characters that aren't part of a phone number"],
+    ["555-0100", "has the wrong number of digits"],
+    ["(155) 234-5678", "is not a valid North American number"],
+    ["(555) 911-5678", "is not a valid North American number"],
+    ["+0 123 456 789", "has an invalid country code"],
+  ])("rejects %j", (input, error) => {
+    expect(normalizePhone(input, "US")).toEqual({ ok: false, error });
+  });
+});
+
+describe("canonicalPhone", () => {
+  it("returns E.164 or an empty string", () => {
+    expect(canonicalPhone(" 555 234 5678 ")).toBe("+15552345678");
+    expect(canonicalPhone("nope")).toBe("");
+    expect(canonicalPhone(null)).toBe("");
+  });
+});
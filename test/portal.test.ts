@@ -0,0 +1,189 @@
+// test/portal.test.ts
+// Billing portal: POST /api/billing-portal/request-code (one-time code via the
+// verification webhook or GHL) then POST /api/create-billing-portal (email + code).
+import { beforeEach, describe, expect, it } from "vitest";
+import { Fakes, installFakes, postJson, rows } from "./helpers";
+
+const GENERIC = { ok: true, message: "If that email has an account, a code is on its way." };
+
+let fakes: Fakes;
+
+beforeEach(() => {
+  fakes = installFakes();
+  fakes.stripe.addCustomer({ id: "cus_portal", email: "pat@example.com", name: "Pat Doe", phone: "555-234-5678" });
+});
+
+async function requestCode(body: Record<string, unknown>) {
+  const res = await postJson("/api/billing-portal/request-code", body);
+  return { status: res.status, body: await res.json<any>() };
+}
+
+describe("POST /api/billing-portal/request-code", () => {
+  it("sends a 6-digit code by email to a known customer", async () => {
+    const res = await requestCode({ email: "Pat@Example.com" });
+    expect(res).toEqual({ status: 200, body: GENERIC });
+
+    expect(fakes.stripe.calls.map((c) => `${c.method} ${c.path}?${c.query}`)).toEqual([
+      "GET /v1/customers?email=pat%40example.com&limit=10",
+    ]);
+    expect(fakes.notifications).toEqual([
+      {
+        channel: "email",
+        to: "pat@example.com",
+        subject: "Your R4 Home Service verification code",
+        message: expect.stringMatching(/^Your R4 Home Service code is \d{6}\. It expires in 10 minutes\./),
+        code: expect.stringMatching(/^\d{6}$/),
+        expiresAt: expect.any(String),
+      },
+    ]);
+    // Only a hash is stored.
+    const [row] = await rows<{ code_hash: string; customer_id: string }>("SELECT code_hash, customer_id FROM portal_verifications");
+    expect(row.customer_id).toBe("cus_portal");
+    expect(row.code_hash).not.toContain(fakes.notifications[0].code);
+  });
+
+  it("words the message with the environment's brand", async () => {
+    await postJson("/api/billing-portal/request-code", { email: "pat@example.com" }, {}, { BRAND_NAME: "Acme Home" });
+    expect(fakes.notifications[0]).toMatchObject({
+      subject: "Your Acme Home verification code",
+      message: expect.stringMatching(/^Your Acme Home code is \d{6}\./),
+    });
+  });
+
+  it("texts the phone on file when SMS is requested", async () => {
+    await requestCode({ email: "pat@example.com", channel: "sms" });
+    expect(fakes.notifications[0]).toMatchObject({ channel: "sms", to: "+15552345678" });
+  });
+
+  it("falls back to email when there is no phone for SMS", async () => {
+    fakes.stripe.addCustomer({ id: "cus_nophone", email: "nophone@example.com" });
+    await requestCode({ email: "nophone@example.com", channel: "sms" });
+    expect(fakes.notifications[0]).toMatchObject({ channel: "email", to: "nophone@example.com" });
+  });
+
+  it("answers the same for an unknown email and sends nothing", async () => {
+    expect(await requestCode({ email: "nobody@example.com" })).toEqual({ status: 200, body: GENERIC });
+    expect(fakes.notifications).toEqual([]);
+    expect(await rows("SELECT id FROM portal_verifications")).toEqual([]);
+  });
+
+  it("doesn't resend within the resend interval", async () => {
+    await requestCode({ email: "pat@example.com" });
+    expect(await requestCode({ email: "pat@example.com" })).toEqual({ status: 200, body: GENERIC });
+    expect(fakes.notifications).toHaveLength(1);
+  });
+
+  it("answers a failed send like an unknown email", async () => {
+    fakes.notifyStatus = 500;
+    const res = await requestCode({ email: "pat@example.com" });
+    expect(res).toEqual({ status: 200, body: GENERIC });
+  });
+
+  it("can send through GHL Conversations", async () => {
+    const res = await postJson("/api/billing-portal/request-code", { email: "pat@example.com", channel: "sms" }, {}, {
+      VERIFICATION_SENDER: "ghl",
+    });
+    expect(res.status).toBe(200);
+
+    expect(fakes.ghl.calls.map((c) => `${c.method} ${c.path} ${c.version}`)).toEqual([
+      "POST /contacts/upsert 2021-07-28",
+      "POST /conversations/messages 2021-04-15",
+    ]);
+    expect(fakes.ghl.calls[0].body).toEqual({
+      locationId: "loc_test",
+      email: "pat@example.com",
+      phone: "+15552345678",
+      source: "stripe-webhook",
+    });
+    expect(fakes.ghl.calls[1].body).toEqual({
+      type: "SMS",
+      contactId: "ghl_contact_1",
+      message: expect.stringMatching(/^Your R4 Home Service code is \d{6}\./),
+    });
+  });
+
+  it("refuses to run without a sender", async () => {
+    const res = await postJson("/api/billing-portal/request-code", { email: "pat@example.com" }, {}, { VERIFICATION_SENDER: "" });
+    expect(res.status).toBe(500);
+    expect(fakes.stripe.calls).toEqual([]);
+  });
+
+  it("validates the body", async () => {
+    const res = await requestCode({ email: "pat", channel: "fax" });
+    expect(res.status).toBe(400);
+    expect(res.body.fields).toEqual([
+      { field: "email", code: "invalid_format", message: "must be an email address" },
+      { field: "channel", code: "invalid_value", message: "must be one of: email, sms" },
+    ]);
+  });
+});
+
+describe("POST /api/create-billing-portal", () => {
+  async function issuedCode(): Promise<string> {
+    await requestCode({ email: "pat@example.com" });
+    return fakes.notifications[0].code;
+  }
+
+  it("exchanges a valid code for a portal URL, once", async () => {
+    const code = await issuedCode();
+
+    const res = await postJson("/api/create-billing-portal", { email: "pat@example.com", code: `${code.slice(0, 3)} ${code.slice(3)}` });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ url: expect.stringMatching(/^https:\/\/billing\.stripe\.test\/p\/session\/bps_test_/) });
+
+    const portalCall = fakes.stripe.calls.find((c) => c.path === "/v1/billing_portal/sessions")!;
+    expect(Object.fromEntries(portalCall.form)).toEqual({
+      customer: "cus_portal",
+      return_url: "https://r4homeservice.com/manage",
+    });
+    expect(portalCall.idempotencyKey).toBeTruthy();
+
+    const reused = await postJson("/api/create-billing-portal", { email: "pat@example.com", code });
+    expect(reused.status).toBe(401);
+  });
+
+  it("returns to a pre-approved page picked by key", async () => {
+    const code = await issuedCode();
+    const overrides = { RETURN_URLS: "account=https://staging.r4homeservice.com/account" };
+
+    const unknown = await postJson("/api/create-billing-portal", { email: "pat@example.com", code, returnUrlKey: "nope" }, {}, overrides);
+    expect(unknown.status).toBe(400);
+    expect((await unknown.json<any>()).fields).toEqual([
+      { field: "returnUrlKey", code: "unknown_return_url", message: "unknown return URL key: nope" },
+    ]);
+
+    // The bad key didn't use up the code.
+    const res = await postJson("/api/create-billing-portal", { email: "pat@example.com", code, returnUrlKey: "account" }, {}, overrides);
+    expect(res.status).toBe(200);
+    const portalCall = fakes.stripe.calls.find((c) => c.path === "/v1/billing_portal/sessions")!;
+    expect(Object.fromEntries(portalCall.form).return_url).toBe("https://staging.r4homeservice.com/account");
+  });
+
+  it("rejects a wrong code", async () => {
+    const code = await issuedCode();
+    const wrong = code === "000000" ? "111111" : "000000";
+    const res = await postJson("/api/create-billing-portal", { email: "pat@example.com", code: wrong });
+    expect(res.status).toBe(401);
+    expect(await res.json()).toEqual({ error: "Invalid or expired code" });
+    expect(fakes.stripe.calls.some((c) => c.path === "/v1/billing_portal/sessions")).toBe(false);
+  });
+
+  it("locks the code after too many wrong attempts", async () => {
+    const code = await issuedCode();
+    const wrong = code === "000000" ? "111111" : "000000";
+    // Lift the per-email rate limit so the attempt counter is what's tested.
+    const overrides = { RATE_LIMITS: "portal.identifier=0/900" };
+    for (let i = 0; i < 5; i++) {
+      await postJson("/api/create-billing-portal", { email: "pat@example.com", code: wrong }, {}, overrides);
+    }
+
+    const res = await postJson("/api/create-billing-portal", { email: "pat@example.com", code }, {}, overrides);
+    expect(res.status).toBe(401);
+  });
+
+  it("requires the code", async () => {
+    const res = await postJson("/api/create-billing-portal", { email: "pat@example.com" });
+    expect(res.status).toBe(400);
+    expect((await res.json<any>()).fields).toEqual([{ field: "code", code: "required", message: "is required" }]);
+  });
+});
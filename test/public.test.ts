@@ -0,0 +1,208 @@
+// test/public.test.ts
+// Router-level behavior of the public /api/* routes (CORS allowlist, rate
+// limits, 404s), plus GET /api/get-checkout-contact and POST /api/sms-opt-out.
+import { env } from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import { Fakes, callWorker, installFakes, postJson, rows, seedMirrorCustomer } from "./helpers";
+
+let fakes: Fakes;
+
+beforeEach(() => {
+  fakes = installFakes();
+});
+
+describe("routing and CORS", () => {
+  it("404s unknown paths", async () => {
+    expect((await callWorker("/api/nope")).status).toBe(404);
+  });
+
+  it("answers a preflight from an allowed origin", async () => {
+    const res = await callWorker("/api/create-checkout-session", {
+      method: "OPTIONS",
+      headers: { Origin: "https://book.r4homeservice.com" },
+    });
+    expect(res.status).toBe(204);
+    expect(res.headers.get("Access-Control-Allow-Origin")).toBe("https://book.r4homeservice.com");
+  });
+
+  it("rejects other origins before running the route", async () => {
+    const res = await postJson("/api/sms-opt-out", { phone: "5552345678" }, { Origin: "https://evil.example" });
+    expect(res.status).toBe(403);
+    expect(await rows("SELECT id FROM sms_consent_log")).toEqual([]);
+  });
+
+  it("adds CORS headers to responses for allowed origins", async () => {
+    const res = await postJson("/api/sms-opt-out", { phone: "bad" }, { Origin: "https://r4homeservice.com" });
+    expect(res.status).toBe(400);
+    expect(res.headers.get("Access-Control-Allow-Origin")).toBe("https://r4homeservice.com");
+  });
+
+  it("refuses preflights for non-public routes", async () => {
+    const res = await callWorker("/api/stripe-webhook", { method: "OPTIONS", headers: { Origin: "https://r4homeservice.com" } });
+    expect(res.status).toBe(403);
+  });
+});
+
+describe("rate limits", () => {
+  const overrides = { RATE_LIMITS: "contact.ip=2/600,optout.ip=0/600" };
+  const contact = () => callWorker("/api/get-checkout-contact?session_id=cs_test_missing", {}, overrides);
+
+  it("throttles per IP with 429 + Retry-After and logs the throttle", async () => {
+    expect((await contact()).status).not.toBe(429);
+    expect((await contact()).status).not.toBe(429);
+
+    const res = await contact();
+    expect(res.status).toBe(429);
+    const retryAfter = Number(res.headers.get("Retry-After"));
+    expect(retryAfter).toBeGreaterThan(0);
+    expect(retryAfter).toBeLessThanOrEqual(600);
+    expect(await res.json()).toEqual({ error: "Too many requests", retryAfter });
+
+    expect(await rows("SELECT route, rule, ip, identifier, count, limit_count, window_seconds FROM rate_limit_events")).toEqual([
+      {
+        route: "/api/get-checkout-contact",
+        rule: "contact.ip",
+        ip: "203.0.113.7",
+        identifier: null,
+        count: 3,
+        limit_count: 2,
+        window_seconds: 600,
+      },
+    ]);
+  });
+
+  it("keeps separate buckets per IP", async () => {
+    await contact();
+    await contact();
+    const other = await callWorker("/api/get-checkout-contact?session_id=cs_test_missing", { headers: { "CF-Connecting-IP": "198.51.100.9" } }, overrides);
+    expect(other.status).not.toBe(429);
+  });
+
+  it("throttles per phone regardless of formatting", async () => {
+    const limits = { RATE_LIMITS: "checkout.identifier=1/600" };
+    await postJson("/api/create-checkout-session", { phone: "(555) 234-5678", partNumber: "X" }, {}, limits);
+    const res = await postJson(
+      "/api/create-checkout-session",
+      { phone: "+1 555.234.5678", partNumber: "X" },
+      { "CF-Connecting-IP": "198.51.100.9" },
+      limits
+    );
+    expect(res.status).toBe(429);
+    expect(await rows("SELECT rule, identifier FROM rate_limit_events")).toEqual([
+      { rule: "checkout.identifier", identifier: "phone:+15552345678" },
+    ]);
+  });
+
+  it("lets a limit of 0 disable a rule", async () => {
+    for (let i = 0; i < 12; i++) {
+      expect((await postJson("/api/sms-opt-out", { phone: "5552345678" }, {}, overrides)).status).toBe(200);
+    }
+  });
+});
+
+describe("GET /api/get-checkout-contact", () => {
+  it("returns the contact and purchase details for the success page", async () => {
+    fakes.stripe.addCustomer({ id: "cus_c", email: "pat@example.com", name: "Pat Doe", phone: "555 234 5678" });
+    fakes.stripe.checkoutSessions.set("cs_test_c", {
+      id: "cs_test_c",
+      object: "checkout.session",
+      mode: "subscription",
+      customer: "cus_c",
+      customer_email: null,
+      customer_details: { email: null, name: null, phone: null },
+      metadata: { purchaseType: "subscription", partNumber: "R4-PLAN", serviceSummary: "Basic plan", monthlyAmount: "49.00" },
+    });
+
+    const res = await callWorker("/api/get-checkout-contact?session_id=cs_test_c&utm_source=email");
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      email: "pat@example.com",
+      phone: "+15552345678",
+      name: "Pat Doe",
+      purchaseType: "subscription",
+      partNumber: "R4-PLAN",
+      serviceSummary: "Basic plan",
+      amount: "49.00",
+      interval: "month",
+      intervalCount: 1,
+      cadence: "monthly",
+      monthlyAmount: "49.00",
+      oneTimeAmount: "",
+    });
+
+    const [call] = fakes.stripe.calls;
+    expect(`${call.method} ${call.path}?${call.query}`).toBe(
+      "GET /v1/checkout/sessions/cs_test_c?expand%5B0%5D=customer&expand%5B1%5D=subscription"
+    );
+  });
+
+  it("reports the cadence of a quarterly plan", async () => {
+    fakes.stripe.checkoutSessions.set("cs_test_q", {
+      id: "cs_test_q",
+      object: "checkout.session",
+      mode: "subscription",
+      customer: null,
+      customer_details: { email: "pat@example.com", name: "Pat Doe", phone: null },
+      metadata: { purchaseType: "subscription", partNumber: "R4-PLAN-Q", amount: "139.00", interval: "month", intervalCount: "3" },
+    });
+
+    const res = await callWorker("/api/get-checkout-contact?session_id=cs_test_q");
+    expect(await res.json()).toMatchObject({
+      amount: "139.00",
+      interval: "month",
+      intervalCount: 3,
+      cadence: "quarterly",
+      monthlyAmount: "",
+    });
+  });
+
+  it("validates session_id", async () => {
+    const res = await callWorker("/api/get-checkout-contact?session_id=pi_123");
+    expect(res.status).toBe(400);
+    expect((await res.json<any>()).fields).toEqual([
+      { field: "session_id", code: "invalid_format", message: "must be a Checkout Session id" },
+    ]);
+    expect(fakes.stripe.calls).toEqual([]);
+  });
+
+  it("maps an unknown session to a 400 Stripe error", async () => {
+    const res = await callWorker("/api/get-checkout-contact?session_id=cs_test_missing");
+    expect(res.status).toBe(400);
+    expect((await res.json<any>()).details).toMatchObject({ type: "invalid_request_error", code: "resource_missing" });
+  });
+});
+
+describe("POST /api/sms-opt-out", () => {
+  it("logs the opt-out, updates the mirror and tags the GHL contact", async () => {
+    await seedMirrorCustomer({ id: "cus_stop", email: "pat@example.com", phone: "+15552345678" });
+
+    const res = await postJson("/api/sms-opt-out", { phone: "555.234.5678", source: "sms-stop" }, { "User-Agent": "ghl-workflow" });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ ok: true, ghl: "ok" });
+
+    expect(await rows("SELECT phone, action, consent_version, source, ip, user_agent FROM sms_consent_log")).toEqual([
+      { phone: "+15552345678", action: "opt_out", consent_version: null, source: "sms-stop", ip: "203.0.113.7", user_agent: "ghl-workflow" },
+    ]);
+    expect(await rows("SELECT sms_opt_in, ghl_sync_status FROM customers")).toEqual([{ sms_opt_in: "no", ghl_sync_status: "ok" }]);
+
+    expect(fakes.ghl.upserts()).toEqual([
+      {
+        locationId: "loc_test",
+        tags: ["SMS-OptOut"],
+        customFields: [
+          { key: "r4_sms_opt_in", field_value: "no" },
+          { key: "r4_sms_opt_out_ts", field_value: expect.any(String) },
+        ],
+        source: "stripe-webhook",
+        phone: "+15552345678",
+      },
+    ]);
+    expect(fakes.ghl.tagRemovals()).toEqual([{ contactId: "ghl_contact_1", tags: ["SMS-OptIn"] }]);
+  });
+
+  it("keeps the consent log append-only", async () => {
+    await postJson("/api/sms-opt-out", { phone: "5552345678" });
+    await expect(env.DB.prepare("DELETE FROM sms_consent_log").run()).rejects.toThrow(/append-only/);
+    await expect(env.DB.prepare("UPDATE sms_consent_log SET action = 'opt_in'").run()).rejects.toThrow(/append-only/);
+  });
+});
@@ -0,0 +1,10 @@
+// test/setup.ts
+// Runs before each test file: schema in place, Worker logs silenced.
+import { applyD1Migrations, env } from "cloudflare:test";
+import { beforeEach, vi } from "vitest";
+
+await applyD1Migrations(env.DB, env.TEST_MIGRATIONS);
+
+beforeEach(() => {
+  for (const method of ["log", "warn", "error"] as const) vi.spyOn(console, method).mockImplementation(() => {});
+});
@@ -0,0 +1,30 @@
+// test/stripe.test.ts
+import { describe, expect, it } from "vitest";
+import { encodeStripeParams } from "../src/stripe";
+
+describe("encodeStripeParams", () => {
+  it("uses Stripe's bracket notation for nested objects and arrays", () => {
+    const encoded = encodeStripeParams({
+      mode: "subscription",
+      line_items: [{ quantity: 2, price_data: { unit_amount: 4900, recurring: { interval: "month" } } }],
+      metadata: { a: "1", "b c": "x&y" },
+      expand: ["customer", "subscription"],
+      allow_promotion_codes: true,
+    });
+    expect([...new URLSearchParams(encoded)]).toEqual([
+      ["mode", "subscription"],
+      ["line_items[0][quantity]", "2"],
+      ["line_items[0][price_data][unit_amount]", "4900"],
+      ["line_items[0][price_data][recurring][interval]", "month"],
+      ["metadata[a]", "1"],
+      ["metadata[b c]", "x&y"],
+      ["expand[0]", "customer"],
+      ["expand[1]", "subscription"],
+      ["allow_promotion_codes", "true"],
+    ]);
+  });
+
+  it("skips null and undefined values", () => {
+    expect(encodeStripeParams({ a: undefined, b: null, c: { d: undefined }, e: "" })).toBe("e=");
+  });
+});
@@ -0,0 +1,751 @@
+// test/webhook.test.ts
+// POST /api/stripe-webhook: signature checks, idempotency, and for every handled
+// event type the exact Stripe customer metadata write, GHL payload and D1 rows.
+import { env } from "cloudflare:test";
+import { beforeEach, describe, expect, it } from "vitest";
+import worker from "../src/index";
+import { Fakes, deliver, installFakes, rows, seedMirrorCustomer, signedWebhook, stripeEvent } from "./helpers";
+
+const CREATED = 1_760_000_000;
+const iso = (unix: number) => new Date(unix * 1000).toISOString();
+
+const GHL_HEADERS = { version: "2021-07-28", authorization: "Bearer ghl_test_token" };
+
+let fakes: Fakes;
+
+beforeEach(() => {
+  fakes = installFakes();
+});
+
+async function ledger(eventId: string) {
+  const [row] = await rows<{ status: string; actions: string; error: string | null }>(
+    "SELECT status, actions, error FROM stripe_events WHERE id = ?1",
+    eventId
+  );
+  return { status: row?.status, actions: JSON.parse(row?.actions || "[]"), error: row?.error };
+}
+
+// =====================================================
+// Signature verification
+// =====================================================
+describe("signature verification", () => {
+  const event = stripeEvent("customer.created", { id: "cus_x" });
+
+  it("accepts a delivery signed with the current secret", async () => {
+    const res = await worker.fetch(await signedWebhook(event), env);
+    expect(res.status).toBe(200);
+  });
+
+  it("accepts the previous secret during rotation", async () => {
+    const res = await worker.fetch(await signedWebhook(stripeEvent("customer.created", {}), { secret: "whsec_test_previous" }), env);
+    expect(res.status).toBe(200);
+  });
+
+  it("rejects a missing Stripe-Signature header", async () => {
+    const res = await worker.fetch(
+      new Request("https://worker.test/api/stripe-webhook", { method: "POST", body: JSON.stringify(event) }),
+      env
+    );
+    expect(res.status).toBe(400);
+    expect(await res.text()).toBe("Missing Stripe-Signature");
+  });
+
+  it("rejects a signature made with another secret", async () => {
+    const res = await worker.fetch(await signedWebhook(event, { secret: "whsec_attacker" }), env);
+    expect(res.status).toBe(400);
+    expect(await res.text()).toBe("Invalid signature: no matching v1 signature");
+  });
+
+  it("rejects a replayed delivery outside the tolerance window", async () => {
+    const res = await worker.fetch(await signedWebhook(event, { timestamp: Math.floor(Date.now() / 1000) - 301 }), env);
+    expect(res.status).toBe(400);
+    expect(await res.text()).toMatch(/^Invalid signature: timestamp too old/);
+  });
+
+  it("rejects GET", async () => {
+    const res = await worker.fetch(new Request("https://worker.test/api/stripe-webhook"), env);
+    expect(res.status).toBe(405);
+  });
+
+  it("does nothing for a rejected delivery", async () => {
+    await worker.fetch(await signedWebhook(event, { secret: "whsec_attacker" }), env);
+    expect(await rows("SELECT id FROM stripe_events")).toEqual([]);
+    expect(fakes.stripe.calls).toEqual([]);
+    expect(fakes.ghl.calls).toEqual([]);
+  });
+});
+
+// =====================================================
+// Idempotency
+// =====================================================
+describe("idempotency", () => {
+  it("runs side effects once per event id", async () => {
+    fakes.stripe.addCustomer({ id: "cus_dup", email: "dup@example.com" });
+    const event = stripeEvent("customer.subscription.deleted", { id: "sub_dup", customer: "cus_dup", canceled_at: CREATED });
+
+    expect((await deliver(event)).status).toBe(200);
+    const stripeCalls = fakes.stripe.calls.length;
+    const ghlCalls = fakes.ghl.calls.length;
+
+    const again = await deliver(event);
+    expect(again.status).toBe(200);
+    expect(await again.text()).toBe("ok (duplicate)");
+    expect(fakes.stripe.calls.length).toBe(stripeCalls);
+    expect(fakes.ghl.calls.length).toBe(ghlCalls);
+  });
+
+  it("records unhandled event types as a no-op", async () => {
+    const event = stripeEvent("customer.created", { id: "cus_new" });
+    expect((await deliver(event)).status).toBe(200);
+    expect(await ledger(event.id)).toEqual({ status: "processed", actions: ["no-op: customer.created"], error: null });
+  });
+});
+
+// =====================================================
+// checkout.session.completed
+// =====================================================
+describe("checkout.session.completed", () => {
+  const smsOptInTs = "2026-10-01T12:00:00.000Z";
+
+  function subscriptionSession() {
+    return {
+      id: "cs_test_sub",
+      object: "checkout.session",
+      mode: "subscription",
+      customer: "cus_sub",
+      subscription: "sub_1",
+      amount_total: 5800,
+      currency: "usd",
+      payment_status: "paid",
+      customer_details: { email: "Pat@Example.com", name: "Pat Doe", phone: "(555) 234-5678" },
+      metadata: {
+        purchaseType: "subscription",
+        partNumber: "R4-PLAN",
+        serviceSummary: "Basic plan, + Filter",
+        monthlyAmount: "58.00",
+        selectorPhone: "+15552345678",
+        smsOptIn: "yes",
+        smsOptInTs,
+        lineCount: "2",
+        line_0: JSON.stringify({ partNumber: "R4-PLAN", quantity: 1, unitAmountCents: 4900 }),
+        line_1: JSON.stringify({ partNumber: "R4-FILTER", quantity: 1, unitAmountCents: 900, addOnTo: "R4-PLAN" }),
+      },
+    };
+  }
+
+  it("subscription: writes customer metadata, upserts GHL and mirrors the purchase", async () => {
+    fakes.stripe.addCustomer({ id: "cus_sub" });
+    const event = stripeEvent("checkout.session.completed", subscriptionSession(), CREATED);
+
+    const res = await deliver(event);
+    expect(res.status).toBe(200);
+
+    // Stripe: everything came with the session, so the only call is the metadata write.
+    expect(fakes.stripe.calls.map((c) => `${c.method} ${c.path}`)).toEqual(["POST /v1/customers/cus_sub"]);
+    expect(fakes.stripe.calls[0].authorization).toBe("Bearer sk_test_fake");
+    expect(fakes.stripe.calls[0].idempotencyKey).toBeTruthy();
+    expect(fakes.stripe.metadataWrites()).toEqual([
+      {
+        customerId: "cus_sub",
+        metadata: {
+          partNumber: "R4-PLAN",
+          serviceSummary: "Basic plan, + Filter",
+          amount: "58.00",
+          billingCadence: "monthly",
+          monthlyAmount: "58.00",
+          purchaseType: "subscription",
+          stripeCustomerId: "cus_sub",
+          stripeSubscriptionId: "sub_1",
+          subscriptionStatus: "active",
+          lastCheckoutSession: "cs_test_sub",
+          selectorPhone: "+15552345678",
+          smsOptIn: "yes",
+          smsOptInTs,
+        },
+      },
+    ]);
+
+    // GHL: upsert, then drop stale status tags (and SMS-OptOut, since they opted in again).
+    expect(fakes.ghl.calls[0]).toMatchObject({ method: "POST", path: "/contacts/upsert", ...GHL_HEADERS });
+    expect(fakes.ghl.upserts()).toEqual([
+      {
+        locationId: "loc_test",
+        tags: ["R4-Subscriber", "SMS-OptIn"],
+        customFields: [
+          { key: "r4_part_number", field_value: "R4-PLAN" },
+          { key: "r4_service_summary", field_value: "Basic plan, + Filter" },
+          { key: "r4_monthly_amount", field_value: "58.00" },
+          { key: "r4_amount", field_value: "58.00" },
+          { key: "r4_billing_interval", field_value: "monthly" },
+          { key: "stripe_customer_id", field_value: "cus_sub" },
+          { key: "stripe_subscription_id", field_value: "sub_1" },
+          { key: "stripe_subscription_status", field_value: "active" },
+          { key: "r4_customer_phone", field_value: "+15552345678" },
+          { key: "r4_sms_opt_in", field_value: "yes" },
+          { key: "r4_sms_opt_in_ts", field_value: smsOptInTs },
+          { key: "r4_purchase_type", field_value: "subscription" },
+        ],
+        source: "stripe-webhook",
+        email: "Pat@Example.com",
+        phone: "+15552345678",
+        name: "Pat Doe",
+      },
+    ]);
+    expect(fakes.ghl.tagRemovals()).toEqual([
+      { contactId: "ghl_contact_1", tags: ["R4-Canceled", "R4-PastDue", "R4-Paused", "SMS-OptOut"] },
+    ]);
+
+    // D1 mirror
+    expect(
+      await rows("SELECT id, email, name, phone, sms_opt_in, last_purchase_type, last_checkout_session, ghl_sync_status FROM customers")
+    ).toEqual([
+      {
+        id: "cus_sub",
+        email: "pat@example.com",
+        name: "Pat Doe",
+        phone: "+15552345678",
+        sms_opt_in: "yes",
+        last_purchase_type: "subscription",
+        last_checkout_session: "cs_test_sub",
+        ghl_sync_status: "ok",
+      },
+    ]);
+    expect(await rows("SELECT id, customer_id, status, part_number, amount_cents, last_event_created FROM subscriptions")).toEqual([
+      { id: "sub_1", customer_id: "cus_sub", status: "active", part_number: "R4-PLAN", amount_cents: 5800, last_event_created: CREATED },
+    ]);
+    expect(
+      await rows("SELECT session_id, purchase_type, customer_id, subscription_id, amount_cents, currency, payment_status FROM purchases")
+    ).toEqual([
+      {
+        session_id: "cs_test_sub",
+        purchase_type: "subscription",
+        customer_id: "cus_sub",
+        subscription_id: "sub_1",
+        amount_cents: 5800,
+        currency: "usd",
+        payment_status: "paid",
+      },
+    ]);
+    expect(
+      await rows("SELECT line_index, part_number, quantity, unit_amount_cents, add_on_to FROM checkout_line_items ORDER BY line_index")
+    ).toEqual([
+      { line_index: 0, part_number: "R4-PLAN", quantity: 1, unit_amount_cents: 4900, add_on_to: null },
+      { line_index: 1, part_number: "R4-FILTER", quantity: 1, unit_amount_cents: 900, add_on_to: "R4-PLAN" },
+    ]);
+
+    expect(await ledger(event.id)).toEqual({
+      status: "processed",
+      actions: [
+        "d1.checkout_line_items cs_test_sub: 2 line(s)",
+        "d1.customers cus_sub",
+        "d1.subscriptions sub_1",
+        "d1.purchases cs_test_sub",
+        "stripe.customer.metadata cus_sub: ok",
+        "ghl.upsert: ok",
+      ],
+      error: null,
+    });
+  });
+
+  it("subscription: passes an allowlisted promo and the trial through to Stripe, D1 and GHL", async () => {
+    fakes.stripe.addCustomer({ id: "cus_sub" });
+    const session = subscriptionSession();
+    Object.assign(session.metadata, { promoCode: "FIRSTMONTH", discount: "promo_1Q2w3E", trialPeriodDays: "30" });
+    const discounted = { ...session, total_details: { amount_discount: 4900 } };
+    await deliver(stripeEvent("checkout.session.completed", discounted, CREATED));
+
+    expect(fakes.stripe.metadataWrites()[0].metadata).toMatchObject({
+      promoCode: "FIRSTMONTH",
+      subscriptionStatus: "trialing",
+    });
+    expect(fakes.ghl.upserts()[0].customFields).toEqual(
+      expect.arrayContaining([
+        { key: "stripe_subscription_status", field_value: "trialing" },
+        { key: "r4_promo_code", field_value: "FIRSTMONTH" },
+        { key: "r4_discount_amount", field_value: "49.00" },
+        { key: "r4_trial_period_days", field_value: "30" },
+      ])
+    );
+    expect(await rows("SELECT status FROM subscriptions")).toEqual([{ status: "trialing" }]);
+  });
+
+  it("subscription: reports a quarterly plan's cadence instead of a monthly amount", async () => {
+    fakes.stripe.addCustomer({ id: "cus_sub" });
+    const { monthlyAmount: _legacy, ...md } = subscriptionSession().metadata;
+    const session = { ...subscriptionSession(), metadata: { ...md, amount: "147.00", interval: "month", intervalCount: "3" } };
+    await deliver(stripeEvent("checkout.session.completed", session, CREATED));
+
+    expect(fakes.stripe.metadataWrites()[0].metadata).toMatchObject({ amount: "147.00", billingCadence: "quarterly" });
+    expect(fakes.stripe.metadataWrites()[0].metadata).not.toHaveProperty("monthlyAmount");
+    const fields = fakes.ghl.upserts()[0].customFields;
+    expect(fields).toEqual(
+      expect.arrayContaining([
+        { key: "r4_amount", field_value: "147.00" },
+        { key: "r4_billing_interval", field_value: "quarterly" },
+      ])
+    );
+    expect(fields.map((f: { key: string }) => f.key)).not.toContain("r4_monthly_amount");
+    expect(await rows("SELECT amount_cents, interval, interval_count FROM subscriptions")).toEqual([
+      { amount_cents: 14700, interval: "month", interval_count: 3 },
+    ]);
+  });
+
+  it("subscription: reports a code the customer entered on Stripe's page", async () => {
+    fakes.stripe.addCustomer({ id: "cus_sub" });
+    const session = { ...subscriptionSession(), discounts: [{ coupon: null, promotion_code: "promo_typed" }] };
+    await deliver(stripeEvent("checkout.session.completed", session, CREATED));
+
+    expect(fakes.ghl.upserts()[0].customFields).toContainEqual({ key: "r4_promo_code", field_value: "promo_typed" });
+  });
+
+  it("one-time: fills a missing name from the Stripe customer and falls back to the selector phone", async () => {
+    fakes.stripe.addCustomer({ id: "cus_once", email: "sam@example.com", name: "Sam Roe" });
+    const event = stripeEvent("checkout.session.completed", {
+      id: "cs_test_once",
+      object: "checkout.session",
+      mode: "payment",
+      customer: "cus_once",
+      subscription: null,
+      amount_total: 12900,
+      currency: "usd",
+      payment_status: "paid",
+      customer_details: { email: "sam@example.com", name: null, phone: null },
+      metadata: {
+        purchaseType: "one_time",
+        partNumber: "R4-TUNEUP",
+        serviceSummary: "Tune-up",
+        oneTimeAmount: "129.00",
+        selectorPhone: "555-345-6789",
+        smsOptIn: "no",
+        smsOptInTs,
+      },
+    });
+
+    expect((await deliver(event)).status).toBe(200);
+
+    expect(fakes.stripe.calls.map((c) => `${c.method} ${c.path}`)).toEqual([
+      "GET /v1/customers/cus_once",
+      "POST /v1/customers/cus_once",
+    ]);
+    expect(fakes.stripe.metadataWrites()[0].metadata).toEqual({
+      partNumber: "R4-TUNEUP",
+      serviceSummary: "Tune-up",
+      oneTimeAmount: "129.00",
+      purchaseType: "one_time",
+      stripeCustomerId: "cus_once",
+      subscriptionStatus: "n/a",
+      lastCheckoutSession: "cs_test_once",
+      selectorPhone: "+15553456789",
+      smsOptIn: "no",
+      smsOptInTs,
+    });
+
+    expect(fakes.ghl.upserts()).toEqual([
+      {
+        locationId: "loc_test",
+        tags: ["R4-OneTime"],
+        customFields: [
+          { key: "r4_part_number", field_value: "R4-TUNEUP" },
+          { key: "r4_service_summary", field_value: "Tune-up" },
+          { key: "stripe_customer_id", field_value: "cus_once" },
+          { key: "stripe_subscription_status", field_value: "n/a" },
+          { key: "r4_customer_phone", field_value: "+15553456789" },
+          { key: "r4_sms_opt_in", field_value: "no" },
+          { key: "r4_sms_opt_in_ts", field_value: smsOptInTs },
+          { key: "r4_purchase_type", field_value: "one_time" },
+          { key: "r4_one_time_amount", field_value: "129.00" },
+        ],
+        source: "stripe-webhook",
+        email: "sam@example.com",
+        phone: "+15553456789",
+        name: "Sam Roe",
+      },
+    ]);
+    // One-time buyers keep whatever status tags they had.
+    expect(fakes.ghl.tagRemovals()).toEqual([]);
+    expect(await rows("SELECT id FROM subscriptions")).toEqual([]);
+  });
+
+  it("skips GHL when neither Stripe nor metadata has an email or phone", async () => {
+    fakes.stripe.addCustomer({ id: "cus_anon" });
+    const event = stripeEvent("checkout.session.completed", {
+      id: "cs_test_anon",
+      mode: "payment",
+      customer: "cus_anon",
+      customer_details: null,
+      metadata: { purchaseType: "one_time", partNumber: "R4-TUNEUP", selectorPhone: "not a phone" },
+    });
+
+    expect((await deliver(event)).status).toBe(200);
+    expect(fakes.ghl.calls).toEqual([]);
+    expect((await ledger(event.id)).actions).toContain("ghl.upsert: skipped (no email/phone)");
+    expect(await rows("SELECT ghl_sync_status FROM customers WHERE id = 'cus_anon'")).toEqual([{ ghl_sync_status: "skipped" }]);
+  });
+});
+
+// =====================================================
+// Lifecycle events (contact looked up from the mirror, then Stripe)
+// =====================================================
+describe("lifecycle events", () => {
+  const contact = { email: "lee@example.com", phone: "+15554567890", name: "Lee Poe" };
+
+  beforeEach(async () => {
+    await seedMirrorCustomer({ id: "cus_life", ...contact });
+    fakes.stripe.addCustomer({ id: "cus_life", ...contact });
+  });
+
+  function ghlUpsert(tags: string[], customFields: Record<string, string>) {
+    return {
+      locationId: "loc_test",
+      tags,
+      customFields: Object.entries(customFields).map(([key, field_value]) => ({ key, field_value })),
+      source: "stripe-webhook",
+      ...contact,
+    };
+  }
+
+  it("invoice.payment_succeeded", async () => {
+    // An earlier failure on the same invoice gets resolved.
+    const failed = stripeEvent("invoice.payment_failed", {
+      id: "in_1",
+      customer: "cus_life",
+      subscription: "sub_life",
+      amount_due: 5800,
+      attempt_count: 1,
+    });
+    await deliver(failed);
+    fakes.stripe.calls.length = 0;
+    fakes.ghl.calls.length = 0;
+
+    const paidAt = CREATED + 60;
+    const event = stripeEvent("invoice.payment_succeeded", {
+      id: "in_1",
+      customer: "cus_life",
+      subscription: "sub_life",
+      status: "paid",
+      amount_paid: 5800,
+      currency: "usd",
+      status_transitions: { paid_at: paidAt },
+    });
+    expect((await deliver(event)).status).toBe(200);
+
+    expect(fakes.stripe.metadataWrites()).toEqual([
+      {
+        customerId: "cus_life",
+        metadata: {
+          lastInvoiceId: "in_1",
+          lastInvoicePaidAt: iso(paidAt),
+          lastInvoiceAmount: "58.00",
+          stripeSubscriptionId: "sub_life",
+          paymentStatus: "paid",
+        },
+      },
+    ]);
+    expect(fakes.ghl.upserts()).toEqual([
+      ghlUpsert(["R4-Subscriber"], {
+        stripe_customer_id: "cus_life",
+        stripe_subscription_id: "sub_life",
+        stripe_subscription_status: "active",
+        r4_payment_status: "paid",
+        r4_last_payment_amount: "58.00",
+        r4_last_payment_at: iso(paidAt),
+        r4_last_invoice_id: "in_1",
+      }),
+    ]);
+    expect(fakes.ghl.tagRemovals()).toEqual([
+      { contactId: "ghl_contact_1", tags: ["R4-Canceled", "R4-PastDue", "R4-Paused", "R4-PaymentFailed"] },
+    ]);
+
+    expect(await rows("SELECT id, status, amount_paid_cents, currency, paid_at FROM invoices")).toEqual([
+      { id: "in_1", status: "paid", amount_paid_cents: 5800, currency: "usd", paid_at: iso(paidAt) },
+    ]);
+    const [issue] = await rows<{ resolved_at: string | null }>("SELECT resolved_at FROM billing_issues WHERE object_id = 'in_1'");
+    expect(issue.resolved_at).toBeTruthy();
+    expect((await ledger(event.id)).actions).toEqual([
+      "stripe.customer.metadata cus_life: ok",
+      "d1.invoices in_1",
+      "d1.billing_issues payment_failed in_1: resolved",
+      "ghl.upsert: ok",
+    ]);
+  });
+
+  it("invoice.payment_failed", async () => {
+    const nextAttempt = CREATED + 3 * 86400;
+    const event = stripeEvent(
+      "invoice.payment_failed",
+      {
+        id: "in_2",
+        customer: "cus_life",
+        subscription: "sub_life",
+        status: "open",
+        amount_due: 5800,
+        currency: "usd",
+        attempt_count: 2,
+        next_payment_attempt: nextAttempt,
+        billing_reason: "subscription_cycle",
+      },
+      CREATED
+    );
+    expect((await deliver(event)).status).toBe(200);
+
+    expect(fakes.stripe.metadataWrites()).toEqual([
+      {
+        customerId: "cus_life",
+        metadata: {
+          paymentStatus: "failed",
+          lastPaymentFailedAt: iso(CREATED),
+          lastPaymentFailedInvoice: "in_2",
+          lastPaymentFailedAmount: "58.00",
+          paymentAttemptCount: "2",
+          nextPaymentAttempt: iso(nextAttempt),
+        },
+      },
+    ]);
+    expect(fakes.ghl.upserts()).toEqual([
+      ghlUpsert(["R4-PaymentFailed"], {
+        stripe_customer_id: "cus_life",
+        stripe_subscription_id: "sub_life",
+        r4_payment_status: "failed",
+        r4_payment_failed_at: iso(CREATED),
+        r4_payment_failed_amount: "58.00",
+        r4_payment_attempt_count: "2",
+        r4_next_payment_attempt: iso(nextAttempt),
+      }),
+    ]);
+    expect(fakes.ghl.tagRemovals()).toEqual([]);
+
+    expect(
+      await rows(
+        "SELECT kind, object_id, customer_id, subscription_id, amount_cents, status, reason, attempt_count, next_attempt_at, occurred_at, resolved_at FROM billing_issues"
+      )
+    ).toEqual([
+      {
+        kind: "payment_failed",
+        object_id: "in_2",
+        customer_id: "cus_life",
+        subscription_id: "sub_life",
+        amount_cents: 5800,
+        status: "failed",
+        reason: "subscription_cycle",
+        attempt_count: 2,
+        next_attempt_at: iso(nextAttempt),
+        occurred_at: iso(CREATED),
+        resolved_at: null,
+      },
+    ]);
+  });
+
+  it("customer.subscription.updated", async () => {
+    const periodEnd = CREATED + 30 * 86400;
+    const event = stripeEvent(
+      "customer.subscription.updated",
+      {
+        id: "sub_life",
+        customer: "cus_life",
+        status: "past_due",
+        cancel_at_period_end: true,
+        current_period_end: periodEnd,
+        metadata: { partNumber: "R4-PLAN" },
+        items: { data: [{ price: { recurring: { interval: "month", interval_count: 3 } } }] },
+      },
+      CREATED
+    );
+    expect((await deliver(event)).status).toBe(200);
+
+    expect(fakes.stripe.metadataWrites()).toEqual([
+      {
+        customerId: "cus_life",
+        metadata: { subscriptionStatus: "past_due", cancelAtPeriodEnd: "true", currentPeriodEnd: iso(periodEnd) },
+      },
+    ]);
+    expect(fakes.ghl.upserts()).toEqual([
+      ghlUpsert(["R4-Subscriber", "R4-PastDue", "R4-CancelPending"], {
+        stripe_customer_id: "cus_life",
+        stripe_subscription_id: "sub_life",
+        stripe_subscription_status: "past_due",
+        r4_cancel_at_period_end: "true",
+        r4_current_period_end: iso(periodEnd),
+        r4_billing_interval: "quarterly",
+      }),
+    ]);
+    expect(fakes.ghl.tagRemovals()).toEqual([{ contactId: "ghl_contact_1", tags: ["R4-Canceled"] }]);
+
+    expect(
+      await rows("SELECT id, status, part_number, interval, interval_count, cancel_at_period_end, current_period_end FROM subscriptions")
+    ).toEqual([
+      {
+        id: "sub_life",
+        status: "past_due",
+        part_number: "R4-PLAN",
+        interval: "month",
+        interval_count: 3,
+        cancel_at_period_end: 1,
+        current_period_end: iso(periodEnd),
+      },
+    ]);
+  });
+
+  it("customer.subscription.updated ignores an event older than the mirror", async () => {
+    await deliver(stripeEvent("customer.subscription.updated", { id: "sub_life", customer: "cus_life", status: "active" }, CREATED));
+    await deliver(stripeEvent("customer.subscription.updated", { id: "sub_life", customer: "cus_life", status: "past_due" }, CREATED - 60));
+    expect(await rows("SELECT status FROM subscriptions")).toEqual([{ status: "active" }]);
+  });
+
+  it("customer.subscription.updated keeps a collection pause tagged as paused", async () => {
+    const resumesAt = CREATED + 90 * 86400;
+    const event = stripeEvent(
+      "customer.subscription.updated",
+      { id: "sub_life", customer: "cus_life", status: "active", pause_collection: { behavior: "void", resumes_at: resumesAt } },
+      CREATED
+    );
+    expect((await deliver(event)).status).toBe(200);
+
+    expect(fakes.ghl.upserts()).toEqual([
+      ghlUpsert(["R4-Subscriber", "R4-Paused"], {
+        stripe_customer_id: "cus_life",
+        stripe_subscription_id: "sub_life",
+        stripe_subscription_status: "active",
+        r4_cancel_at_period_end: "false",
+        r4_paused_until: iso(resumesAt),
+      }),
+    ]);
+    expect(fakes.ghl.tagRemovals()).toEqual([{ contactId: "ghl_contact_1", tags: ["R4-Canceled", "R4-CancelPending"] }]);
+  });
+
+  it("customer.subscription.paused", async () => {
+    const event = stripeEvent(
+      "customer.subscription.paused",
+      { id: "sub_life", customer: "cus_life", status: "paused", pause_collection: { behavior: "void" } },
+      CREATED
+    );
+    expect((await deliver(event)).status).toBe(200);
+
+    expect(fakes.stripe.metadataWrites()).toEqual([
+      { customerId: "cus_life", metadata: { subscriptionStatus: "paused", subscriptionPausedAt: iso(CREATED) } },
+    ]);
+    expect(fakes.ghl.upserts()).toEqual([
+      ghlUpsert(["R4-Subscriber", "R4-Paused"], {
+        stripe_customer_id: "cus_life",
+        stripe_subscription_id: "sub_life",
+        stripe_subscription_status: "paused",
+        r4_paused_at: iso(CREATED),
+      }),
+    ]);
+    expect(fakes.ghl.tagRemovals()).toEqual([{ contactId: "ghl_contact_1", tags: ["R4-Canceled"] }]);
+    expect(await rows("SELECT kind, object_id, status, reason FROM billing_issues")).toEqual([
+      { kind: "subscription_paused", object_id: "sub_life", status: "paused", reason: "void" },
+    ]);
+
+    // Resuming (status back to active) resolves the pause.
+    await deliver(stripeEvent("customer.subscription.updated", { id: "sub_life", customer: "cus_life", status: "active" }, CREATED + 60));
+    const [issue] = await rows<{ resolved_at: string | null }>("SELECT resolved_at FROM billing_issues");
+    expect(issue.resolved_at).toBeTruthy();
+  });
+
+  it("customer.subscription.deleted", async () => {
+    const canceledAt = CREATED + 120;
+    const event = stripeEvent("customer.subscription.deleted", { id: "sub_life", customer: "cus_life", canceled_at: canceledAt }, CREATED);
+    expect((await deliver(event)).status).toBe(200);
+
+    expect(fakes.stripe.metadataWrites()).toEqual([
+      { customerId: "cus_life", metadata: { subscriptionStatus: "canceled", cancelAtPeriodEnd: "false" } },
+    ]);
+    expect(fakes.ghl.upserts()).toEqual([
+      ghlUpsert(["R4-Canceled"], {
+        stripe_customer_id: "cus_life",
+        stripe_subscription_id: "sub_life",
+        stripe_subscription_status: "canceled",
+        r4_cancel_at_period_end: "false",
+        r4_canceled_at: iso(canceledAt),
+      }),
+    ]);
+    expect(fakes.ghl.tagRemovals()).toEqual([
+      { contactId: "ghl_contact_1", tags: ["R4-Subscriber", "R4-PastDue", "R4-Paused", "R4-PaymentFailed", "R4-CancelPending"] },
+    ]);
+    expect(await rows("SELECT status, cancel_at_period_end, canceled_at FROM subscriptions")).toEqual([
+      { status: "canceled", cancel_at_period_end: 0, canceled_at: iso(canceledAt) },
+    ]);
+  });
+
+  it("charge.refunded", async () => {
+    const event = stripeEvent(
+      "charge.refunded",
+      {
+        id: "ch_1",
+        customer: "cus_life",
+        amount_refunded: 2500,
+        refunded: false,
+        currency: "usd",
+        refunds: { data: [{ reason: "requested_by_customer" }] },
+      },
+      CREATED
+    );
+    expect((await deliver(event)).status).toBe(200);
+
+    expect(fakes.stripe.metadataWrites()).toEqual([
+      { customerId: "cus_life", metadata: { lastRefundAt: iso(CREATED), lastRefundAmount: "25.00", lastRefundCharge: "ch_1" } },
+    ]);
+    expect(fakes.ghl.upserts()).toEqual([
+      ghlUpsert(["R4-Refunded"], {
+        stripe_customer_id: "cus_life",
+        r4_last_refund_amount: "25.00",
+        r4_last_refund_at: iso(CREATED),
+      }),
+    ]);
+    expect(await rows("SELECT kind, object_id, amount_cents, status, reason FROM billing_issues")).toEqual([
+      { kind: "refund", object_id: "ch_1", amount_cents: 2500, status: "partial", reason: "requested_by_customer" },
+    ]);
+  });
+
+  it("charge.dispute.created looks the customer up through the charge", async () => {
+    fakes.stripe.charges.set("ch_2", { id: "ch_2", object: "charge", customer: "cus_life", amount: 5800, currency: "usd" });
+    const disputedAt = CREATED - 30;
+    const event = stripeEvent(
+      "charge.dispute.created",
+      { id: "dp_1", charge: "ch_2", amount: 5800, currency: "usd", reason: "fraudulent", status: "needs_response", created: disputedAt },
+      CREATED
+    );
+    expect((await deliver(event)).status).toBe(200);
+
+    expect(fakes.stripe.calls.map((c) => `${c.method} ${c.path}`)).toEqual(["GET /v1/charges/ch_2", "POST /v1/customers/cus_life"]);
+    expect(fakes.stripe.metadataWrites()[0].metadata).toEqual({
+      disputeStatus: "needs_response",
+      lastDisputeAt: iso(disputedAt),
+      lastDisputeReason: "fraudulent",
+      lastDisputeCharge: "ch_2",
+    });
+    expect(fakes.ghl.upserts()).toEqual([
+      ghlUpsert(["R4-Disputed"], {
+        stripe_customer_id: "cus_life",
+        r4_dispute_status: "needs_response",
+        r4_dispute_reason: "fraudulent",
+        r4_dispute_at: iso(disputedAt),
+        r4_dispute_amount: "58.00",
+      }),
+    ]);
+    expect(await rows("SELECT kind, object_id, customer_id, status FROM billing_issues")).toEqual([
+      { kind: "dispute", object_id: "dp_1", customer_id: "cus_life", status: "needs_response" },
+    ]);
+  });
+
+  it("falls back to the Stripe customer when the mirror has no contact", async () => {
+    fakes.stripe.addCustomer({ id: "cus_remote", email: "remote@example.com", metadata: { selectorPhone: "555 678 9012" } });
+    await deliver(stripeEvent("charge.refunded", { id: "ch_3", customer: "cus_remote", amount_refunded: 100, refunded: true }));
+
+    expect(fakes.stripe.calls.map((c) => `${c.method} ${c.path}`)).toEqual([
+      "POST /v1/customers/cus_remote",
+      "GET /v1/customers/cus_remote",
+    ]);
+    expect(fakes.ghl.upserts()[0]).toMatchObject({ email: "remote@example.com", phone: "+15556789012" });
+  });
+
+  it("reports a failed metadata write without failing the event", async () => {
+    const event = stripeEvent("charge.refunded", { id: "ch_4", customer: "cus_missing", amount_refunded: 100 });
+    expect((await deliver(event)).status).toBe(200);
+    expect((await ledger(event.id)).actions).toEqual([
+      "d1.billing_issues refund ch_4",
+      "stripe.customer.metadata cus_missing: failed",
+      "ghl.upsert: skipped (no email/phone)",
+    ]);
+  });
+});
@@ -0,0 +1,40 @@
+import { readFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { defineWorkersConfig, readD1Migrations } from "@cloudflare/vitest-pool-workers/config";
+
+// Tests run inside workerd against a local D1 with every migration applied.
+// Stripe, GHL and the verification webhook are in-process fakes (test/fakes),
+// reached through the *_BASE_URL / VERIFICATION_WEBHOOK_URL bindings below.
+export default defineWorkersConfig(async () => {
+	const migrations = await readD1Migrations(fileURLToPath(new URL("./migrations", import.meta.url)));
+	const devSeed = await readFile(new URL("./seeds/dev.sql", import.meta.url), "utf8");
+
+	return {
+		test: {
+			include: ["test/**/*.test.ts"],
+			setupFiles: ["./test/setup.ts"],
+			restoreMocks: true,
+			poolOptions: {
+				workers: {
+					singleWorker: true,
+					wrangler: { configPath: "./wrangler.json" },
+					miniflare: {
+						bindings: {
+							TEST_MIGRATIONS: migrations,
+							TEST_DEV_SEED: devSeed,
+							STRIPE_SECRET_KEY: "sk_test_fake",
+							STRIPE_WEBHOOK_SECRET: "whsec_test_current,whsec_test_previous",
+							STRIPE_API_BASE_URL: "https://stripe.test",
+							GHL_PRIVATE_TOKEN: "ghl_test_token",
+							GHL_LOCATION_ID: "loc_test",
+							GHL_API_BASE_URL: "https://ghl.test",
+							ADMIN_API_TOKEN: "admin_test_token",
+							VERIFICATION_SENDER: "webhook",
+							VERIFICATION_WEBHOOK_URL: "https://notify.test/verification",
+						},
+					},
+				},
+			},
+		},
+	};
+});